@@ -0,0 +1,48 @@
+import { api, environment, iam } from "./api";
+import { userPool } from "./auth";
+import { bucket, rooms, games, words, votes, players, nicknames, cards, marks, winners, events, sessionSecret } from "./storage";
+
+// Cognito users in this group can call the /admin routes
+export const adminGroup = new aws.cognito.UserGroup("AdminsGroup", {
+  name: "admins",
+  userPoolId: userPool.id,
+  description: "Buzzword Bingo admins",
+});
+
+// Admin routes need the user pool to look up group membership, so they are
+// registered here rather than in api.ts, which auth.ts depends on
+const link = [bucket, rooms, games, words, votes, players, nicknames, cards, marks, winners, events, sessionSecret, userPool];
+
+function route(rawRoute: string, handler: string) {
+  api.route(rawRoute, { handler, link, environment }, iam);
+}
+
+route("GET /admin/rooms", "packages/backend/src/admin/listRooms.main");
+route("POST /admin/rooms", "packages/backend/src/admin/createRoom.main");
+route("PATCH /admin/rooms/{id}", "packages/backend/src/admin/updateRoom.main");
+route("POST /admin/rooms/{id}/pin", "packages/backend/src/admin/rotatePin.main");
+route("DELETE /admin/rooms/{id}/pin", "packages/backend/src/admin/expirePin.main");
+route("POST /admin/rooms/{id}/links", "packages/backend/src/admin/createJoinLink.main");
+route("DELETE /admin/rooms/{id}/links", "packages/backend/src/admin/revokeJoinLinks.main");
+route("GET /admin/rooms/{id}/games", "packages/backend/src/admin/listGames.main");
+route("POST /admin/rooms/{id}/games", "packages/backend/src/admin/createGame.main");
+route("POST /admin/games/{id}/end", "packages/backend/src/admin/endGame.main");
+route("POST /admin/games/{id}/reset", "packages/backend/src/admin/resetGame.main");
+route("GET /admin/rooms/{id}/players", "packages/backend/src/admin/listRoomPlayers.main");
+route("GET /admin/games/{id}/players", "packages/backend/src/admin/listPlayers.main");
+route("PUT /admin/games/{id}/winner", "packages/backend/src/admin/declareWinner.main");
+route("DELETE /admin/games/{id}/winner", "packages/backend/src/admin/revokeWinner.main");
+route("PUT /admin/games/{id}/winner/verdict", "packages/backend/src/admin/reviewWinner.main");
+route("GET /admin/games/{id}/events", "packages/backend/src/admin/listGameEvents.main");
+route("GET /admin/games/{id}/replay", "packages/backend/src/admin/replayGame.main");
+route("GET /admin/evidence", "packages/backend/src/admin/listEvidence.main");
+route("PATCH /admin/players/{sessionId}", "packages/backend/src/admin/updatePlayer.main");
+route("DELETE /admin/players/{sessionId}", "packages/backend/src/admin/kickPlayer.main");
+route("GET /admin/rooms/{id}/words", "packages/backend/src/admin/listWords.main");
+route("POST /admin/rooms/{id}/words", "packages/backend/src/admin/createWord.main");
+route("PATCH /admin/words/{id}", "packages/backend/src/admin/updateWord.main");
+route("POST /admin/rooms/{id}/packs/upload", "packages/backend/src/admin/uploadPack.main");
+route("POST /admin/rooms/{id}/packs/preview", "packages/backend/src/admin/previewPack.main");
+route("POST /admin/rooms/{id}/packs/import", "packages/backend/src/admin/importPack.main");
+route("GET /admin/rooms/{id}/packs/export", "packages/backend/src/admin/exportPack.main");
+route("GET /admin/rooms/{id}/results", "packages/backend/src/admin/exportResults.main");
@@ -1,14 +1,54 @@
-import { table } from "./storage";
+import {
+  bucket,
+  rooms,
+  games,
+  words,
+  votes,
+  players,
+  nicknames,
+  cards,
+  marks,
+  winners,
+  wordCounts,
+  events,
+  snapshots,
+  rateLimits,
+  sessionSecret,
+} from "./storage";
+
+export const environment = {
+  // How long a won game celebrates before the next one starts
+  CELEBRATION_SECONDS: "30",
+  // Upvotes a suggested word needs to join the pool without an admin
+  VOTE_THRESHOLD: "3",
+  // Comma-separated words nicknames can't contain, on top of the ones in
+  // packages/backend/src/lib/nicknames.ts
+  NICKNAME_BLOCKLIST: "",
+};
 
 // Create the API
 export const api = new sst.aws.ApiGatewayV2("Api", {
   transform: {
     route: {
-      handler: {
-        link: [table],
-      },
-      args: {
-        auth: { iam: true }
+      // Defaults only, so routes can bring their own links (see admin.ts)
+      handler: (args) => {
+        args.link ??= [
+          bucket,
+          rooms,
+          games,
+          words,
+          votes,
+          players,
+          nicknames,
+          cards,
+          marks,
+          winners,
+          wordCounts,
+          events,
+          rateLimits,
+          sessionSecret,
+        ];
+        args.environment ??= environment;
       },
     }
   },
@@ -17,8 +57,35 @@ export const api = new sst.aws.ApiGatewayV2("Api", {
   }
 });
 
-api.route("GET /notes", "packages/backend/src/list.main");
-api.route("POST /notes", "packages/backend/src/create.main");
-api.route("GET /notes/{id}", "packages/backend/src/get.main");
-api.route("PUT /notes/{id}", "packages/backend/src/update.main");
-api.route("DELETE /notes/{id}", "packages/backend/src/delete.main");
+// Cognito (IAM) auth is reserved for the admin side. Player routes are
+// public at the gateway and verify the session token in lib/handler.ts.
+export const iam = { auth: { iam: true } } as const;
+
+api.route("POST /join", "packages/backend/src/join.main");
+api.route("GET /links/{token}", "packages/backend/src/joinLink.main");
+api.route("GET /rooms/{code}", "packages/backend/src/room.main");
+api.route("GET /rooms/{code}/games/current", "packages/backend/src/current.main");
+api.route("GET /rooms/{code}/leaderboard", "packages/backend/src/leaderboard.main");
+api.route("GET /rooms/{code}/cloud", "packages/backend/src/cloud.main");
+api.route("GET /games/{id}/card", "packages/backend/src/card.main");
+api.route("PUT /games/{id}/marks/{position}", "packages/backend/src/mark.main");
+api.route("DELETE /games/{id}/marks/{position}", "packages/backend/src/unmark.main");
+api.route("POST /games/{id}/bingo", "packages/backend/src/bingo.main");
+api.route("POST /games/{id}/evidence/upload", "packages/backend/src/evidenceUpload.main");
+api.route("PUT /games/{id}/evidence", "packages/backend/src/evidence.main");
+api.route("GET /wins", "packages/backend/src/wins.main");
+
+api.route("GET /suggestions", "packages/backend/src/suggestions.main");
+api.route("POST /suggestions", "packages/backend/src/suggest.main");
+api.route("PUT /suggestions/{id}/vote", "packages/backend/src/vote.main");
+
+// API Gateway can't stream responses, so the per-game Server-Sent Events
+// stream is served from a function URL at `/games/{id}/stream`
+export const stream = new sst.aws.Function("GameStream", {
+  handler: "packages/backend/src/stream.main",
+  url: true,
+  streaming: true,
+  timeout: "6 minutes",
+  link: [rooms, games, words, players, cards, marks, winners, events, snapshots],
+  environment,
+});
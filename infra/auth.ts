@@ -25,10 +25,12 @@ export const identityPool = new sst.aws.CognitoIdentityPool("IdentityPool", {
         ],
       },
       {
+        // Only the admin side is signed with Cognito credentials, and the
+        // admin routes also check for the admins group in lib/handler.ts
         actions: [
-          "execute-api:*",
+          "execute-api:Invoke",
         ],
-        resources: [
+        resources: ["/*/*/admin/*"].map((path) =>
           $concat(
             "arn:aws:execute-api:",
             region,
@@ -36,9 +38,9 @@ export const identityPool = new sst.aws.CognitoIdentityPool("IdentityPool", {
             aws.getCallerIdentityOutput({}).accountId,
             ":",
             api.nodes.api.id,
-            "/*/*/*"
-          ),
-        ],
+            path
+          )
+        ),
       },
     ],
   },
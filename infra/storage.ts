@@ -1,11 +1,161 @@
 // Create an S3 bucket
 export const bucket = new sst.aws.Bucket("Uploads");
 
-// Create the DynamoDB table
-export const table = new sst.aws.Dynamo("Notes", {
+// Secret used to sign player session tokens and room join links
+export const sessionSecret = new sst.Secret("SessionSecret");
+
+// Bingo rooms, with indexes to find one from its link code or its join PIN
+export const rooms = new sst.aws.Dynamo("Rooms", {
+  fields: {
+    roomId: "string",
+    roomCode: "string",
+    pin: "string",
+  },
+  primaryIndex: { hashKey: "roomId" },
+  globalIndexes: {
+    codeIndex: { hashKey: "roomCode" },
+    pinIndex: { hashKey: "pin" },
+  },
+});
+
+// Games and their lifecycle state, with indexes to list a room's games and
+// to find its active and queued ones, keyed by "<roomId>#<state>"
+export const games = new sst.aws.Dynamo("Games", {
+  fields: {
+    gameId: "string",
+    roomId: "string",
+    roomState: "string",
+    gameNumber: "number",
+  },
+  primaryIndex: { hashKey: "gameId" },
+  globalIndexes: {
+    roomIndex: { hashKey: "roomId", rangeKey: "gameNumber" },
+    roomStateIndex: { hashKey: "roomState", rangeKey: "gameNumber" },
+  },
+});
+
+// The buzzword pools cards are drawn from, one per room
+export const words = new sst.aws.Dynamo("Words", {
+  fields: {
+    wordId: "string",
+    roomId: "string",
+    createdAt: "number",
+  },
+  primaryIndex: { hashKey: "wordId" },
+  globalIndexes: {
+    roomIndex: { hashKey: "roomId", rangeKey: "createdAt" },
+  },
+});
+
+// One vote per player per suggested word
+export const votes = new sst.aws.Dynamo("Votes", {
+  fields: {
+    wordId: "string",
+    sessionId: "string",
+  },
+  primaryIndex: { hashKey: "wordId", rangeKey: "sessionId" },
+});
+
+// Players who have joined with a nickname, with indexes to list a room's
+// players and to find nicknames in use there, by their lowercased
+// "nicknameKey"
+export const players = new sst.aws.Dynamo("Players", {
+  fields: {
+    sessionId: "string",
+    roomId: "string",
+    joinedAt: "number",
+    nicknameKey: "string",
+  },
+  primaryIndex: { hashKey: "sessionId" },
+  globalIndexes: {
+    roomIndex: { hashKey: "roomId", rangeKey: "joinedAt" },
+    nicknameIndex: { hashKey: "roomId", rangeKey: "nicknameKey" },
+  },
+});
+
+// Who holds each nickname in a room, by its lowercased "nicknameKey". Joins
+// and renames claim one with a conditional put, so only one player gets it.
+export const nicknames = new sst.aws.Dynamo("Nicknames", {
+  fields: {
+    roomId: "string",
+    nicknameKey: "string",
+  },
+  primaryIndex: { hashKey: "roomId", rangeKey: "nicknameKey" },
+});
+
+// Bingo cards, one per player per game
+export const cards = new sst.aws.Dynamo("Cards", {
+  fields: {
+    gameId: "string",
+    sessionId: "string",
+  },
+  primaryIndex: { hashKey: "gameId", rangeKey: "sessionId" },
+});
+
+// Squares each player has marked, keyed by "<sessionId>#<position>"
+export const marks = new sst.aws.Dynamo("Marks", {
+  fields: {
+    gameId: "string",
+    markId: "string",
+  },
+  primaryIndex: { hashKey: "gameId", rangeKey: "markId" },
+});
+
+// The single recorded winner of each game, with an index to find a player's
+// wins
+export const winners = new sst.aws.Dynamo("Winners", {
+  fields: {
+    gameId: "string",
+    sessionId: "string",
+    wonAt: "number",
+  },
+  primaryIndex: { hashKey: "gameId" },
+  globalIndexes: {
+    sessionIndex: { hashKey: "sessionId", rangeKey: "wonAt" },
+  },
+});
+
+// How often each word was marked, per game, per room and per minute for the
+// recent window. Per-minute counters are removed by TTL once they're stale.
+export const wordCounts = new sst.aws.Dynamo("WordCounts", {
+  fields: {
+    scope: "string",
+    word: "string",
+  },
+  primaryIndex: { hashKey: "scope", rangeKey: "word" },
+  ttl: "expiresAt",
+});
+
+// Every mark, claim, word change and admin action, in order, per room. Items
+// are only ever added. Sequence 0 holds the room's last issued number.
+export const events = new sst.aws.Dynamo("Events", {
+  fields: {
+    roomId: "string",
+    seq: "number",
+    gameId: "string",
+  },
+  primaryIndex: { hashKey: "roomId", rangeKey: "seq" },
+  globalIndexes: {
+    gameIndex: { hashKey: "gameId", rangeKey: "seq" },
+  },
+});
+
+// The latest snapshot of each game being streamed, so the streams following
+// it share one instead of each building their own. Removed by TTL a day
+// after it was built.
+export const snapshots = new sst.aws.Dynamo("Snapshots", {
+  fields: {
+    gameId: "string",
+  },
+  primaryIndex: { hashKey: "gameId" },
+  ttl: "expiresAt",
+});
+
+// Request counters for rate limiting, removed by TTL once their window passes
+export const rateLimits = new sst.aws.Dynamo("RateLimits", {
   fields: {
-    userId: "string",
-    noteId: "string",
+    limitKey: "string",
   },
-  primaryIndex: { hashKey: "userId", rangeKey: "noteId" },
+  primaryIndex: { hashKey: "limitKey" },
+  ttl: "expiresAt",
 });
@@ -1,4 +1,4 @@
-import { api } from "./api";
+import { api, stream } from "./api";
 import { bucket } from "./storage";
 import { userPool, identityPool, userPoolClient } from "./auth";
 
@@ -14,6 +14,7 @@ export const frontend = new sst.aws.StaticSite("Frontend", {
   environment: {
     VITE_REGION: region,
     VITE_API_URL: api.url,
+    VITE_STREAM_URL: stream.url,
     VITE_BUCKET: bucket.name,
     VITE_USER_POOL_ID: userPool.id,
     VITE_IDENTITY_POOL_ID: identityPool.id,
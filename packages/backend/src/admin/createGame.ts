@@ -0,0 +1,23 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { createGame } from "../lib/game";
+import { adminActor } from "../lib/events";
+import { getRoom } from "../lib/rooms";
+import { roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath };
+
+async function queueGame(
+  _event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path }: Input<typeof schema>
+) {
+  if (!(await getRoom(path.id))) {
+    throw new NotFoundError("Room not found");
+  }
+
+  return JSON.stringify(await createGame(path.id, adminActor(admin)));
+}
+
+export const main = handler(queueGame, { auth: "admin", schema });
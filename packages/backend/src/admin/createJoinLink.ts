@@ -0,0 +1,32 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { createJoinLink, getRoom } from "../lib/rooms";
+import { adminActor, recordEvent } from "../lib/events";
+import { createJoinLinkRequest, roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath, body: createJoinLinkRequest };
+
+async function addJoinLink(
+  _event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  const room = await getRoom(path.id);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  const link = createJoinLink(room, body.expiresInMinutes);
+
+  // The token itself stays out of the log
+  await recordEvent(
+    { roomId: room.roomId, actor: adminActor(admin) },
+    { type: "join-link-created", data: { expiresAt: link.expiresAt } }
+  );
+
+  return JSON.stringify(link);
+}
+
+export const main = handler(addJoinLink, { auth: "admin", schema });
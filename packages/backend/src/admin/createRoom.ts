@@ -0,0 +1,25 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { createRoom } from "../lib/rooms";
+import { adminActor, recordEvent } from "../lib/events";
+import { withETag } from "../lib/versions";
+import { createRoomRequest } from "../lib/schemas";
+
+const schema = { body: createRoomRequest };
+
+async function addRoom(
+  _event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { body }: Input<typeof schema>
+) {
+  const room = await createRoom(body.name, body.pinExpiresInMinutes);
+
+  await recordEvent(
+    { roomId: room.roomId, actor: adminActor(admin) },
+    { type: "room-created", data: { name: room.name } }
+  );
+
+  return withETag(room);
+}
+
+export const main = handler(addRoom, { auth: "admin", schema });
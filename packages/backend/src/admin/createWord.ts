@@ -0,0 +1,31 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { createWord } from "../lib/words";
+import { adminActor, recordEvent } from "../lib/events";
+import { getRoom } from "../lib/rooms";
+import { createWordRequest, roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath, body: createWordRequest };
+
+async function addWord(
+  _event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  if (!(await getRoom(path.id))) {
+    throw new NotFoundError("Room not found");
+  }
+
+  // Words added by an admin don't need approving
+  const word = await createWord(path.id, body.text, "approved");
+
+  await recordEvent(
+    { roomId: word.roomId, actor: adminActor(admin) },
+    { type: "words-added", data: { words: [{ wordId: word.wordId, text: word.text, status: word.status }] } }
+  );
+
+  return JSON.stringify(word);
+}
+
+export const main = handler(addWord, { auth: "admin", schema });
@@ -0,0 +1,81 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { callBingo, getGame } from "../lib/game";
+import { adminActor, recordEvent } from "../lib/events";
+import { getPlayer } from "../lib/players";
+import { deleteWinner, recordWinner } from "../lib/winners";
+import { Winner } from "../lib/types";
+import { checkVersion, getIfMatch } from "../lib/versions";
+import { declareWinnerRequest, gamePath } from "../lib/schemas";
+import { ConflictError, NotFoundError } from "../lib/errors";
+
+const schema = { path: gamePath, body: declareWinnerRequest };
+
+async function declareWinner(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path: { id: gameId }, body }: Input<typeof schema>
+) {
+  const [game, player] = await Promise.all([
+    getGame(gameId),
+    getPlayer(body.sessionId),
+  ]);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  checkVersion(game, getIfMatch(event), `Game ${game.gameNumber} was changed by someone else first`);
+
+  // Only a player in the game's room can win it
+  if (!player || player.roomId !== game.roomId) {
+    throw new NotFoundError("Player not found");
+  }
+
+  // Checked before the winner is stored, a game that isn't in play can't
+  // show one
+  if (game.state !== "active") {
+    throw new ConflictError(`Game ${game.gameNumber} is not in play`);
+  }
+
+  const { username } = admin;
+  const now = Date.now();
+  // An admin's own call needs no review
+  const winner: Winner = {
+    gameId,
+    sessionId: player.sessionId,
+    roomId: game.roomId,
+    nickname: player.nickname,
+    line: null,
+    wonAt: now,
+    declaredBy: username,
+    verdict: "confirmed",
+    reviewedBy: username,
+    reviewedAt: now,
+  };
+
+  const recorded = await recordWinner(winner);
+
+  if (recorded) {
+    throw new ConflictError(`This game was already won by ${recorded.nickname}`);
+  }
+
+  const actor = adminActor(admin);
+
+  try {
+    await callBingo(game, actor);
+  } catch (error) {
+    // Moved on since it was read, the game is left open for another winner
+    await deleteWinner(gameId);
+    throw error;
+  }
+
+  await recordEvent(
+    { roomId: game.roomId, gameId, actor },
+    { type: "winner-declared", data: { sessionId: player.sessionId, nickname: player.nickname } }
+  );
+
+  return JSON.stringify(winner);
+}
+
+export const main = handler(declareWinner, { auth: "admin", schema });
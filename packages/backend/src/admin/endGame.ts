@@ -0,0 +1,27 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { endGame, getGame } from "../lib/game";
+import { adminActor } from "../lib/events";
+import { checkVersion, getIfMatch } from "../lib/versions";
+import { gamePath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: gamePath };
+
+async function endCurrentGame(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path: { id: gameId } }: Input<typeof schema>
+) {
+  const game = await getGame(gameId);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  checkVersion(game, getIfMatch(event), `Game ${game.gameNumber} was changed by someone else first`);
+
+  return JSON.stringify(await endGame(game, adminActor(admin)));
+}
+
+export const main = handler(endCurrentGame, { auth: "admin", schema });
@@ -0,0 +1,22 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { expirePin } from "../lib/rooms";
+import { adminActor, recordEvent } from "../lib/events";
+import { getIfMatch, withETag } from "../lib/versions";
+import { roomPath } from "../lib/schemas";
+
+const schema = { path: roomPath };
+
+async function expireRoomPin(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path }: Input<typeof schema>
+) {
+  const room = await expirePin(path.id, getIfMatch(event));
+
+  await recordEvent({ roomId: room.roomId, actor: adminActor(admin) }, { type: "pin-expired", data: {} });
+
+  return withETag(room);
+}
+
+export const main = handler(expireRoomPin, { auth: "admin", schema });
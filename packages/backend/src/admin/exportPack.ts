@@ -0,0 +1,32 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { exportPack, packContentType } from "../lib/packs";
+import { getRoom, roomFileName } from "../lib/rooms";
+import { exportPackQuery, roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath, query: exportPackQuery };
+
+// Downloaded as a file, named after the room
+async function downloadPack(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, query: { format } }: Input<typeof schema>
+) {
+  const room = await getRoom(path.id);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  return {
+    statusCode: 200,
+    body: await exportPack(room, format),
+    headers: {
+      "Content-Type": packContentType(format),
+      "Content-Disposition": `attachment; filename="${roomFileName(room, `words.${format}`)}"`,
+    },
+  };
+}
+
+export const main = handler(downloadPack, { auth: "admin", schema });
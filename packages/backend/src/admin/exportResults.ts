@@ -0,0 +1,36 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { exportResults, resultsContentType } from "../lib/results";
+import { getRoom, roomFileName } from "../lib/rooms";
+import { exportResultsQuery, roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath, query: exportResultsQuery };
+
+const EXTENSIONS = { csv: "csv", json: "json", markdown: "md" };
+
+// Downloaded as a file, named after the room and what's in it
+async function downloadResults(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, query: { format, table } }: Input<typeof schema>
+) {
+  const room = await getRoom(path.id);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  const contents = format === "csv" ? table : format === "markdown" ? "recap" : "results";
+
+  return {
+    statusCode: 200,
+    body: await exportResults(room, format, table),
+    headers: {
+      "Content-Type": resultsContentType(format),
+      "Content-Disposition": `attachment; filename="${roomFileName(room, `${contents}.${EXTENSIONS[format]}`)}"`,
+    },
+  };
+}
+
+export const main = handler(downloadResults, { auth: "admin", schema });
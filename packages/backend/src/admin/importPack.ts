@@ -0,0 +1,35 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { importPack } from "../lib/packs";
+import { adminActor, recordEvent } from "../lib/events";
+import { getRoom } from "../lib/rooms";
+import { packRequest, roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath, body: packRequest };
+
+async function addPack(
+  _event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  if (!(await getRoom(path.id))) {
+    throw new NotFoundError("Room not found");
+  }
+
+  const result = await importPack(path.id, body.packKey);
+
+  if (result.added.length > 0) {
+    await recordEvent(
+      { roomId: path.id, actor: adminActor(admin) },
+      {
+        type: "words-added",
+        data: { words: result.added.map(({ wordId, text, status }) => ({ wordId, text, status })) },
+      }
+    );
+  }
+
+  return JSON.stringify(result);
+}
+
+export const main = handler(addPack, { auth: "admin", schema });
@@ -0,0 +1,25 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { removePlayer } from "../lib/players";
+import { adminActor, recordEvent } from "../lib/events";
+import { getIfMatch } from "../lib/versions";
+import { playerPath } from "../lib/schemas";
+
+const schema = { path: playerPath };
+
+async function kickPlayer(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path: { sessionId } }: Input<typeof schema>
+) {
+  const player = await removePlayer(sessionId, getIfMatch(event));
+
+  await recordEvent(
+    { roomId: player.roomId, actor: adminActor(admin) },
+    { type: "player-banned", data: { sessionId } }
+  );
+
+  return JSON.stringify({ status: true });
+}
+
+export const main = handler(kickPlayer, { auth: "admin", schema });
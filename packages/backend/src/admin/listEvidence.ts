@@ -0,0 +1,36 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { getGame } from "../lib/game";
+import { getPhotoUrl } from "../lib/evidence";
+import { getWinners } from "../lib/winners";
+import { paginate } from "../lib/pagination";
+import { listEvidenceQuery } from "../lib/schemas";
+import { EvidenceReview } from "../lib/types";
+
+const schema = { query: listEvidenceQuery };
+
+async function listEvidence(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { query: { roomId, status, sort, ...page } }: Input<typeof schema>
+) {
+  const { items, cursor } = paginate(await getWinners(status, roomId, sort === "newest"), page);
+
+  // Only the page gets its games and photo links
+  const reviews = await Promise.all(
+    items.map(async (winner): Promise<EvidenceReview | undefined> => {
+      const game = await getGame(winner.gameId);
+      const photoKey = winner.evidence?.photoKey;
+
+      return game && {
+        game,
+        winner,
+        photoUrl: photoKey ? await getPhotoUrl(photoKey) : undefined,
+      };
+    })
+  );
+
+  return JSON.stringify({ items: reviews.filter(Boolean), cursor });
+}
+
+export const main = handler(listEvidence, { auth: "admin", schema });
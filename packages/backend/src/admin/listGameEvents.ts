@@ -0,0 +1,17 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { listGameEvents } from "../lib/events";
+import { gamePath, listGameEventsQuery } from "../lib/schemas";
+
+const schema = { path: gamePath, query: listGameEventsQuery };
+
+// A game's audit trail, for settling disputed wins
+async function listEvents(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, query }: Input<typeof schema>
+) {
+  return JSON.stringify(await listGameEvents(path.id, query));
+}
+
+export const main = handler(listEvents, { auth: "admin", schema });
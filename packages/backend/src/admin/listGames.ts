@@ -0,0 +1,16 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { listGamesPage } from "../lib/game";
+import { listGamesQuery, roomPath } from "../lib/schemas";
+
+const schema = { path: roomPath, query: listGamesQuery };
+
+async function listGames(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, query: { state, sort, ...page } }: Input<typeof schema>
+) {
+  return JSON.stringify(await listGamesPage(path.id, state, page, sort === "newest"));
+}
+
+export const main = handler(listGames, { auth: "admin", schema });
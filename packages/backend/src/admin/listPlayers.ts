@@ -0,0 +1,24 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { getStandings } from "../lib/leaderboard";
+import { paginate } from "../lib/pagination";
+import { gamePath, listPlayersQuery } from "../lib/schemas";
+
+const schema = { path: gamePath, query: listPlayersQuery };
+
+async function listPlayers(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path: { id: gameId }, query: { sort, ...page } }: Input<typeof schema>
+) {
+  // Standings come ranked
+  const standings = await getStandings(gameId);
+
+  if (sort === "nickname") {
+    standings.sort((a, b) => a.nickname.localeCompare(b.nickname));
+  }
+
+  return JSON.stringify(paginate(standings, page));
+}
+
+export const main = handler(listPlayers, { auth: "admin", schema });
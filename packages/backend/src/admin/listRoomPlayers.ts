@@ -0,0 +1,19 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { listRoomPlayers } from "../lib/players";
+import { listRoomPlayersQuery, roomPath } from "../lib/schemas";
+
+const schema = { path: roomPath, query: listRoomPlayersQuery };
+
+// Everyone who has joined the room, for moderating nicknames
+async function listPlayers(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, query: { status, sort, ...page } }: Input<typeof schema>
+) {
+  const banned = status === undefined ? undefined : status === "banned";
+
+  return JSON.stringify(await listRoomPlayers(path.id, banned, page, sort === "newest"));
+}
+
+export const main = handler(listPlayers, { auth: "admin", schema });
@@ -0,0 +1,18 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { listRooms } from "../lib/rooms";
+import { paginate } from "../lib/pagination";
+import { listRoomsQuery } from "../lib/schemas";
+
+const schema = { query: listRoomsQuery };
+
+// Rooms with their PINs, by name
+async function listAllRooms(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { query }: Input<typeof schema>
+) {
+  return JSON.stringify(paginate(await listRooms(), query));
+}
+
+export const main = handler(listAllRooms, { auth: "admin", schema });
@@ -0,0 +1,16 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { listWordsPage } from "../lib/words";
+import { listWordsQuery, roomPath } from "../lib/schemas";
+
+const schema = { path: roomPath, query: listWordsQuery };
+
+async function listAllWords(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, query: { status, sort, ...page } }: Input<typeof schema>
+) {
+  return JSON.stringify(await listWordsPage(path.id, status, page, sort === "newest"));
+}
+
+export const main = handler(listAllWords, { auth: "admin", schema });
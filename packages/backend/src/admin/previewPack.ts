@@ -0,0 +1,22 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { previewPack } from "../lib/packs";
+import { getRoom } from "../lib/rooms";
+import { packRequest, roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath, body: packRequest };
+
+async function preview(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  if (!(await getRoom(path.id))) {
+    throw new NotFoundError("Room not found");
+  }
+
+  return JSON.stringify(await previewPack(path.id, body.packKey));
+}
+
+export const main = handler(preview, { auth: "admin", schema });
@@ -0,0 +1,25 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { getGame } from "../lib/game";
+import { checkGameReplay } from "../lib/replay";
+import { gamePath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: gamePath };
+
+// The game rebuilt from its room's event log, and where it differs
+async function replayGame(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path }: Input<typeof schema>
+) {
+  const game = await getGame(path.id);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  return JSON.stringify(await checkGameReplay(game));
+}
+
+export const main = handler(replayGame, { auth: "admin", schema });
@@ -0,0 +1,49 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { canTransition, getGame, revokeBingo } from "../lib/game";
+import { deleteWinner, getWinner, setVerdict } from "../lib/winners";
+import { adminActor, recordEvent } from "../lib/events";
+import { gamePath, reviewWinnerRequest } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: gamePath, body: reviewWinnerRequest };
+
+async function reviewWinner(
+  _event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path: { id: gameId }, body: data }: Input<typeof schema>
+) {
+  const [game, winner] = await Promise.all([getGame(gameId), getWinner(gameId)]);
+
+  if (!game || !winner) {
+    throw new NotFoundError("Winner not found");
+  }
+
+  const { username } = admin;
+  const actor = adminActor(admin);
+  const context = { roomId: game.roomId, gameId, actor };
+
+  // While the room is still celebrating, overturning puts the game back in
+  // play. Once it's over, the win stays on record as overturned.
+  if (data.verdict === "overturned" && canTransition(game.state, "active")) {
+    await revokeBingo(game, actor);
+    await deleteWinner(gameId);
+    await recordEvent(context, { type: "winner-reviewed", data: { verdict: data.verdict } });
+    await recordEvent(context, { type: "winner-revoked", data: {} });
+
+    return JSON.stringify({
+      ...winner,
+      verdict: data.verdict,
+      reviewedBy: username,
+      reviewedAt: Date.now(),
+    });
+  }
+
+  const reviewed = await setVerdict(gameId, data.verdict, username);
+
+  await recordEvent(context, { type: "winner-reviewed", data: { verdict: data.verdict } });
+
+  return JSON.stringify(reviewed);
+}
+
+export const main = handler(reviewWinner, { auth: "admin", schema });
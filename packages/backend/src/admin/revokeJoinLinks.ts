@@ -0,0 +1,22 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { revokeJoinLinks } from "../lib/rooms";
+import { adminActor, recordEvent } from "../lib/events";
+import { getIfMatch, withETag } from "../lib/versions";
+import { roomPath } from "../lib/schemas";
+
+const schema = { path: roomPath };
+
+async function revokeRoomJoinLinks(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path }: Input<typeof schema>
+) {
+  const room = await revokeJoinLinks(path.id, getIfMatch(event));
+
+  await recordEvent({ roomId: room.roomId, actor: adminActor(admin) }, { type: "join-links-revoked", data: {} });
+
+  return withETag(room);
+}
+
+export const main = handler(revokeRoomJoinLinks, { auth: "admin", schema });
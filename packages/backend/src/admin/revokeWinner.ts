@@ -0,0 +1,34 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { getGame, revokeBingo } from "../lib/game";
+import { deleteWinner } from "../lib/winners";
+import { adminActor, recordEvent } from "../lib/events";
+import { checkVersion, getIfMatch } from "../lib/versions";
+import { gamePath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: gamePath };
+
+async function revokeWinner(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path: { id: gameId } }: Input<typeof schema>
+) {
+  const game = await getGame(gameId);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  checkVersion(game, getIfMatch(event), `Game ${game.gameNumber} was changed by someone else first`);
+
+  // Check the game can go back into play before dropping its winner
+  const actor = adminActor(admin);
+  const reopened = await revokeBingo(game, actor);
+  await deleteWinner(gameId);
+  await recordEvent({ roomId: game.roomId, gameId, actor }, { type: "winner-revoked", data: {} });
+
+  return JSON.stringify(reopened);
+}
+
+export const main = handler(revokeWinner, { auth: "admin", schema });
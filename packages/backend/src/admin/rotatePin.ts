@@ -0,0 +1,26 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { rotatePin } from "../lib/rooms";
+import { adminActor, recordEvent } from "../lib/events";
+import { getIfMatch, withETag } from "../lib/versions";
+import { roomPath, rotatePinRequest } from "../lib/schemas";
+
+const schema = { path: roomPath, body: rotatePinRequest };
+
+async function rotateRoomPin(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  const room = await rotatePin(path.id, body.expiresInMinutes, getIfMatch(event));
+
+  // The PIN itself stays out of the log
+  await recordEvent(
+    { roomId: room.roomId, actor: adminActor(admin) },
+    { type: "pin-rotated", data: { expiresAt: room.pinExpiresAt } }
+  );
+
+  return withETag(room);
+}
+
+export const main = handler(rotateRoomPin, { auth: "admin", schema });
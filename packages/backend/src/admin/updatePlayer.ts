@@ -0,0 +1,26 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { renamePlayer } from "../lib/players";
+import { adminActor, recordEvent } from "../lib/events";
+import { getIfMatch, withETag } from "../lib/versions";
+import { playerPath, updatePlayerRequest } from "../lib/schemas";
+
+const schema = { path: playerPath, body: updatePlayerRequest };
+
+async function updatePlayer(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  // A placeholder is asked for without a nickname
+  const player = await renamePlayer(path.sessionId, body.nickname, getIfMatch(event));
+
+  await recordEvent(
+    { roomId: player.roomId, actor: adminActor(admin) },
+    { type: "player-renamed", data: { sessionId: player.sessionId, nickname: player.nickname } }
+  );
+
+  return withETag(player);
+}
+
+export const main = handler(updatePlayer, { auth: "admin", schema });
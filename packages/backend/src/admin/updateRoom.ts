@@ -0,0 +1,22 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { renameRoom } from "../lib/rooms";
+import { adminActor, recordEvent } from "../lib/events";
+import { getIfMatch, withETag } from "../lib/versions";
+import { roomPath, updateRoomRequest } from "../lib/schemas";
+
+const schema = { path: roomPath, body: updateRoomRequest };
+
+async function updateRoom(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  const room = await renameRoom(path.id, body.name, getIfMatch(event));
+
+  await recordEvent({ roomId: room.roomId, actor: adminActor(admin) }, { type: "room-renamed", data: { name: room.name } });
+
+  return withETag(room);
+}
+
+export const main = handler(updateRoom, { auth: "admin", schema });
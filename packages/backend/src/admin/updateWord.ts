@@ -0,0 +1,33 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { getWord, updateWord } from "../lib/words";
+import { adminActor, recordEvent } from "../lib/events";
+import { getIfMatch, withETag } from "../lib/versions";
+import { updateWordRequest, wordPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: wordPath, body: updateWordRequest };
+
+async function editWord(
+  event: APIGatewayProxyEvent,
+  admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  const word = await getWord(path.id);
+
+  if (!word) {
+    throw new NotFoundError("Word not found");
+  }
+
+  const updated = await updateWord(word, body, getIfMatch(event));
+
+  // Approving and rejecting words are changes to their status
+  await recordEvent(
+    { roomId: word.roomId, actor: adminActor(admin) },
+    { type: "word-changed", data: { wordId: word.wordId, ...body } }
+  );
+
+  return withETag(updated);
+}
+
+export const main = handler(editWord, { auth: "admin", schema });
@@ -0,0 +1,22 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "../lib/handler";
+import { createPackUploadUrl } from "../lib/packs";
+import { getRoom } from "../lib/rooms";
+import { packUploadRequest, roomPath } from "../lib/schemas";
+import { NotFoundError } from "../lib/errors";
+
+const schema = { path: roomPath, body: packUploadRequest };
+
+async function requestUpload(
+  _event: APIGatewayProxyEvent,
+  _admin: Identities["admin"],
+  { path, body }: Input<typeof schema>
+) {
+  if (!(await getRoom(path.id))) {
+    throw new NotFoundError("Room not found");
+  }
+
+  return JSON.stringify(await createPackUploadUrl(path.id, body.format));
+}
+
+export const main = handler(requestUpload, { auth: "admin", schema });
@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from "vitest";
+import { main as claimBingo } from "./bingo";
+import { main as listWins } from "./wins";
+import { main as getCard } from "./card";
+import { endGame, getGame } from "./lib/game";
+import { SYSTEM_ACTOR } from "./lib/events";
+import { getWinner } from "./lib/winners";
+import { repositories } from "./lib/repositories";
+import { renamePlayer } from "./lib/players";
+import { getGameSnapshot } from "./lib/leaderboard";
+import { call, createPlayingRoom, dealCard, joinRoom, markSquares } from "./test/requests";
+import { BingoClaimResponse, JoinResponse, Winner } from "./lib/types";
+
+// The centre row, which the free space starts off
+const CENTRE_ROW = [10, 11, 13, 14];
+
+function claim(player: JoinResponse, gameId: string) {
+  return call<BingoClaimResponse>(claimBingo, { token: player.token, path: { id: gameId } });
+}
+
+describe("claiming bingo", () => {
+  it("rejects a claim without a completed line", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW.slice(1));
+
+    const { body } = await claim(ada, game.gameId);
+
+    expect(body).toMatchObject({ status: "rejected", reason: "no-line" });
+    expect((await getGame(game.gameId))?.state).toBe("active");
+  });
+
+  it("accepts a completed line and starts the celebration", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+
+    const { body } = await claim(ada, game.gameId);
+
+    expect(body).toMatchObject({
+      status: "accepted",
+      winner: { nickname: "Ada", line: { kind: "row", index: 2 } },
+    });
+    expect(await getGame(game.gameId)).toMatchObject({ state: "celebrating" });
+  });
+
+  it("only lets the first of two valid claims win", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+
+    for (const player of [ada, grace]) {
+      await dealCard(player, game.gameId);
+      await markSquares(player, game.gameId, CENTRE_ROW);
+    }
+
+    const responses = await Promise.all([claim(ada, game.gameId), claim(grace, game.gameId)]);
+    const accepted = responses.filter(({ body }) => body.status === "accepted");
+    const rejected = responses.filter(({ body }) => body.status === "rejected");
+    const winner = await getWinner(game.gameId);
+
+    expect(accepted).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].body).toMatchObject({ reason: "already-won" });
+    expect(winner?.sessionId).toBe(
+      accepted[0].body.status === "accepted" && accepted[0].body.winner.sessionId
+    );
+    expect(await getGame(game.gameId)).toMatchObject({ state: "celebrating" });
+  });
+
+  it("takes the win back off when the game moves on while the claim is judged", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+
+    // The claim reads the game before an admin ends it
+    const read = (await getGame(game.gameId))!;
+    vi.spyOn(repositories().games, "get").mockResolvedValueOnce(read);
+    await endGame(read, SYSTEM_ACTOR);
+
+    const { statusCode, body } = await claim(ada, game.gameId);
+
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({ status: "rejected", reason: "game-closed" });
+    expect(await getWinner(game.gameId)).toBeUndefined();
+    expect(await getGame(game.gameId)).toMatchObject({ state: "complete" });
+  });
+
+  it("rejects claims once the game has a winner", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+
+    for (const player of [ada, grace]) {
+      await dealCard(player, game.gameId);
+      await markSquares(player, game.gameId, CENTRE_ROW);
+    }
+
+    await claim(ada, game.gameId);
+    const { body } = await claim(grace, game.gameId);
+
+    expect(body).toMatchObject({ status: "rejected", reason: "already-won", winner: { nickname: "Ada" } });
+  });
+
+  it("records a renamed player's win under their new nickname", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await renamePlayer(ada.sessionId, "Countess");
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+
+    const { body } = await claim(ada, game.gameId);
+
+    expect(body).toMatchObject({ status: "accepted", winner: { nickname: "Countess" } });
+  });
+
+  it("shows a winner renamed after the win under their new nickname", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+    await claim(ada, game.gameId);
+    await renamePlayer(ada.sessionId, undefined);
+
+    const { winner } = await getGameSnapshot((await getGame(game.gameId))!);
+
+    expect(winner?.nickname).toMatch(/^Player \d{4}$/);
+  });
+
+  it("lists a player's wins after the game has ended, for adding evidence", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+    await claim(ada, game.gameId);
+    await endGame((await getGame(game.gameId))!, SYSTEM_ACTOR);
+
+    const { body: adaWins } = await call<Winner[]>(listWins, { token: ada.token });
+    const { body: graceWins } = await call<Winner[]>(listWins, { token: grace.token });
+
+    expect(adaWins).toMatchObject([{ gameId: game.gameId, nickname: "Ada" }]);
+    expect(graceWins).toEqual([]);
+  });
+});
+
+describe("dealing cards", () => {
+  it("only deals into a game still in play, but shows a dealt card after", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+
+    const card = await dealCard(ada, game.gameId);
+    await endGame((await getGame(game.gameId))!, SYSTEM_ACTOR);
+
+    const late = await call(getCard, { token: grace.token, path: { id: game.gameId } });
+
+    expect(late).toMatchObject({ statusCode: 409, body: { code: "game-closed" } });
+    expect(await dealCard(ada, game.gameId)).toMatchObject({ words: card.words });
+  });
+});
@@ -0,0 +1,132 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { findWinningLine, getCard } from "./lib/card";
+import { getMarkedPositions } from "./lib/marks";
+import { callBingo, getRoomGame } from "./lib/game";
+import { deleteWinner, getWinner, recordWinner } from "./lib/winners";
+import { playerActor, recordEvent } from "./lib/events";
+import { BingoClaimResponse, Game, PlayerSession, Winner } from "./lib/types";
+import { gamePath } from "./lib/schemas";
+import { NotFoundError, VersionConflictError } from "./lib/errors";
+
+function alreadyWon(winner: Winner): BingoClaimResponse {
+  return {
+    status: "rejected",
+    reason: "already-won",
+    message: `This game was already won by ${winner.nickname}`,
+    winner,
+  };
+}
+
+function gameClosed(gameNumber: number): BingoClaimResponse {
+  return {
+    status: "rejected",
+    reason: "game-closed",
+    message: `Game ${gameNumber} is not accepting claims`,
+  };
+}
+
+const schema = { path: gamePath };
+
+// Checks a claim against the recorded marks, recording the winner if it
+// holds up
+async function judgeClaim(
+  { gameId, gameNumber, state }: Game,
+  { sessionId, roomId, nickname }: PlayerSession
+): Promise<BingoClaimResponse> {
+  const existing = await getWinner(gameId);
+
+  if (existing) {
+    return alreadyWon(existing);
+  }
+
+  if (state !== "active") {
+    return gameClosed(gameNumber);
+  }
+
+  const card = await getCard(gameId, sessionId);
+
+  if (!card) {
+    return {
+      status: "rejected",
+      reason: "no-card",
+      message: "You don't have a card for this game",
+    };
+  }
+
+  // Only the marks we recorded count, never what the client says it marked
+  const line = findWinningLine(card.words, await getMarkedPositions(gameId, sessionId));
+
+  if (!line) {
+    return {
+      status: "rejected",
+      reason: "no-line",
+      message: "No completed row, column or diagonal on your card",
+    };
+  }
+
+  const winner: Winner = {
+    gameId,
+    sessionId,
+    roomId,
+    nickname,
+    line,
+    wonAt: Date.now(),
+  };
+
+  // First valid claim wins, concurrent claims find it already recorded
+  const recorded = await recordWinner(winner);
+
+  return recorded ? alreadyWon(recorded) : { status: "accepted", winner };
+}
+
+async function claimBingo(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { path: { id: gameId } }: Input<typeof schema>
+) {
+  const game = await getRoomGame(gameId, session.roomId);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  let response = await judgeClaim(game, session);
+  const actor = playerActor(session);
+
+  if (response.status === "accepted") {
+    try {
+      await callBingo(game, actor);
+    } catch (error) {
+      // The game moved on since it was read, so the win can't stand. Taking
+      // it back off leaves the game open to the next valid claim.
+      await deleteWinner(gameId);
+
+      if (!(error instanceof VersionConflictError)) {
+        throw error;
+      }
+
+      response = gameClosed(game.gameNumber);
+    }
+  }
+
+  // Rejected claims are logged too, for settling disputes
+  await recordEvent(
+    { roomId: game.roomId, gameId, actor },
+    {
+      type: "claim",
+      data: response.status === "accepted"
+        ? { status: "accepted", line: response.winner.line! }
+        : { status: "rejected", reason: response.reason },
+    }
+  );
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(claimBingo, {
+  auth: "player",
+  rateLimits: [RATE_LIMITS.claims],
+  schema,
+});
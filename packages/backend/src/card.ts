@@ -0,0 +1,65 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { generateCardWords, getCard, saveCard } from "./lib/card";
+import { getApprovedWords } from "./lib/words";
+import { getMarkedPositions } from "./lib/marks";
+import { getRoomGame } from "./lib/game";
+import { playerActor, recordEvent } from "./lib/events";
+import { BingoCard, CardResponse } from "./lib/types";
+import { gamePath } from "./lib/schemas";
+import { GameClosedError, NotFoundError } from "./lib/errors";
+
+const schema = { path: gamePath };
+
+async function getOrCreateCard(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { path: { id: gameId } }: Input<typeof schema>
+) {
+  const { sessionId, roomId } = session;
+
+  const game = await getRoomGame(gameId, roomId);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  const existing = await getCard(gameId, sessionId);
+
+  // Claims are checked against the stored layout, so never regenerate it
+  if (existing) {
+    const response: CardResponse = {
+      ...existing,
+      marked: await getMarkedPositions(gameId, sessionId),
+    };
+    return JSON.stringify(response);
+  }
+
+  // Players can look back at their card, but nobody is dealt into a game
+  // that's over
+  if (game.state !== "queued" && game.state !== "active") {
+    throw new GameClosedError(`Game ${game.gameNumber} is not dealing cards`);
+  }
+
+  const card: BingoCard = {
+    gameId,
+    sessionId,
+    roomId,
+    words: generateCardWords(gameId, sessionId, await getApprovedWords(roomId)),
+    createdAt: Date.now(),
+  };
+
+  // A concurrent request may already have stored the same layout
+  if (await saveCard(card)) {
+    await recordEvent(
+      { roomId, gameId, actor: playerActor(session) },
+      { type: "card-dealt", data: { words: card.words } }
+    );
+  }
+
+  const response: CardResponse = { ...card, marked: [] };
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(getOrCreateCard, { auth: "player", schema });
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { main as getWordCloud } from "./cloud";
+import { main as unmark } from "./unmark";
+import { endGame, getGame } from "./lib/game";
+import { SYSTEM_ACTOR } from "./lib/events";
+import { WINDOW_MINUTES } from "./lib/wordCounts";
+import { FREE_SPACE } from "./lib/card";
+import { call, createPlayingRoom, dealCard, joinRoom, markSquares } from "./test/requests";
+import { JoinResponse, Room, WordCloudResponse } from "./lib/types";
+
+const MINUTE_MS = 60 * 1000;
+
+async function getCounts(room: Room) {
+  const { body } = await call<WordCloudResponse>(getWordCloud, { path: { code: room.roomCode } });
+
+  return body.counts;
+}
+
+async function unmarkSquare(player: JoinResponse, gameId: string, position: number) {
+  await call(unmark, { token: player.token, path: { id: gameId, position: String(position) } });
+}
+
+describe("word cloud counts", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts each mark towards the game, the room and the recent window", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+    const adaCard = await dealCard(ada, game.gameId);
+    const graceCard = await dealCard(grace, game.gameId);
+    const word = adaCard.words.find((word) => word !== FREE_SPACE && graceCard.words.includes(word))!;
+
+    await markSquares(ada, game.gameId, [adaCard.words.indexOf(word)]);
+    await markSquares(grace, game.gameId, [graceCard.words.indexOf(word)]);
+
+    const counted = [{ word, count: 2 }];
+
+    expect(await getCounts(room)).toEqual({ recent: counted, game: counted, room: counted });
+  });
+
+  it("takes an unmarked square back off once, and counts it again when remarked", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const card = await dealCard(ada, game.gameId);
+
+    await markSquares(ada, game.gameId, [0]);
+    await unmarkSquare(ada, game.gameId, 0);
+    // Already unmarked, so there's nothing more to take off
+    await unmarkSquare(ada, game.gameId, 0);
+
+    expect(await getCounts(room)).toEqual({ recent: [], game: [], room: [] });
+
+    await markSquares(ada, game.gameId, [0]);
+    // Marked already, so it doesn't count twice
+    await markSquares(ada, game.gameId, [0]);
+
+    const counted = [{ word: card.words[0], count: 1 }];
+
+    expect(await getCounts(room)).toEqual({ recent: counted, game: counted, room: counted });
+  });
+
+  it("drops marks from the recent window once their minute has passed", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const card = await dealCard(ada, game.gameId);
+    const counted = [{ word: card.words[0], count: 1 }];
+
+    await markSquares(ada, game.gameId, [0]);
+    vi.advanceTimersByTime(WINDOW_MINUTES * MINUTE_MS);
+
+    expect(await getCounts(room)).toEqual({ recent: [], game: counted, room: counted });
+
+    // Made before the window, so unmarking it leaves the recent counts be
+    await unmarkSquare(ada, game.gameId, 0);
+    await markSquares(ada, game.gameId, [0]);
+
+    expect(await getCounts(room)).toEqual({ recent: counted, game: counted, room: counted });
+  });
+
+  it("starts the game's counts over with each game, but keeps the room's", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const card = await dealCard(ada, game.gameId);
+
+    await markSquares(ada, game.gameId, [0]);
+    await endGame((await getGame(game.gameId))!, SYSTEM_ACTOR);
+
+    const counts = await getCounts(room);
+
+    expect(counts.game).toEqual([]);
+    expect(counts.room).toEqual([{ word: card.words[0], count: 1 }]);
+  });
+});
@@ -0,0 +1,36 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Input } from "./lib/handler";
+import { settleGames } from "./lib/game";
+import { getRoomByCode, toPublicRoom } from "./lib/rooms";
+import { getWordCounts, WINDOW_MINUTES } from "./lib/wordCounts";
+import { WordCloudResponse } from "./lib/types";
+import { roomCodePath } from "./lib/schemas";
+import { NotFoundError } from "./lib/errors";
+
+const schema = { path: roomCodePath };
+
+// How often words were marked in a room, for its word cloud screen
+async function getWordCloud(
+  _event: APIGatewayProxyEvent,
+  _identity: undefined,
+  { path: { code } }: Input<typeof schema>
+) {
+  const room = await getRoomByCode(code);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  const game = await settleGames(room.roomId);
+
+  const response: WordCloudResponse = {
+    room: toPublicRoom(room),
+    gameId: game.gameId,
+    windowMinutes: WINDOW_MINUTES,
+    counts: await getWordCounts(room.roomId, game.gameId),
+  };
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(getWordCloud, { schema });
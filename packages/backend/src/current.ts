@@ -0,0 +1,31 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Input } from "./lib/handler";
+import { settleGames } from "./lib/game";
+import { getRoomByCode, toPublicRoom } from "./lib/rooms";
+import { CurrentGameResponse } from "./lib/types";
+import { roomCodePath } from "./lib/schemas";
+import { NotFoundError } from "./lib/errors";
+
+const schema = { path: roomCodePath };
+
+async function getCurrentGame(
+  _event: APIGatewayProxyEvent,
+  _identity: undefined,
+  { path: { code } }: Input<typeof schema>
+) {
+  const room = await getRoomByCode(code);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  const response: CurrentGameResponse = {
+    room: toPublicRoom(room),
+    game: await settleGames(room.roomId),
+    serverTime: Date.now(),
+  };
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(getCurrentGame, { schema });
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { main as claimBingo } from "./bingo";
+import { main as submitEvidence } from "./evidence";
+import { main as requestUpload } from "./evidenceUpload";
+import { endGame, getGame, settleGames } from "./lib/game";
+import { SYSTEM_ACTOR } from "./lib/events";
+import { getWinner, setVerdict } from "./lib/winners";
+import { setFileStorage } from "./lib/files";
+import { call, createPlayingRoom, dealCard, joinRoom, markSquares } from "./test/requests";
+import { BingoClaimResponse, EvidenceUploadResponse, JoinResponse } from "./lib/types";
+
+// The centre row, which the free space starts off
+const CENTRE_ROW = [10, 11, 13, 14];
+
+beforeEach(() => {
+  setFileStorage({
+    uploadUrl: async (key) => `https://uploads.test/${key}?signed`,
+    viewUrl: async (key) => `https://uploads.test/${key}`,
+    read: async () => undefined,
+  });
+});
+
+// A room where Ada won the first game and Grace didn't
+async function winFirstGame() {
+  const { room, game } = await createPlayingRoom();
+  const ada = await joinRoom(room, "Ada");
+  const grace = await joinRoom(room, "Grace");
+
+  await dealCard(ada, game.gameId);
+  await dealCard(grace, game.gameId);
+  await markSquares(ada, game.gameId, CENTRE_ROW);
+
+  const { body } = await call<BingoClaimResponse>(claimBingo, { token: ada.token, path: { id: game.gameId } });
+
+  if (body.status !== "accepted") {
+    throw new Error(`Ada's claim was ${body.reason}`);
+  }
+
+  return { room, game, ada, grace, line: body.winner.line! };
+}
+
+function upload(player: JoinResponse, gameId: string) {
+  return call<EvidenceUploadResponse>(requestUpload, {
+    token: player.token,
+    path: { id: gameId },
+    body: { contentType: "image/jpeg" },
+  });
+}
+
+function submit(player: JoinResponse, gameId: string, body: unknown) {
+  return call(submitEvidence, { token: player.token, path: { id: gameId }, body });
+}
+
+describe("evidence", () => {
+  it("lets the winner add evidence after the room has moved on to the next game", async () => {
+    const { room, game, ada, line } = await winFirstGame();
+
+    await endGame((await getGame(game.gameId))!, SYSTEM_ACTOR);
+    expect((await settleGames(room.roomId)).gameId).not.toBe(game.gameId);
+
+    const { statusCode, body: { photoKey } } = await upload(ada, game.gameId);
+
+    expect(statusCode).toBe(200);
+
+    const submitted = await submit(ada, game.gameId, {
+      photoKey,
+      quotes: [{ word: line.words[0], quote: "Let's circle back on that", at: Date.now() }],
+    });
+
+    expect(submitted.statusCode).toBe(200);
+    expect((await getWinner(game.gameId))?.evidence).toMatchObject({
+      photoKey,
+      quotes: [{ word: line.words[0] }],
+    });
+  });
+
+  it("only lets the winner add evidence", async () => {
+    const { game, ada, grace, line } = await winFirstGame();
+    const quotes = [{ word: line.words[0], quote: "Synergy, again", at: Date.now() }];
+
+    expect((await upload(grace, game.gameId)).statusCode).toBe(403);
+    expect((await submit(grace, game.gameId, { quotes })).statusCode).toBe(403);
+
+    // Nor can the winner pass off someone else's upload as theirs
+    const photoKey = `evidence/${game.gameId}/${grace.sessionId}/photo.jpg`;
+
+    expect((await submit(ada, game.gameId, { photoKey, quotes })).statusCode).toBe(400);
+    expect((await getWinner(game.gameId))?.evidence).toBeUndefined();
+  });
+
+  it("rejects evidence for a game the player didn't win", async () => {
+    const { room, game, ada, grace, line } = await winFirstGame();
+    const quotes = [{ word: line.words[0], quote: "Deep dive", at: Date.now() }];
+
+    await endGame((await getGame(game.gameId))!, SYSTEM_ACTOR);
+
+    // A game nobody has won yet
+    const next = await settleGames(room.roomId);
+
+    expect((await submit(ada, next.gameId, { quotes })).statusCode).toBe(403);
+    expect((await upload(ada, next.gameId)).statusCode).toBe(403);
+
+    // And a win already reviewed takes no more
+    await setVerdict(game.gameId, "confirmed", "admin");
+
+    expect((await submit(ada, game.gameId, { quotes })).statusCode).toBe(409);
+    expect((await submit(grace, game.gameId, { quotes })).statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,42 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { validateEvidence } from "./lib/evidence";
+import { getWinner, saveEvidence } from "./lib/winners";
+import { playerActor, recordEvent } from "./lib/events";
+import { gamePath, submitEvidenceRequest } from "./lib/schemas";
+import { ConflictError, ForbiddenError } from "./lib/errors";
+
+const schema = { path: gamePath, body: submitEvidenceRequest };
+
+async function submitEvidence(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { path, body }: Input<typeof schema>
+) {
+  const winner = await getWinner(path.id);
+
+  if (!winner || winner.sessionId !== session.sessionId) {
+    throw new ForbiddenError("Only the winner can add evidence");
+  }
+
+  if (winner.verdict) {
+    throw new ConflictError("This win has already been reviewed");
+  }
+
+  const saved = await saveEvidence(winner, validateEvidence(winner, body));
+  const evidence = saved.evidence!;
+
+  await recordEvent(
+    { roomId: winner.roomId, gameId: winner.gameId, actor: playerActor(session) },
+    { type: "evidence-submitted", data: { quotes: evidence.quotes.length, photo: !!evidence.photoKey } }
+  );
+
+  return JSON.stringify(saved);
+}
+
+export const main = handler(submitEvidence, {
+  auth: "player",
+  rateLimits: [RATE_LIMITS.evidence],
+  schema,
+});
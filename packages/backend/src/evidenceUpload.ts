@@ -0,0 +1,36 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { createUploadUrl } from "./lib/evidence";
+import { getWinner } from "./lib/winners";
+import { evidenceUploadRequest, gamePath } from "./lib/schemas";
+import { EvidenceUploadResponse } from "./lib/types";
+import { ForbiddenError } from "./lib/errors";
+
+const schema = { path: gamePath, body: evidenceUploadRequest };
+
+async function requestUpload(
+  _event: APIGatewayProxyEvent,
+  { sessionId }: Identities["player"],
+  { path, body }: Input<typeof schema>
+) {
+  const winner = await getWinner(path.id);
+
+  if (!winner || winner.sessionId !== sessionId) {
+    throw new ForbiddenError("Only the winner can add evidence");
+  }
+
+  const response: EvidenceUploadResponse = await createUploadUrl(
+    path.id,
+    sessionId,
+    body.contentType
+  );
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(requestUpload, {
+  auth: "player",
+  rateLimits: [RATE_LIMITS.evidence],
+  schema,
+});
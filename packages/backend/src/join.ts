@@ -0,0 +1,57 @@
+import * as uuid from "uuid";
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { createSessionToken } from "./lib/session";
+import { savePlayer } from "./lib/players";
+import { checkNicknameAllowed, claimNickname } from "./lib/nicknames";
+import { findRoomToJoin, toPublicRoom } from "./lib/rooms";
+import { playerActor, recordEvent } from "./lib/events";
+import { joinRequest } from "./lib/schemas";
+import { JoinResponse, Player, PlayerSession } from "./lib/types";
+
+const schema = { body: joinRequest };
+
+async function join(
+  _event: APIGatewayProxyEvent,
+  _identity: undefined,
+  { body: { nickname, pin, roomCode, link } }: Input<typeof schema>
+) {
+  checkNicknameAllowed(nickname);
+
+  const room = await findRoomToJoin({ pin, roomCode, link });
+  const sessionId = uuid.v4();
+
+  await claimNickname(room.roomId, nickname, sessionId);
+
+  const session: PlayerSession = {
+    sessionId,
+    roomId: room.roomId,
+    nickname,
+    issuedAt: Date.now(),
+  };
+
+  const player: Player = {
+    sessionId: session.sessionId,
+    roomId: room.roomId,
+    nickname,
+    joinedAt: session.issuedAt,
+    version: 1,
+  };
+
+  await savePlayer(player);
+  await recordEvent(
+    { roomId: room.roomId, actor: playerActor(session) },
+    { type: "player-joined", data: { sessionId: session.sessionId, nickname } }
+  );
+
+  const response: JoinResponse = {
+    ...session,
+    token: createSessionToken(session),
+    room: toPublicRoom(room),
+  };
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(join, { rateLimits: [RATE_LIMITS.joins], schema });
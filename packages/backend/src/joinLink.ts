@@ -0,0 +1,21 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Input } from "./lib/handler";
+import { checkJoinLink, toPublicRoom } from "./lib/rooms";
+import { joinLinkPath } from "./lib/schemas";
+import { JoinLinkResponse } from "./lib/types";
+
+const schema = { path: joinLinkPath };
+
+// What a QR code opens on, before the player has joined
+async function getJoinLink(
+  _event: APIGatewayProxyEvent,
+  _identity: undefined,
+  { path: { token } }: Input<typeof schema>
+) {
+  const { room, expiresAt } = await checkJoinLink(token);
+  const response: JoinLinkResponse = { room: toPublicRoom(room), expiresAt };
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(getJoinLink, { schema });
@@ -0,0 +1,48 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Input } from "./lib/handler";
+import { settleGames } from "./lib/game";
+import { getRoomByCode, toPublicRoom } from "./lib/rooms";
+import { getLatestWinner, getLeaderboard } from "./lib/leaderboard";
+import { LeaderboardResponse } from "./lib/types";
+import { roomCodePath } from "./lib/schemas";
+import { NotFoundError } from "./lib/errors";
+
+const TOP_PLAYERS = 10;
+const CLOSEST_PLAYERS = 5;
+
+const schema = { path: roomCodePath };
+
+// The leaderboard for a room's current game, for its screen
+async function getGameLeaderboard(
+  _event: APIGatewayProxyEvent,
+  _identity: undefined,
+  { path: { code } }: Input<typeof schema>
+) {
+  const room = await getRoomByCode(code);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  const game = await settleGames(room.roomId);
+  const [leaderboard, latestWinner] = await Promise.all([
+    getLeaderboard(game.gameId),
+    getLatestWinner(room.roomId),
+  ]);
+
+  // Entries only carry nicknames and counts, never sessions or tokens
+  const response: LeaderboardResponse = {
+    room: toPublicRoom(room),
+    game,
+    playerCount: leaderboard.length,
+    topPlayers: leaderboard.slice(0, TOP_PLAYERS),
+    closestToBingo: [...leaderboard]
+      .sort((a, b) => a.toBingo - b.toBingo || b.marked - a.marked)
+      .slice(0, CLOSEST_PLAYERS),
+    latestWinner,
+  };
+
+  return JSON.stringify(response);
+}
+
+export const main = handler(getGameLeaderboard, { schema });
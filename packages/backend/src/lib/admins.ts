@@ -0,0 +1,42 @@
+import { Resource } from "sst";
+import {
+  AdminListGroupsForUserCommand,
+  CognitoIdentityProviderClient,
+} from "@aws-sdk/client-cognito-identity-provider";
+
+export const ADMIN_GROUP = "admins";
+
+const cognito = new CognitoIdentityProviderClient({});
+
+/**
+ * The user pool username behind a Cognito identity pool request. It is the
+ * last part of the authentication provider, e.g.
+ * `cognito-idp.<region>.amazonaws.com/<pool>:CognitoSignIn:<sub>`.
+ */
+export function usernameFromProviders(amr: string[] = []) {
+  const provider = amr.find((entry) => entry.includes(":CognitoSignIn:"));
+
+  return provider?.split(":CognitoSignIn:")[1];
+}
+
+async function isInAdminGroup(username: string) {
+  const result = await cognito.send(new AdminListGroupsForUserCommand({
+    UserPoolId: Resource.UserPool.id,
+    Username: username,
+  }));
+
+  return (result.Groups || []).some((group) => group.GroupName === ADMIN_GROUP);
+}
+
+let checkAdmin = isInAdminGroup;
+
+export async function isAdmin(username: string) {
+  return checkAdmin(username);
+}
+
+/**
+ * Replaces the user pool lookup, for running without Cognito.
+ */
+export function setAdminCheck(check: (username: string) => Promise<boolean>) {
+  checkAdmin = check;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  CARD_SIZE,
+  FREE_INDEX,
+  FREE_SPACE,
+  findWinningLine,
+  generateCardWords,
+  squaresToBingo,
+} from "./card";
+
+const POOL = Array.from({ length: 30 }, (_, i) => `Word ${i + 1}`);
+
+describe("generateCardWords", () => {
+  it("lays out a full card with the free space in the centre", () => {
+    const words = generateCardWords("game-1", "player-1", POOL);
+
+    expect(words).toHaveLength(CARD_SIZE * CARD_SIZE);
+    expect(words[FREE_INDEX]).toBe(FREE_SPACE);
+    expect(new Set(words).size).toBe(words.length);
+    expect(words.filter((word) => word !== FREE_SPACE).every((word) => POOL.includes(word))).toBe(true);
+  });
+
+  it("gives back the same card for the same game and player", () => {
+    // The pool's order doesn't matter either
+    expect(generateCardWords("game-1", "player-1", [...POOL].reverse())).toEqual(
+      generateCardWords("game-1", "player-1", POOL)
+    );
+  });
+
+  it("deals different players different cards", () => {
+    expect(generateCardWords("game-1", "player-2", POOL)).not.toEqual(
+      generateCardWords("game-1", "player-1", POOL)
+    );
+  });
+
+  it("needs enough words for a card, counting repeats once", () => {
+    const short = [...POOL.slice(0, 23), POOL[0]];
+
+    expect(() => generateCardWords("game-1", "player-1", short)).toThrow("At least 24");
+  });
+});
+
+describe("findWinningLine", () => {
+  const words = generateCardWords("game-1", "player-1", POOL);
+
+  it("finds nothing on an empty card", () => {
+    expect(findWinningLine(words, [])).toBeNull();
+  });
+
+  it("finds a row, with its words", () => {
+    expect(findWinningLine(words, [5, 6, 7, 8, 9])).toEqual({
+      kind: "row",
+      index: 1,
+      positions: [5, 6, 7, 8, 9],
+      words: words.slice(5, 10),
+    });
+  });
+
+  it("finds a column", () => {
+    expect(findWinningLine(words, [1, 6, 11, 16, 21])).toMatchObject({ kind: "column", index: 1 });
+  });
+
+  it("finds both diagonals", () => {
+    expect(findWinningLine(words, [0, 6, 18, 24])).toMatchObject({ kind: "diagonal", index: 0 });
+    expect(findWinningLine(words, [4, 8, 16, 20])).toMatchObject({ kind: "diagonal", index: 1 });
+  });
+
+  it("counts the free space as marked", () => {
+    expect(findWinningLine(words, [10, 11, 13, 14])).toMatchObject({ kind: "row", index: 2 });
+  });
+
+  it("needs the whole line", () => {
+    expect(findWinningLine(words, [0, 1, 2, 3, 9])).toBeNull();
+  });
+});
+
+describe("squaresToBingo", () => {
+  it("counts the fewest squares left on any line", () => {
+    // The centre lines start a square ahead
+    expect(squaresToBingo([])).toBe(4);
+    expect(squaresToBingo([10, 11])).toBe(2);
+    expect(squaresToBingo([10, 11, 13, 14])).toBe(0);
+  });
+});
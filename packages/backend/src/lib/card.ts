@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import { repositories } from "./repositories";
+import { BingoCard, WinningLine } from "./types";
+
+export const CARD_SIZE = 5;
+export const FREE_SPACE = "FREE";
+export const FREE_INDEX = Math.floor((CARD_SIZE * CARD_SIZE) / 2);
+
+// Seed a PRNG from a string so the same input always yields the same sequence
+function seededRandom(seed: string) {
+  let state = createHash("sha256").update(seed).digest().readUInt32LE(0);
+
+  // mulberry32
+  return function () {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lays out a card for a player, row by row, with the free space in the
+ * centre. The layout only depends on the game, the player and the word pool,
+ * so regenerating it gives back the same card.
+ */
+export function generateCardWords(gameId: string, sessionId: string, pool: string[]) {
+  const needed = CARD_SIZE * CARD_SIZE - 1;
+  const words = [...new Set(pool)].sort();
+
+  if (words.length < needed) {
+    throw new Error(`At least ${needed} approved words are needed for a card`);
+  }
+
+  const random = seededRandom(`${gameId}:${sessionId}`);
+
+  // Fisher-Yates, stopping once enough words have been picked
+  for (let i = 0; i < needed; i++) {
+    const j = i + Math.floor(random() * (words.length - i));
+    [words[i], words[j]] = [words[j], words[i]];
+  }
+
+  const picked = words.slice(0, needed);
+  picked.splice(FREE_INDEX, 0, FREE_SPACE);
+
+  return picked;
+}
+
+function lines(): Omit<WinningLine, "words">[] {
+  const range = [...Array(CARD_SIZE).keys()];
+
+  return [
+    ...range.map((row) => ({
+      kind: "row" as const,
+      index: row,
+      positions: range.map((col) => row * CARD_SIZE + col),
+    })),
+    ...range.map((col) => ({
+      kind: "column" as const,
+      index: col,
+      positions: range.map((row) => row * CARD_SIZE + col),
+    })),
+    {
+      kind: "diagonal" as const,
+      index: 0,
+      positions: range.map((i) => i * CARD_SIZE + i),
+    },
+    {
+      kind: "diagonal" as const,
+      index: 1,
+      positions: range.map((i) => i * CARD_SIZE + (CARD_SIZE - 1 - i)),
+    },
+  ];
+}
+
+/**
+ * Returns the first completed row, column or diagonal, counting the free
+ * space as marked, or null if there is none.
+ */
+export function findWinningLine(words: string[], marked: number[]): WinningLine | null {
+  const covered = new Set([...marked, FREE_INDEX]);
+  const line = lines().find(({ positions }) => positions.every((p) => covered.has(p)));
+
+  return line
+    ? { ...line, words: line.positions.map((p) => words[p]) }
+    : null;
+}
+
+/**
+ * The fewest unmarked squares left on any line.
+ */
+export function squaresToBingo(marked: number[]) {
+  const covered = new Set([...marked, FREE_INDEX]);
+
+  return Math.min(
+    ...lines().map(({ positions }) => positions.filter((p) => !covered.has(p)).length)
+  );
+}
+
+export async function getCard(gameId: string, sessionId: string) {
+  return repositories().cards.get(gameId, sessionId);
+}
+
+/**
+ * Stores a new card. Returns false when the player already has one, which
+ * for a concurrent request is the same layout.
+ */
+export async function saveCard(card: BingoCard) {
+  return repositories().cards.create(card);
+}
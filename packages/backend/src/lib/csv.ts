@@ -0,0 +1,80 @@
+/**
+ * Splits CSV into rows of cells, with quoted cells that can hold commas,
+ * quotes (doubled) and line breaks. Blank lines are left out.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  // Spreadsheets often start with a byte order mark
+  const text = content.replace(/^\uFEFF/, "");
+
+  function endRow() {
+    row.push(cell);
+
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+
+    row = [];
+    cell = "";
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  endRow();
+
+  return rows;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function toCell(value: string | number) {
+  let text = String(value);
+
+  if (FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Takes off the apostrophe toCell() guards a formula-like value with, so
+ * what was exported reads back the same.
+ */
+export function fromCell(text: string) {
+  return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+export function toCsv(rows: (string | number)[][]) {
+  return rows.map((row) => row.map(toCell).join(",")).join("\r\n") + "\r\n";
+}
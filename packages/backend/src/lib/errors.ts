@@ -0,0 +1,122 @@
+/**
+ * Stable, machine-readable error codes the frontend can branch on.
+ */
+export type ErrorCode =
+  | "bad-request"
+  | "unauthorized"
+  | "forbidden"
+  | "not-found"
+  | "conflict"
+  | "rate-limited"
+  | "game-closed"
+  | "version-conflict"
+  | "nickname-taken"
+  | "link-invalid"
+  | "link-expired"
+  | "link-revoked"
+  | "internal";
+
+export class HttpError extends Error {
+  constructor(public statusCode: number, public code: ErrorCode, message: string) {
+    super(message);
+  }
+
+  // The response body
+  toJSON(): Record<string, unknown> {
+    return { error: this.message, code: this.code };
+  }
+}
+
+export class BadRequestError extends HttpError {
+  // Validation messages by field, e.g. { "body.nickname": [...] }
+  constructor(message: string, public fields?: Record<string, string[]>) {
+    super(400, "bad-request", message);
+  }
+
+  toJSON() {
+    return this.fields ? { ...super.toJSON(), fields: this.fields } : super.toJSON();
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = "User not authenticated") {
+    super(401, "unauthorized", message);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(403, "forbidden", message);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(404, "not-found", message);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(409, "conflict", message);
+  }
+}
+
+export class RateLimitError extends HttpError {
+  constructor(public retryAfter: number) {
+    super(429, "rate-limited", "You're going too fast, slow down and try again in a moment");
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
+}
+
+// A conflict the player can't fix by retrying, the game has moved on
+export class GameClosedError extends HttpError {
+  constructor(message = "This game is not in play") {
+    super(409, "game-closed", message);
+  }
+}
+
+// Someone else changed the item first, `current` is how they left it
+export class VersionConflictError extends HttpError {
+  constructor(message: string, public current: unknown) {
+    super(409, "version-conflict", message);
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), current: this.current };
+  }
+}
+
+// Someone in the room already goes by the name, `suggestions` are free
+export class NicknameTakenError extends HttpError {
+  constructor(nickname: string, public suggestions: string[]) {
+    super(409, "nickname-taken", `Someone here is already called ${nickname}`);
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), suggestions: this.suggestions };
+  }
+}
+
+// A join link that can't be used, with a code for each reason so the
+// frontend can explain it
+export class JoinLinkError extends HttpError {
+  constructor(code: "link-invalid" | "link-expired" | "link-revoked", message: string) {
+    super(code === "link-invalid" ? 404 : 410, code, message);
+  }
+}
+
+/**
+ * Maps anything thrown by a route to the error it responds with. Anything
+ * unexpected is a 500 without its details.
+ */
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  return new HttpError(500, "internal", "Something went wrong");
+}
@@ -0,0 +1,58 @@
+import { PageRequest, repositories } from "./repositories";
+import { AdminIdentity, EventActor, NewRoomEvent, PlayerSession, RoomEventData } from "./types";
+
+/*
+ * Every room keeps an append-only log of what happened in it: player marks,
+ * claims and suggestions, admin actions, and the game moving between
+ * states. Each event has the room's next sequence number, so the log is an
+ * audit trail for disputed wins, can be replayed to rebuild a game (see
+ * lib/replay.ts), and tells the game stream when anything changed.
+ *
+ * Events are recorded once the change they describe has been written, so
+ * the log never holds a change that failed.
+ */
+
+export const SYSTEM_ACTOR: EventActor = { type: "system" };
+
+export function playerActor({ sessionId, nickname }: PlayerSession): EventActor {
+  return { type: "player", sessionId, nickname };
+}
+
+export function adminActor({ username }: AdminIdentity): EventActor {
+  return { type: "admin", username };
+}
+
+export interface EventContext {
+  roomId: string;
+  // For events about one game
+  gameId?: string;
+  actor: EventActor;
+}
+
+export async function recordEvent({ roomId, gameId, actor }: EventContext, event: RoomEventData) {
+  const logged: NewRoomEvent = {
+    ...event,
+    roomId,
+    // Left off rather than unset, so room events stay out of the game index
+    ...(gameId ? { gameId } : {}),
+    actor,
+    at: Date.now(),
+  };
+
+  return repositories().events.append(logged);
+}
+
+/**
+ * The room's last sequence number, which moves on whenever anything happens
+ * in the room.
+ */
+export async function getLatestSeq(roomId: string) {
+  return repositories().events.latestSeq(roomId);
+}
+
+/**
+ * A page of a game's events, in the order they happened.
+ */
+export async function listGameEvents(gameId: string, page: PageRequest) {
+  return repositories().events.listPageByGame(gameId, page);
+}
@@ -0,0 +1,80 @@
+import * as uuid from "uuid";
+import { fileStorage } from "./files";
+import { SubmitEvidenceRequest } from "./schemas";
+import { Evidence, EvidenceQuote, Winner } from "./types";
+import { BadRequestError } from "./errors";
+
+// Players have no Cognito identity to upload into private/ with, so their
+// photos go under a shared prefix through presigned URLs, and admins read
+// them the same way
+const EVIDENCE_PREFIX = "evidence";
+
+const PHOTO_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "image/gif": "gif",
+};
+
+function evidencePrefix(gameId: string, sessionId: string) {
+  return `${EVIDENCE_PREFIX}/${gameId}/${sessionId}/`;
+}
+
+/**
+ * A short-lived URL the winner can PUT a photo to, and the key to submit
+ * with their evidence once it's uploaded.
+ */
+export async function createUploadUrl(gameId: string, sessionId: string, contentType: string) {
+  const extension = PHOTO_TYPES[contentType];
+
+  if (!extension) {
+    throw new BadRequestError("Evidence photos must be JPEG, PNG, WebP, HEIC or GIF images");
+  }
+
+  const photoKey = `${evidencePrefix(gameId, sessionId)}${uuid.v4()}.${extension}`;
+  const uploadUrl = await fileStorage().uploadUrl(photoKey, contentType);
+
+  return { photoKey, uploadUrl };
+}
+
+export async function getPhotoUrl(photoKey: string) {
+  return fileStorage().viewUrl(photoKey);
+}
+
+/**
+ * Checks submitted evidence against the win it backs up: photos must be the
+ * winner's own uploads, and quotes can only be for words in the winning line.
+ */
+export function validateEvidence(winner: Winner, data: SubmitEvidenceRequest): Evidence {
+  if (!winner.line) {
+    throw new BadRequestError("Declared wins don't take evidence");
+  }
+
+  const { photoKey } = data;
+
+  if (photoKey && !photoKey.startsWith(evidencePrefix(winner.gameId, winner.sessionId))) {
+    throw new BadRequestError("Invalid evidence photo");
+  }
+
+  const lineWords = winner.line.words;
+  const quotes: EvidenceQuote[] = [];
+
+  for (const { word, quote, at } of data.quotes) {
+    if (!quote) {
+      continue;
+    }
+
+    if (!lineWords.includes(word)) {
+      throw new BadRequestError(`"${word}" isn't in your winning line`);
+    }
+
+    quotes.push({ word, quote, at });
+  }
+
+  if (!photoKey && quotes.length === 0) {
+    throw new BadRequestError("Add a photo or at least one quote");
+  }
+
+  return { photoKey, quotes, submittedAt: Date.now() };
+}
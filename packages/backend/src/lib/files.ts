@@ -0,0 +1,71 @@
+import { Resource } from "sst";
+import { GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+const UPLOAD_EXPIRES_SECONDS = 5 * 60;
+const VIEW_EXPIRES_SECONDS = 15 * 60;
+
+/**
+ * Where uploads are kept, evidence photos and word packs. Browsers upload
+ * and view them directly, through short-lived URLs, so the API never
+ * handles photos, and only reads packs back to import them.
+ */
+export interface FileStorage {
+  // A URL the browser can PUT the file to
+  uploadUrl(key: string, contentType: string): Promise<string>;
+  viewUrl(key: string): Promise<string>;
+  // Undefined when nothing was uploaded under the key
+  read(key: string): Promise<string | undefined>;
+}
+
+export function createS3FileStorage(): FileStorage {
+  const s3 = new S3Client({});
+
+  return {
+    async uploadUrl(key, contentType) {
+      return getSignedUrl(
+        s3,
+        new PutObjectCommand({
+          Bucket: Resource.Uploads.name,
+          Key: key,
+          ContentType: contentType,
+        }),
+        { expiresIn: UPLOAD_EXPIRES_SECONDS }
+      );
+    },
+
+    async viewUrl(key) {
+      return getSignedUrl(
+        s3,
+        new GetObjectCommand({ Bucket: Resource.Uploads.name, Key: key }),
+        { expiresIn: VIEW_EXPIRES_SECONDS }
+      );
+    },
+
+    async read(key) {
+      try {
+        const result = await s3.send(new GetObjectCommand({ Bucket: Resource.Uploads.name, Key: key }));
+
+        return await result.Body?.transformToString();
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+let current: FileStorage | undefined;
+
+/**
+ * The file storage in use, the Uploads bucket unless something else was set.
+ */
+export function fileStorage() {
+  return (current ??= createS3FileStorage());
+}
+
+export function setFileStorage(storage: FileStorage) {
+  current = storage;
+}
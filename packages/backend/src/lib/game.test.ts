@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  callBingo,
+  canTransition,
+  celebrationMs,
+  createGame,
+  endGame,
+  getGame,
+  getGamesByState,
+  revokeBingo,
+  settleGames,
+  transitionGame,
+} from "./game";
+import { SYSTEM_ACTOR } from "./events";
+import { createRoom } from "./rooms";
+import { ConflictError, VersionConflictError } from "./errors";
+
+const START = new Date("2026-06-01T09:00:00Z").getTime();
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(START);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("game transitions", () => {
+  it("only allows the moves in the state machine", () => {
+    expect(canTransition("queued", "active")).toBe(true);
+    expect(canTransition("active", "bingo-called")).toBe(true);
+    expect(canTransition("celebrating", "active")).toBe(true);
+    expect(canTransition("queued", "celebrating")).toBe(false);
+    expect(canTransition("complete", "active")).toBe(false);
+  });
+
+  it("rejects an illegal move", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const game = await createGame(roomId, SYSTEM_ACTOR);
+
+    await expect(transitionGame(game, "celebrating", SYSTEM_ACTOR)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it("rejects a move from a stale copy of the game", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const game = await createGame(roomId, SYSTEM_ACTOR);
+
+    await transitionGame(game, "active", SYSTEM_ACTOR);
+
+    await expect(transitionGame(game, "complete", SYSTEM_ACTOR)).rejects.toBeInstanceOf(VersionConflictError);
+  });
+
+  it("keeps the history of every move", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const game = await createGame(roomId, SYSTEM_ACTOR);
+    const active = await transitionGame(game, "active", SYSTEM_ACTOR);
+    const celebrating = await callBingo(active, SYSTEM_ACTOR);
+
+    expect(celebrating.state).toBe("celebrating");
+    expect(celebrating.celebrationEndsAt).toBe(START + celebrationMs());
+    expect(celebrating.history.map(({ to }) => to)).toEqual(["queued", "active", "bingo-called", "celebrating"]);
+  });
+
+  it("clears the celebration when a win is revoked", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const game = await createGame(roomId, SYSTEM_ACTOR);
+    const celebrating = await callBingo(await transitionGame(game, "active", SYSTEM_ACTOR), SYSTEM_ACTOR);
+    const revoked = await revokeBingo(celebrating, SYSTEM_ACTOR);
+
+    expect(revoked.state).toBe("active");
+    expect(revoked.celebrationEndsAt).toBeUndefined();
+  });
+});
+
+describe("settleGames", () => {
+  it("starts a room's first game", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const game = await settleGames(roomId);
+
+    expect(game).toMatchObject({ roomId, gameNumber: 1, state: "active" });
+  });
+
+  it("keeps the active game", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const game = await settleGames(roomId);
+
+    expect((await settleGames(roomId)).gameId).toBe(game.gameId);
+  });
+
+  it("waits out the celebration, then rolls over to the next queued game", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const first = await settleGames(roomId);
+    const queued = await createGame(roomId, SYSTEM_ACTOR);
+
+    await callBingo(first, SYSTEM_ACTOR);
+
+    vi.setSystemTime(START + celebrationMs() - 1);
+    expect(await settleGames(roomId)).toMatchObject({ gameId: first.gameId, state: "celebrating" });
+
+    vi.setSystemTime(START + celebrationMs() + 1);
+    expect(await settleGames(roomId)).toMatchObject({ gameId: queued.gameId, state: "active" });
+    expect(await getGame(first.gameId)).toMatchObject({ state: "complete" });
+  });
+
+  it("creates the next game when nothing is queued", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const first = await settleGames(roomId);
+
+    await endGame(first, SYSTEM_ACTOR);
+
+    expect(await settleGames(roomId)).toMatchObject({ gameNumber: 2, state: "active" });
+  });
+
+  it("activates one game when settled concurrently", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const settled = await Promise.all([settleGames(roomId), settleGames(roomId), settleGames(roomId)]);
+
+    expect(new Set(settled.map((game) => game.gameId)).size).toBe(1);
+    expect(await getGamesByState(roomId, "active")).toHaveLength(1);
+  });
+});
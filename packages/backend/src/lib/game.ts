@@ -0,0 +1,226 @@
+import * as uuid from "uuid";
+import { PageRequest, repositories } from "./repositories";
+import { recordEvent, SYSTEM_ACTOR } from "./events";
+import { EventActor, Game, GameState } from "./types";
+import { ConflictError, VersionConflictError } from "./errors";
+
+// Going back to active is only for a revoked win, and admins can end a game
+// from any state short of complete
+const TRANSITIONS: Record<GameState, GameState[]> = {
+  queued: ["active", "complete"],
+  active: ["bingo-called", "complete"],
+  "bingo-called": ["celebrating", "active", "complete"],
+  celebrating: ["complete", "active"],
+  complete: [],
+};
+
+export function celebrationMs() {
+  return Number(process.env.CELEBRATION_SECONDS || 30) * 1000;
+}
+
+export function canTransition(from: GameState, to: GameState) {
+  return TRANSITIONS[from].includes(to);
+}
+
+export async function getGame(gameId: string) {
+  return repositories().games.get(gameId);
+}
+
+/**
+ * A room's games in a state, oldest first unless `newestFirst` is set.
+ */
+export async function getGamesByState(
+  roomId: string,
+  state: GameState,
+  limit?: number,
+  newestFirst = false
+) {
+  return repositories().games.listByState(roomId, state, limit, newestFirst);
+}
+
+/**
+ * A page of a room's games by game number, only those in `state` when given.
+ */
+export async function listGamesPage(
+  roomId: string,
+  state: GameState | undefined,
+  page: PageRequest,
+  newestFirst = true
+) {
+  return repositories().games.listPage(roomId, state, page, newestFirst);
+}
+
+/**
+ * Queues a new game at the back of a room's queue. Given the id of a game
+ * that already exists, returns that game instead.
+ */
+export async function createGame(roomId: string, actor: EventActor, gameId = uuid.v4()) {
+  const { games } = repositories();
+  const now = Date.now();
+  const game: Game = {
+    gameId,
+    roomId,
+    gameNumber: await games.nextGameNumber(roomId),
+    state: "queued",
+    createdAt: now,
+    updatedAt: now,
+    history: [{ from: null, to: "queued", at: now }],
+    version: 1,
+  };
+
+  if (!(await games.create(game))) {
+    return (await getGame(gameId))!;
+  }
+
+  await recordEvent(
+    { roomId, gameId: game.gameId, actor },
+    { type: "game-created", data: { gameNumber: game.gameNumber } }
+  );
+
+  return game;
+}
+
+// Moves a game on, undefined when another caller moved it first
+async function applyTransition(
+  game: Game,
+  to: GameState,
+  actor: EventActor,
+  changes: Partial<Pick<Game, "celebrationEndsAt">>
+) {
+  if (!canTransition(game.state, to)) {
+    throw new ConflictError(`Game ${game.gameNumber} cannot move from ${game.state} to ${to}`);
+  }
+
+  const moved = await repositories().games.changeState(game.gameId, {
+    roomId: game.roomId,
+    from: game.state,
+    transition: { from: game.state, to, at: Date.now() },
+    // Only a celebrating game has an end to its celebration
+    celebrationEndsAt: changes.celebrationEndsAt ?? (to === "active" ? null : undefined),
+    version: game.version,
+  });
+
+  if (moved) {
+    await recordEvent(
+      { roomId: game.roomId, gameId: game.gameId, actor },
+      { type: "game-state", data: { from: game.state, to } }
+    );
+  }
+
+  return moved;
+}
+
+/**
+ * Moves a game to a new state. Illegal transitions are rejected, and the
+ * write only succeeds if the game hasn't changed since it was read, so
+ * concurrent callers can't both move it.
+ */
+export async function transitionGame(
+  game: Game,
+  to: GameState,
+  actor: EventActor,
+  changes: Partial<Pick<Game, "celebrationEndsAt">> = {}
+) {
+  const moved = await applyTransition(game, to, actor, changes);
+
+  if (!moved) {
+    throw new VersionConflictError(
+      `Game ${game.gameNumber} was changed by someone else first`,
+      await getGame(game.gameId)
+    );
+  }
+
+  return moved;
+}
+
+// Like transitionGame, but losing a race to another caller is not an error.
+// Only the games settling themselves do this.
+async function tryTransition(game: Game, to: GameState) {
+  return applyTransition(game, to, SYSTEM_ACTOR, {});
+}
+
+/**
+ * Records a bingo against the active game, starting its celebration window.
+ */
+export async function callBingo(game: Game, actor: EventActor) {
+  const called = await transitionGame(game, "bingo-called", actor);
+
+  return transitionGame(called, "celebrating", actor, {
+    celebrationEndsAt: called.updatedAt + celebrationMs(),
+  });
+}
+
+/**
+ * Puts a game whose win was revoked back into play.
+ */
+export async function revokeBingo(game: Game, actor: EventActor) {
+  return transitionGame(game, "active", actor);
+}
+
+/**
+ * Ends a game without waiting for a bingo. The next queued game takes over
+ * the next time the games are settled.
+ */
+export async function endGame(game: Game, actor: EventActor) {
+  return transitionGame(game, "complete", actor);
+}
+
+/**
+ * Ends a game and starts a fresh one in its place straight away, ahead of
+ * anything already queued.
+ */
+export async function resetGame(game: Game, actor: EventActor) {
+  await endGame(game, actor);
+
+  return transitionGame(await createGame(game.roomId, actor), "active", actor);
+}
+
+/**
+ * Brings a room's games up to date and returns the current one. There is no
+ * scheduler, so this runs whenever the current game is read: celebrations
+ * whose window has passed are completed and the next queued game (created if
+ * the queue is empty) becomes active, so the room never waits on an admin.
+ */
+export async function settleGames(roomId: string): Promise<Game> {
+  const now = Date.now();
+
+  for (const game of await getGamesByState(roomId, "celebrating")) {
+    if (game.celebrationEndsAt && game.celebrationEndsAt > now) {
+      return game;
+    }
+    await tryTransition(game, "complete");
+  }
+
+  const [active] = await getGamesByState(roomId, "active", 1);
+
+  if (active) {
+    return active;
+  }
+
+  const [queued] = await getGamesByState(roomId, "queued", 1);
+  const game = queued || (await createNextGame(roomId));
+  const next = game.state === "queued" ? await tryTransition(game, "active") : undefined;
+
+  // Another caller activated a game first
+  return next || (await getGamesByState(roomId, "active", 1))[0];
+}
+
+// The game a room rolls over to when nothing is queued. Everyone settling the
+// room at once works it out from the same finished game, so they agree on its
+// id and only the first of them creates it.
+async function createNextGame(roomId: string) {
+  const [last] = await getGamesByState(roomId, "complete", 1, true);
+  const gameId = uuid.v5(`after:${last?.gameId ?? "none"}`, roomId);
+
+  // Checked first so late callers don't use up a game number
+  return (await getGame(gameId)) || createGame(roomId, SYSTEM_ACTOR, gameId);
+}
+
+/**
+ * Looks up a game for a player, who can only see games in their own room.
+ */
+export async function getRoomGame(gameId: string, roomId: string) {
+  const game = await getGame(gameId);
+
+  return game?.roomId === roomId ? game : undefined;
+}
@@ -1,34 +1,243 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { z, ZodTypeAny } from "zod";
+import { verifySessionToken } from "./session";
+import { getPlayer } from "./players";
+import { isAdmin, usernameFromProviders } from "./admins";
+import { checkRateLimit, RateLimit } from "./rateLimit";
+import {
+  BadRequestError,
+  ForbiddenError,
+  RateLimitError,
+  toHttpError,
+  UnauthorizedError,
+} from "./errors";
+import { AdminIdentity, PlayerSession } from "./types";
 
-type LambdaFunction = (
-  event: APIGatewayProxyEvent
+export const SESSION_HEADER = "x-session-token";
+
+/**
+ * The identity a route receives for each auth mode:
+ * - `none`: public route, no identity
+ * - `player`: a nickname session, verified from the session token header
+ * - `iam`: a Cognito identity, signed by API Gateway
+ * - `admin`: a Cognito identity whose user is in the admins group
+ */
+export interface Identities {
+  none: undefined;
+  player: PlayerSession;
+  iam: { userId: string };
+  admin: AdminIdentity;
+}
+
+export type AuthMode = keyof Identities;
+
+/**
+ * What a route accepts. Each part is validated before the route runs, and
+ * the route receives the parsed values.
+ */
+export interface RouteSchema {
+  body?: ZodTypeAny;
+  path?: ZodTypeAny;
+  query?: ZodTypeAny;
+}
+
+type Parsed<T> = T extends ZodTypeAny ? z.infer<T> : undefined;
+
+export interface Input<S extends RouteSchema> {
+  body: Parsed<S["body"]>;
+  path: Parsed<S["path"]>;
+  query: Parsed<S["query"]>;
+}
+
+export type HandlerOptions<A extends AuthMode, S extends RouteSchema> = {
+  auth?: A;
+  // Checked after authentication, so per-session limits see the session
+  rateLimits?: RateLimit[];
+  // Required once the route reads its input, so it can't go unvalidated
+} & (keyof S extends never ? { schema?: S } : { schema: S });
+
+type LambdaFunction<A extends AuthMode, S extends RouteSchema> = (
+  event: APIGatewayProxyEvent,
+  identity: Identities[A],
+  input: Input<S>
 ) => Promise<APIGatewayProxyResult | string>;
 
-export function handler(lambda: LambdaFunction) {
+export function getHeader(event: APIGatewayProxyEvent, name: string) {
+  const key = Object.keys(event.headers || {}).find(
+    (header) => header.toLowerCase() === name
+  );
+
+  return key ? event.headers[key] : undefined;
+}
+
+// HTTP API events carry the caller's address under requestContext.http
+export function getSourceIp(event: APIGatewayProxyEvent) {
+  const context = event.requestContext as typeof event.requestContext & {
+    http?: { sourceIp?: string };
+  };
+
+  return context.http?.sourceIp || context.identity?.sourceIp || "unknown";
+}
+
+function parseBody(event: APIGatewayProxyEvent): unknown {
+  if (!event.body) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(event.body);
+  } catch {
+    throw new BadRequestError("Request body is not valid JSON");
+  }
+}
+
+/**
+ * Validates the parts of a request the route has a schema for, collecting
+ * every field error into a single 400.
+ */
+function validate<S extends RouteSchema>(event: APIGatewayProxyEvent, schema: S): Input<S> {
+  // A missing body is validated as empty, so its fields report what's missing
+  const parts = {
+    body: parseBody(event) ?? {},
+    path: event.pathParameters || {},
+    query: event.queryStringParameters || {},
+  };
+  const input: Record<keyof RouteSchema, unknown> = {
+    body: undefined,
+    path: undefined,
+    query: undefined,
+  };
+  const fields: Record<string, string[]> = {};
+
+  for (const part of ["body", "path", "query"] as const) {
+    const partSchema = schema[part];
+
+    if (!partSchema) {
+      continue;
+    }
+
+    const result = partSchema.safeParse(parts[part]);
+
+    if (result.success) {
+      input[part] = result.data;
+      continue;
+    }
+
+    for (const issue of result.error.issues) {
+      const field = [part, ...issue.path].join(".");
+      (fields[field] ||= []).push(issue.message);
+    }
+  }
+
+  const messages = Object.values(fields).flat();
+
+  if (messages.length > 0) {
+    throw new BadRequestError(messages[0], fields);
+  }
+
+  return input as unknown as Input<S>;
+}
+
+async function authenticate(
+  event: APIGatewayProxyEvent,
+  auth: AuthMode
+): Promise<Identities[AuthMode]> {
+  if (auth === "none") {
+    return undefined;
+  }
+
+  if (auth === "player") {
+    const token = getHeader(event, SESSION_HEADER);
+    const session = token ? verifySessionToken(token) : null;
+
+    if (!session) {
+      throw new UnauthorizedError();
+    }
+
+    // A valid signature isn't enough once an admin has removed the player
+    const player = await getPlayer(session.sessionId);
+
+    if (!player || player.removedAt) {
+      throw new UnauthorizedError("Your session has ended");
+    }
+
+    // The token keeps the nickname the player joined with, an admin may have
+    // renamed them since
+    return { ...session, nickname: player.nickname };
+  }
+
+  const cognitoIdentity = event.requestContext.authorizer?.iam.cognitoIdentity;
+  const userId: string | undefined = cognitoIdentity?.identityId;
+
+  if (!userId) {
+    throw new UnauthorizedError();
+  }
+
+  if (auth === "iam") {
+    return { userId };
+  }
+
+  const username = usernameFromProviders(cognitoIdentity.amr);
+
+  if (!username || !(await isAdmin(username))) {
+    throw new ForbiddenError("Admins only");
+  }
+
+  return { userId, username };
+}
+
+export function handler<
+  A extends AuthMode = "none",
+  S extends RouteSchema = Record<never, never>,
+>(
+  lambda: LambdaFunction<A, S>,
+  options?: HandlerOptions<A, S>
+) {
   return async function (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
     let body: string;
     let statusCode: number;
+    const headers: Record<string, string> = {};
 
     try {
+      const identity = await authenticate(event, options?.auth ?? "none");
+
+      const sessionId = (identity as Partial<PlayerSession> | undefined)?.sessionId;
+
+      for (const limit of options?.rateLimits || []) {
+        await checkRateLimit(
+          limit,
+          limit.by === "session" && sessionId ? sessionId : getSourceIp(event)
+        );
+      }
+
+      const input = validate(event, options?.schema || ({} as S));
+
       // Run the Lambda
-      const result = await lambda(event);
-      
+      const result = await lambda(event, identity as Identities[A], input);
+
       // Handle string responses (like JSON.stringify results)
       if (typeof result === 'string') {
         body = result;
+        statusCode = 200;
       } else {
-        // Handle full APIGatewayProxyResult responses
-        return result;
+        // Handle full APIGatewayProxyResult responses, e.g. with an ETag
+        body = result.body;
+        statusCode = result.statusCode;
+        Object.assign(headers, result.headers);
       }
-      
-      statusCode = 200;
     } catch (error) {
-      console.error(error);
-      
-      body = JSON.stringify({
-        error: error instanceof Error ? error.message : "Unknown error occurred"
-      });
-      statusCode = 500;
+      const httpError = toHttpError(error);
+
+      if (httpError.statusCode >= 500) {
+        console.error(error);
+      }
+
+      body = JSON.stringify(httpError);
+      statusCode = httpError.statusCode;
+
+      if (httpError instanceof RateLimitError) {
+        headers["Retry-After"] = String(httpError.retryAfter);
+      }
     }
 
     // Return HTTP response
@@ -38,10 +247,12 @@ export function handler(lambda: LambdaFunction) {
       headers: {
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Credentials": true,
-        "Access-Control-Allow-Headers": "Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token",
-        "Access-Control-Allow-Methods": "GET,POST,PUT,DELETE,OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Session-Token,If-Match",
+        "Access-Control-Allow-Methods": "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+        "Access-Control-Expose-Headers": "Retry-After,ETag",
         "Content-Type": "application/json",
+        ...headers,
       },
     };
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getSharedSnapshot } from "./leaderboard";
+import { getLatestSeq } from "./events";
+import { createPlayingRoom, dealCard, joinRoom, markSquares } from "../test/requests";
+
+describe("shared snapshots", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("hands every stream the same snapshot until the room changes", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    await dealCard(ada, game.gameId);
+
+    const seq = await getLatestSeq(room.roomId);
+    const first = await getSharedSnapshot(game, seq);
+
+    vi.advanceTimersByTime(60 * 1000);
+
+    await expect(getSharedSnapshot(game, seq)).resolves.toEqual(first);
+  });
+
+  it("keeps the snapshot when nothing in the log changes it", async () => {
+    const { room, game } = await createPlayingRoom();
+    const first = await getSharedSnapshot(game, await getLatestSeq(room.roomId));
+
+    // Joining doesn't put anyone on the leaderboard until they have a card
+    await joinRoom(room, "Ada");
+    vi.advanceTimersByTime(60 * 1000);
+
+    const seq = await getLatestSeq(room.roomId);
+    const next = await getSharedSnapshot(game, seq);
+
+    expect(next.seq).toBe(seq);
+    expect(next.snapshot).toEqual(first.snapshot);
+  });
+
+  it("rebuilds the snapshot once something changes it", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    await dealCard(ada, game.gameId);
+    const first = await getSharedSnapshot(game, await getLatestSeq(room.roomId));
+
+    await markSquares(ada, game.gameId, [0]);
+
+    // Within a tick of the last rebuild, streams make do with what's there
+    await expect(getSharedSnapshot(game, await getLatestSeq(room.roomId))).resolves.toEqual(first);
+
+    vi.advanceTimersByTime(60 * 1000);
+
+    const next = await getSharedSnapshot(game, await getLatestSeq(room.roomId));
+
+    expect(next.seq).toBeGreaterThan(first.seq);
+    expect(next.snapshot.leaderboard[0].marked).toBe(first.snapshot.leaderboard[0].marked + 1);
+  });
+});
@@ -0,0 +1,173 @@
+import { repositories } from "./repositories";
+import { squaresToBingo } from "./card";
+import { getApprovedWords } from "./words";
+import { getGame, getGamesByState } from "./game";
+import { getWinner, toPublicWinner } from "./winners";
+import {
+  Game,
+  GameSnapshot,
+  LeaderboardEntry,
+  Player,
+  PlayerStanding,
+  PublicWinner,
+  RoomEvent,
+  SharedSnapshot,
+} from "./types";
+
+async function getActivePlayers(sessionIds: string[]) {
+  const players = new Map<string, Player>();
+
+  for (const player of await repositories().players.getMany(sessionIds)) {
+    // Kicked players drop off the leaderboard
+    if (!player.removedAt) {
+      players.set(player.sessionId, player);
+    }
+  }
+
+  return players;
+}
+
+/**
+ * Every player with a card in the game, most marked squares first, then
+ * closest to a bingo. Includes sessions, so only for admins.
+ */
+export async function getStandings(gameId: string): Promise<PlayerStanding[]> {
+  const { cards, marks } = repositories();
+  const [sessionIds, gameMarks] = await Promise.all([
+    cards.listSessionIds(gameId),
+    marks.listByGame(gameId),
+  ]);
+
+  const marked = new Map<string, number[]>(sessionIds.map((sessionId) => [sessionId, []]));
+
+  for (const mark of gameMarks) {
+    marked.get(mark.sessionId)?.push(mark.position);
+  }
+
+  const players = await getActivePlayers([...marked.keys()]);
+
+  return [...marked.entries()]
+    .filter(([sessionId]) => players.has(sessionId))
+    .map(([sessionId, positions]) => ({
+      sessionId,
+      nickname: players.get(sessionId)!.nickname,
+      marked: positions.length,
+      toBingo: squaresToBingo(positions),
+      version: players.get(sessionId)!.version,
+    }))
+    .sort((a, b) => b.marked - a.marked || a.toBingo - b.toBingo);
+}
+
+/**
+ * The public view of the standings, without sessions.
+ */
+export async function getLeaderboard(gameId: string): Promise<LeaderboardEntry[]> {
+  const standings = await getStandings(gameId);
+
+  return standings.map(({ nickname, marked, toBingo }) => ({ nickname, marked, toBingo }));
+}
+
+/**
+ * The full state of a game, safe to show publicly.
+ */
+export async function getGameSnapshot(game: Game): Promise<GameSnapshot> {
+  const [winner, leaderboard, words] = await Promise.all([
+    getWinner(game.gameId),
+    getLeaderboard(game.gameId),
+    getApprovedWords(game.roomId),
+  ]);
+
+  return {
+    game,
+    winner: winner ? toPublicWinner(winner) : null,
+    leaderboard,
+    words,
+  };
+}
+
+// How long a stream's rebuilt snapshot is shared before it's worth building
+// another, about one tick of the stream
+const SHARED_SNAPSHOT_MS = 2000;
+// Long enough for any rebuild, a stream that dies holding the lock only
+// holds up the rest for this long
+const SNAPSHOT_LOCK_MS = 10 * 1000;
+const SNAPSHOT_TTL_SECONDS = 24 * 60 * 60;
+
+// What can change a game's snapshot, in the game itself and anywhere in its
+// room. Anything else, like another game's marks, leaves it as it was.
+const GAME_CHANGES: RoomEvent["type"][] = [
+  "game-state",
+  "card-dealt",
+  "mark",
+  "unmark",
+  "claim",
+  "winner-declared",
+  "winner-reviewed",
+  "winner-revoked",
+];
+const ROOM_CHANGES: RoomEvent["type"][] = ["player-renamed", "player-banned", "words-added", "word-changed"];
+
+function changesSnapshot(event: RoomEvent, gameId: string) {
+  return event.gameId === gameId ? GAME_CHANGES.includes(event.type) : ROOM_CHANGES.includes(event.type);
+}
+
+/**
+ * A game's snapshot as of its room's sequence number `seq`, or a little
+ * before, shared by every stream following the game. Only one of them
+ * rebuilds it at a time, at most once a tick, and only when the room's log
+ * shows something that changes it. The rest read what it stored.
+ */
+export async function getSharedSnapshot(game: Game, seq: number): Promise<SharedSnapshot> {
+  const { snapshots, events } = repositories();
+  const shared = await snapshots.get(game.gameId);
+  const now = Date.now();
+
+  if (shared && (shared.seq >= seq || shared.builtAt > now - SHARED_SNAPSHOT_MS)) {
+    return shared;
+  }
+
+  // Someone else is rebuilding it, theirs is picked up on the next tick
+  if (!(await snapshots.lock(game.gameId, now, now + SNAPSHOT_LOCK_MS)) && shared) {
+    return shared;
+  }
+
+  const changes = shared ? await events.listByRoom(game.roomId, shared.seq) : [];
+  const isChanged = !shared || changes.some((event) => changesSnapshot(event, game.gameId));
+  const rebuilt: SharedSnapshot = {
+    gameId: game.gameId,
+    seq: Math.max(seq, changes.at(-1)?.seq ?? 0),
+    snapshot: isChanged ? await getGameSnapshot((await getGame(game.gameId)) ?? game) : shared.snapshot,
+    builtAt: now,
+    expiresAt: Math.floor(now / 1000) + SNAPSHOT_TTL_SECONDS,
+  };
+
+  await snapshots.put(rebuilt);
+
+  return rebuilt;
+}
+
+// Recently completed games to look through, some may have ended without a winner
+const RECENT_GAMES = 5;
+
+/**
+ * The winner of a room's most recently won game, celebrating or complete,
+ * skipping wins an admin overturned.
+ */
+export async function getLatestWinner(roomId: string): Promise<PublicWinner | null> {
+  const [celebrating, complete] = await Promise.all([
+    getGamesByState(roomId, "celebrating"),
+    getGamesByState(roomId, "complete", RECENT_GAMES, true),
+  ]);
+
+  const won = [...celebrating, ...complete].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  for (const game of won) {
+    const winner = await getWinner(game.gameId);
+
+    if (winner && winner.verdict !== "overturned") {
+      return toPublicWinner(winner);
+    }
+  }
+
+  return null;
+}
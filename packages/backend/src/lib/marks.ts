@@ -0,0 +1,35 @@
+import { repositories } from "./repositories";
+import { countMark } from "./wordCounts";
+import { Mark } from "./types";
+
+export function markId(sessionId: string, position: number) {
+  return `${sessionId}#${position}`;
+}
+
+export async function getMarkedPositions(gameId: string, sessionId: string) {
+  const marks = await repositories().marks.listByPlayer(gameId, sessionId);
+
+  return marks.map((mark) => mark.position);
+}
+
+// Marking a square twice only counts once, false when it was already marked
+export async function saveMark(mark: Mark) {
+  const created = await repositories().marks.create(mark);
+
+  if (created) {
+    await countMark(mark, 1);
+  }
+
+  return created;
+}
+
+// The mark taken off, undefined when the square wasn't marked
+export async function deleteMark(gameId: string, sessionId: string, position: number) {
+  const mark = await repositories().marks.delete(gameId, markId(sessionId, position));
+
+  if (mark) {
+    await countMark(mark, -1);
+  }
+
+  return mark;
+}
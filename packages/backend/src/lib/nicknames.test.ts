@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { main as join } from "../join";
+import { checkNicknameFree, isNicknameBlocked } from "./nicknames";
+import { createRoom } from "./rooms";
+import { renamePlayer, savePlayer } from "./players";
+import { NicknameTakenError } from "./errors";
+import { call, createPlayingRoom, joinRoom } from "../test/requests";
+
+async function addPlayer(roomId: string, nickname: string) {
+  await savePlayer({
+    sessionId: `${nickname}-session`,
+    roomId,
+    nickname,
+    joinedAt: Date.now(),
+    version: 1,
+  });
+}
+
+afterEach(() => {
+  delete process.env.NICKNAME_BLOCKLIST;
+});
+
+describe("blocking nicknames", () => {
+  it("blocks words on the list whatever the case", () => {
+    expect(isNicknameBlocked("shit")).toBe(true);
+    expect(isNicknameBlocked("Big SHIT energy")).toBe(true);
+  });
+
+  it("sees through leetspeak, accents and repeated letters", () => {
+    expect(isNicknameBlocked("sh1t")).toBe(true);
+    expect(isNicknameBlocked("$h!t")).toBe(true);
+    expect(isNicknameBlocked("wh0r3")).toBe(true);
+    expect(isNicknameBlocked("šhït")).toBe(true);
+    expect(isNicknameBlocked("shiiiiit")).toBe(true);
+  });
+
+  it("sees through letters spaced or dotted apart", () => {
+    expect(isNicknameBlocked("s h i t")).toBe(true);
+    expect(isNicknameBlocked("s.h.i.t")).toBe(true);
+    expect(isNicknameBlocked("s-h-1-t")).toBe(true);
+    expect(isNicknameBlocked("sh it")).toBe(true);
+  });
+
+  it("splits words run together with capitals or punctuation", () => {
+    expect(isNicknameBlocked("BigShit")).toBe(true);
+    expect(isNicknameBlocked("xX_shit_Xx")).toBe(true);
+    expect(isNicknameBlocked("Big.ass")).toBe(true);
+  });
+
+  it("blocks words with a plural or verb ending", () => {
+    expect(isNicknameBlocked("Shits")).toBe(true);
+    expect(isNicknameBlocked("p1ssed")).toBe(true);
+  });
+
+  it("doesn't block words that only contain a blocked one", () => {
+    expect(isNicknameBlocked("Cassandra")).toBe(false);
+    expect(isNicknameBlocked("Classy")).toBe(false);
+    expect(isNicknameBlocked("Grape")).toBe(false);
+    expect(isNicknameBlocked("Peacock")).toBe(false);
+    expect(isNicknameBlocked("Hancock")).toBe(false);
+    expect(isNicknameBlocked("Scrapes")).toBe(false);
+    expect(isNicknameBlocked("Emily Dickinson")).toBe(false);
+    expect(isNicknameBlocked("Scunthorpe")).toBe(false);
+    expect(isNicknameBlocked("Penistone")).toBe(false);
+  });
+
+  it("allows ordinary names", () => {
+    expect(isNicknameBlocked("Ada Lovelace")).toBe(false);
+    expect(isNicknameBlocked("Grace Hopper")).toBe(false);
+    expect(isNicknameBlocked("L33t Hax0r")).toBe(false);
+  });
+
+  it("adds words from the environment", () => {
+    process.env.NICKNAME_BLOCKLIST = "synergy, Leverage";
+
+    expect(isNicknameBlocked("Synergy")).toBe(true);
+    expect(isNicknameBlocked("l3v3rag3")).toBe(true);
+  });
+});
+
+describe("taken nicknames", () => {
+  it("allows a nickname nobody in the room has", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const other = await createRoom("Breakout");
+
+    await addPlayer(other.roomId, "Ada");
+
+    await expect(checkNicknameFree(roomId, "Ada")).resolves.toBeUndefined();
+  });
+
+  it("rejects a nickname taken in any case, with free ones to pick", async () => {
+    const { roomId } = await createRoom("Main stage");
+
+    await addPlayer(roomId, "Ada");
+    await addPlayer(roomId, "Ada 2");
+
+    const error = await checkNicknameFree(roomId, "ADA").catch((e) => e);
+
+    expect(error).toBeInstanceOf(NicknameTakenError);
+    expect(error.suggestions).toEqual(["ADA 3", "ADA 4", "ADA 5"]);
+  });
+
+  it("lets a player keep their own nickname", async () => {
+    const { roomId } = await createRoom("Main stage");
+
+    await addPlayer(roomId, "Ada");
+
+    await expect(checkNicknameFree(roomId, "ada", "Ada-session")).resolves.toBeUndefined();
+  });
+});
+
+describe("claiming nicknames", () => {
+  it("only lets one of two players joining at once have a nickname", async () => {
+    const { room } = await createPlayingRoom();
+    const responses = await Promise.all(
+      ["Ada", "ADA"].map((nickname) => call(join, { body: { nickname, pin: room.pin } }))
+    );
+
+    expect(responses.map(({ statusCode }) => statusCode).sort()).toEqual([200, 409]);
+    expect(responses.find(({ statusCode }) => statusCode === 409)?.body).toMatchObject({
+      suggestions: ["ADA 2", "ADA 3", "ADA 4"],
+    });
+  });
+
+  it("frees the old nickname once a player is renamed", async () => {
+    const { room } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await renamePlayer(ada.sessionId, "Countess");
+
+    await expect(joinRoom(room, "Ada")).resolves.toMatchObject({ nickname: "Ada" });
+    await expect(joinRoom(room, "Countess")).rejects.toThrow("409");
+  });
+
+  it("keeps a nickname when a rename fails", async () => {
+    const { room } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await expect(renamePlayer(ada.sessionId, "Countess", 99)).rejects.toThrow("changed by someone else");
+
+    await expect(joinRoom(room, "Countess")).resolves.toMatchObject({ nickname: "Countess" });
+    await expect(joinRoom(room, "Ada")).rejects.toThrow("409");
+  });
+});
@@ -0,0 +1,211 @@
+import { randomInt } from "crypto";
+import { repositories } from "./repositories";
+import { MAX_NICKNAME_LENGTH } from "./schemas";
+import { BadRequestError, NicknameTakenError } from "./errors";
+
+/**
+ * Words nicknames can't contain, on top of any in the comma-separated
+ * NICKNAME_BLOCKLIST environment variable. Words only match on their own,
+ * never inside a longer word, so "Cassandra" and "Hancock" are fine.
+ */
+export const DEFAULT_BLOCKLIST = [
+  "arse",
+  "ass",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollocks",
+  "boner",
+  "bullshit",
+  "cock",
+  "cum",
+  "cunt",
+  "dick",
+  "dildo",
+  "fag",
+  "faggot",
+  "fuck",
+  "hitler",
+  "jizz",
+  "nazi",
+  "nigga",
+  "nigger",
+  "penis",
+  "piss",
+  "porn",
+  "pussy",
+  "rape",
+  "retard",
+  "shit",
+  "slut",
+  "tits",
+  "twat",
+  "vagina",
+  "wank",
+  "whore",
+];
+
+// Endings a blocked word still counts with, e.g. "shits"
+const ENDINGS = ["s", "es", "ed", "ing"];
+
+// Digits and symbols that stand in for letters. "1" is read both ways.
+const LEET: Record<string, string> = {
+  "0": "o",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "8": "b",
+  "9": "g",
+  "@": "a",
+  $: "s",
+  "!": "i",
+  "|": "l",
+  "+": "t",
+};
+
+// How many suggestions come back with a taken nickname
+const SUGGESTION_COUNT = 3;
+const MAX_PLACEHOLDER_ATTEMPTS = 10;
+
+function blocklist() {
+  const extra = (process.env.NICKNAME_BLOCKLIST || "")
+    .split(",")
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean);
+
+  return [...DEFAULT_BLOCKLIST, ...extra];
+}
+
+/**
+ * The ways a nickname can be read, as lowercase words without accents and
+ * with leet swapped for letters. Anything else but letters splits words, as
+ * does a capital partway through one, so "BigShit" is two.
+ */
+function readings(nickname: string) {
+  const plain = nickname
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+    .toLowerCase();
+
+  return ["i", "l"].map((one) =>
+    [...plain]
+      .map((char) => (char === "1" ? one : LEET[char] ?? char))
+      .join("")
+      .split(/[^\p{L}]+/u)
+      .filter(Boolean)
+  );
+}
+
+// Every run of neighbouring words joined up, so "f u c k" and "f.u.c.k"
+// read as one word
+function runs(words: string[]) {
+  return words.flatMap((_, start) =>
+    words.slice(start).map((__, i) => words.slice(start, start + i + 1).join(""))
+  );
+}
+
+// Matches the whole of a word with any of its letters repeated, e.g. "fuuuck"
+function wordPattern(word: string) {
+  const letters = [...word.replace(/[^\p{L}]/gu, "")].map((char) => `${char}+`).join("");
+
+  return new RegExp(`^${letters}(?:${ENDINGS.join("|")})?$`, "u");
+}
+
+/**
+ * Whether a nickname hits the blocklist, including with leetspeak, repeated
+ * letters or spaces and punctuation between the letters.
+ */
+export function isNicknameBlocked(nickname: string) {
+  const patterns = blocklist().map(wordPattern);
+
+  return readings(nickname).some((words) =>
+    runs(words).some((run) => patterns.some((pattern) => pattern.test(run)))
+  );
+}
+
+export function checkNicknameAllowed(nickname: string) {
+  if (isNicknameBlocked(nickname)) {
+    throw new BadRequestError("That nickname isn't allowed, pick another", {
+      "body.nickname": ["That nickname isn't allowed, pick another"],
+    });
+  }
+}
+
+// Nicknames in use in the room, lowercased, that start like `prefix`
+async function takenNicknames(roomId: string, prefix: string, sessionId?: string) {
+  const players = await repositories().players.listByNickname(roomId, prefix);
+
+  return new Set(
+    players
+      .filter((player) => player.sessionId !== sessionId)
+      .map((player) => player.nickname.toLowerCase())
+  );
+}
+
+// Numbered takes on the nickname, trimmed to fit
+function alternatives(nickname: string) {
+  return Array.from({ length: 98 }, (_, i) => {
+    const suffix = ` ${i + 2}`;
+
+    return `${nickname.slice(0, MAX_NICKNAME_LENGTH - suffix.length).trimEnd()}${suffix}`;
+  });
+}
+
+// The error for a taken nickname, with a few free ones to pick instead
+async function nicknameTaken(roomId: string, nickname: string, sessionId?: string) {
+  // Every alternative starts with this much of the nickname
+  const prefix = nickname.slice(0, MAX_NICKNAME_LENGTH - 3).trimEnd();
+  const taken = await takenNicknames(roomId, prefix, sessionId);
+  const suggestions = alternatives(nickname)
+    .filter((alternative) => !taken.has(alternative.toLowerCase()))
+    .slice(0, SUGGESTION_COUNT);
+
+  return new NicknameTakenError(nickname, suggestions);
+}
+
+/**
+ * Rejects a nickname someone else in the room already has, ignoring case,
+ * with a few free ones to pick from instead. Banned players keep theirs, so
+ * they can't come straight back as the same name.
+ */
+export async function checkNicknameFree(roomId: string, nickname: string, sessionId?: string) {
+  const taken = await takenNicknames(roomId, nickname, sessionId);
+
+  if (taken.has(nickname.toLowerCase())) {
+    throw await nicknameTaken(roomId, nickname, sessionId);
+  }
+}
+
+/**
+ * Takes a free nickname in a room for a session. Two players checking the
+ * same one at once both find it free, so it's claimed with a conditional
+ * write too, and only the first of them gets it.
+ */
+export async function claimNickname(roomId: string, nickname: string, sessionId: string) {
+  await checkNicknameFree(roomId, nickname, sessionId);
+
+  if (!(await repositories().nicknames.claim(roomId, nickname, sessionId))) {
+    throw await nicknameTaken(roomId, nickname, sessionId);
+  }
+}
+
+export async function releaseNickname(roomId: string, nickname: string, sessionId: string) {
+  await repositories().nicknames.release(roomId, nickname, sessionId);
+}
+
+/**
+ * A safe, unused nickname for a player an admin renames, like "Player 4821".
+ */
+export async function placeholderNickname(roomId: string) {
+  for (let i = 0; i < MAX_PLACEHOLDER_ATTEMPTS; i++) {
+    const nickname = `Player ${randomInt(1000, 10000)}`;
+
+    if (!(await takenNicknames(roomId, nickname)).has(nickname.toLowerCase())) {
+      return nickname;
+    }
+  }
+
+  throw new Error("Could not find an unused placeholder nickname");
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { exportPack, importPack, previewPack } from "./packs";
+import { setFileStorage } from "./files";
+import { createRoom } from "./rooms";
+import { createWord, listWords } from "./words";
+
+// Uploads, by key
+let uploads: Map<string, string>;
+
+beforeEach(() => {
+  uploads = new Map();
+  setFileStorage({
+    uploadUrl: async (key) => `https://uploads.test/${key}`,
+    viewUrl: async (key) => `https://uploads.test/${key}`,
+    read: async (key) => uploads.get(key),
+  });
+});
+
+function upload(roomId: string, content: string, format = "csv") {
+  const packKey = `packs/${roomId}/pack.${format}`;
+
+  uploads.set(packKey, content);
+  return packKey;
+}
+
+describe("CSV word packs", () => {
+  it("reads a word per row without a header", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const packKey = upload(roomId, "Synergy\nDeep dive\n\nCircle back\n");
+
+    const { words, skipped } = await previewPack(roomId, packKey);
+
+    expect(words.map((word) => word.text)).toEqual(["Synergy", "Deep dive", "Circle back"]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("reads text and status columns by their header", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const packKey = upload(roomId, [
+      "votes,status,text",
+      "3,approved,Synergy",
+      "1,pending,\"Move the needle, again\"",
+      "0,rejected,Blockchain",
+    ].join("\n"));
+
+    const { words, skipped } = await previewPack(roomId, packKey);
+
+    expect(words).toEqual([
+      { text: "Synergy", status: "approved" },
+      { text: "Move the needle, again", status: "pending" },
+    ]);
+    expect(skipped).toEqual([{ row: 3, text: "Blockchain", reason: "Rejected where it came from" }]);
+  });
+
+  it("skips words repeated in the pack or already in the room", async () => {
+    const { roomId } = await createRoom("Main stage");
+
+    await createWord(roomId, "Synergy", "approved");
+
+    const packKey = upload(roomId, "synergy\nDeep dive\ndeep  DIVE\n");
+    const { words, skipped } = await previewPack(roomId, packKey);
+
+    expect(words.map((word) => word.text)).toEqual(["Deep dive"]);
+    expect(skipped.map(({ row, reason }) => [row, reason])).toEqual([
+      [1, "Already in this room"],
+      [3, "Already in this pack"],
+    ]);
+  });
+
+  it("imports what the preview showed", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const packKey = upload(roomId, "text,status\nSynergy,approved\nDeep dive,pending\n");
+
+    const { added } = await importPack(roomId, packKey);
+    const words = await listWords(roomId);
+
+    expect(added).toHaveLength(2);
+    expect(words.map(({ text, status }) => [text, status]).sort()).toEqual([
+      ["Deep dive", "pending"],
+      ["Synergy", "approved"],
+    ]);
+  });
+
+  it("reads an export back the same, formula guards and all", async () => {
+    const room = await createRoom("Main stage");
+    const other = await createRoom("Breakout");
+
+    for (const text of ["-ish", "+1 that", "@channel", "=SUM of parts"]) {
+      await createWord(room.roomId, text, "approved");
+    }
+
+    const exported = await exportPack(room, "csv");
+    const { words, skipped } = await previewPack(other.roomId, upload(other.roomId, exported));
+
+    expect(exported).toContain("'-ish");
+    expect(words.map((word) => word.text)).toEqual(["-ish", "+1 that", "@channel", "=SUM of parts"]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("rejects packs from another room or never uploaded", async () => {
+    const { roomId } = await createRoom("Main stage");
+    const other = await createRoom("Breakout");
+
+    await expect(previewPack(roomId, upload(other.roomId, "Synergy"))).rejects.toThrow("Invalid pack");
+    await expect(previewPack(roomId, `packs/${roomId}/missing.csv`)).rejects.toThrow("hasn't been uploaded");
+  });
+});
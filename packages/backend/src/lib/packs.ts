@@ -0,0 +1,229 @@
+import * as uuid from "uuid";
+import { fileStorage } from "./files";
+import { fromCell, parseCsv, toCsv } from "./csv";
+import { repositories } from "./repositories";
+import { listWords, normalizeWord } from "./words";
+import { wordText } from "./schemas";
+import {
+  PackFormat,
+  PackImportResult,
+  PackPreview,
+  PackUploadResponse,
+  PackWord,
+  Room,
+  SkippedPackWord,
+  Word,
+} from "./types";
+import { BadRequestError } from "./errors";
+
+/*
+ * Word packs are curated lists reused across events, uploaded as CSV or
+ * JSON into the Uploads bucket. Importing reads the upload back, so the
+ * preview and the import see the same words.
+ *
+ * CSV packs have a word per row, with an optional header row naming `text`
+ * and `status` columns. JSON packs are a list of words, or of objects with
+ * `text` and `status`, optionally under `words`. Exports are in the same
+ * shape, so they import straight back.
+ */
+
+const PACK_PREFIX = "packs";
+const MAX_PACK_BYTES = 1024 * 1024;
+const MAX_PACK_WORDS = 500;
+
+const PACK_TYPES: Record<PackFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+};
+
+const CSV_COLUMNS = ["text", "status", "votes", "suggested_by", "created_at"];
+
+interface PackRow {
+  text: unknown;
+  status?: unknown;
+}
+
+function packPrefix(roomId: string) {
+  return `${PACK_PREFIX}/${roomId}/`;
+}
+
+/**
+ * A short-lived URL the admin can PUT a pack to, and the key to preview and
+ * import it with once it's uploaded.
+ */
+export async function createPackUploadUrl(roomId: string, format: PackFormat): Promise<PackUploadResponse> {
+  const packKey = `${packPrefix(roomId)}${uuid.v4()}.${format}`;
+  const uploadUrl = await fileStorage().uploadUrl(packKey, PACK_TYPES[format]);
+
+  return { packKey, uploadUrl };
+}
+
+function parseCsvPack(content: string): PackRow[] {
+  const rows = parseCsv(content).map((row) => row.map(fromCell));
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase()) || [];
+
+  // Without a header the first column is the word
+  if (!header.includes("text")) {
+    return rows.map(([text]) => ({ text }));
+  }
+
+  const textColumn = header.indexOf("text");
+  const statusColumn = header.indexOf("status");
+
+  return rows.slice(1).map((row) => ({
+    text: row[textColumn],
+    status: statusColumn === -1 ? undefined : row[statusColumn],
+  }));
+}
+
+function parseJsonPack(content: string): PackRow[] {
+  let pack: unknown;
+
+  try {
+    pack = JSON.parse(content);
+  } catch {
+    throw new BadRequestError("The pack is not valid JSON");
+  }
+
+  const entries = Array.isArray(pack) ? pack : (pack as { words?: unknown } | null)?.words;
+
+  if (!Array.isArray(entries)) {
+    throw new BadRequestError("JSON packs must be a list of words, or hold one under \"words\"");
+  }
+
+  return entries.map((entry) =>
+    entry && typeof entry === "object"
+      ? { text: (entry as PackRow).text, status: (entry as PackRow).status }
+      : { text: entry }
+  );
+}
+
+async function readPack(roomId: string, packKey: string) {
+  if (!packKey.startsWith(packPrefix(roomId))) {
+    throw new BadRequestError("Invalid pack");
+  }
+
+  const content = await fileStorage().read(packKey);
+
+  if (content === undefined) {
+    throw new BadRequestError("The pack hasn't been uploaded");
+  }
+
+  if (Buffer.byteLength(content) > MAX_PACK_BYTES) {
+    throw new BadRequestError(`Packs can be at most ${MAX_PACK_BYTES / 1024 / 1024} MB`);
+  }
+
+  const rows = packKey.endsWith(".json") ? parseJsonPack(content) : parseCsvPack(content);
+
+  if (rows.length > MAX_PACK_WORDS) {
+    throw new BadRequestError(`Packs can hold at most ${MAX_PACK_WORDS} words`);
+  }
+
+  return rows;
+}
+
+/**
+ * Checks each word in a pack, leaving out anything invalid, repeated in the
+ * pack, already in the room's pool in any status, or rejected in an export.
+ */
+function checkPack(rows: PackRow[], existing: Word[]) {
+  const seen = new Set(existing.map((word) => normalizeWord(word.text)));
+  const words: PackWord[] = [];
+  const skipped: SkippedPackWord[] = [];
+
+  rows.forEach(({ text, status }, i) => {
+    const row = i + 1;
+
+    if (typeof text !== "string") {
+      skipped.push({ row, text: JSON.stringify(text ?? ""), reason: "Words must be text" });
+      return;
+    }
+
+    const parsed = wordText.safeParse(text);
+
+    if (!parsed.success) {
+      skipped.push({ row, text, reason: parsed.error.issues[0].message });
+      return;
+    }
+
+    const key = normalizeWord(parsed.data);
+
+    if (status === "rejected") {
+      skipped.push({ row, text: parsed.data, reason: "Rejected where it came from" });
+    } else if (seen.has(key)) {
+      const inPack = words.some((word) => normalizeWord(word.text) === key);
+      skipped.push({ row, text: parsed.data, reason: inPack ? "Already in this pack" : "Already in this room" });
+    } else {
+      seen.add(key);
+      // Suggestions still waiting on review stay that way
+      words.push({ text: parsed.data, status: status === "pending" ? "pending" : "approved" });
+    }
+  });
+
+  return { words, skipped };
+}
+
+/**
+ * What importing an uploaded pack into a room would do, without doing it.
+ */
+export async function previewPack(roomId: string, packKey: string): Promise<PackPreview> {
+  const [rows, existing] = await Promise.all([readPack(roomId, packKey), listWords(roomId)]);
+
+  return { packKey, ...checkPack(rows, existing) };
+}
+
+/**
+ * Adds an uploaded pack's words to a room. The pack is checked again, in
+ * case the room's pool changed since the preview.
+ */
+export async function importPack(roomId: string, packKey: string): Promise<PackImportResult> {
+  const [rows, existing] = await Promise.all([readPack(roomId, packKey), listWords(roomId)]);
+  const { words, skipped } = checkPack(rows, existing);
+  const now = Date.now();
+
+  const added = words.map(({ text, status }): Word => ({
+    wordId: uuid.v4(),
+    roomId,
+    text,
+    status,
+    votes: 0,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+  }));
+
+  await Promise.all(added.map((word) => repositories().words.put(word)));
+
+  return { added, skipped };
+}
+
+/**
+ * A room's approved words and every word players suggested there, with
+ * votes, as a pack that imports straight back.
+ */
+export async function exportPack(room: Room, format: PackFormat) {
+  const words = (await listWords(room.roomId))
+    .filter((word) => word.status === "approved" || word.suggestedBy)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  const entries = words.map((word) => ({
+    text: word.text,
+    status: word.status,
+    votes: word.votes || 0,
+    suggestedBy: word.suggestedBy?.nickname ?? null,
+    createdAt: new Date(word.createdAt).toISOString(),
+  }));
+
+  if (format === "json") {
+    return JSON.stringify({ name: room.name, exportedAt: new Date().toISOString(), words: entries }, null, 2);
+  }
+
+  return toCsv([
+    CSV_COLUMNS,
+    ...entries.map((entry) => [entry.text, entry.status, entry.votes, entry.suggestedBy ?? "", entry.createdAt]),
+  ]);
+}
+
+export function packContentType(format: PackFormat) {
+  return PACK_TYPES[format];
+}
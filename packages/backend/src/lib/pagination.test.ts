@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { decodeKeyCursor, encodeCursor, KeySchema, paginate } from "./pagination";
+import { BadRequestError } from "./errors";
+
+const KEYS: KeySchema = { gameId: "string", roomId: "string", gameNumber: "number" };
+
+describe("cursors", () => {
+  it("hands back the key it was issued for", () => {
+    const key = { gameId: "g1", roomId: "r1", gameNumber: 3 };
+
+    expect(decodeKeyCursor(encodeCursor(key), KEYS)).toEqual(key);
+  });
+
+  it("turns away keys that don't match the index", () => {
+    const tampered = [
+      { gameId: "g1", roomId: "r1" },
+      { gameId: "g1", roomId: "r1", gameNumber: "3" },
+      { gameId: "g1", roomId: "r1", gameNumber: 3, state: "active" },
+      { gameId: "g1", roomState: "r1#active", gameNumber: 3 },
+    ];
+
+    for (const key of tampered) {
+      expect(() => decodeKeyCursor(encodeCursor(key), KEYS)).toThrow(BadRequestError);
+    }
+
+    expect(() => decodeKeyCursor("not a cursor", KEYS)).toThrow(BadRequestError);
+  });
+
+  it("pages through a loaded list", () => {
+    const first = paginate([1, 2, 3], { limit: 2 });
+
+    expect(first.items).toEqual([1, 2]);
+    expect(paginate([1, 2, 3], { limit: 2, cursor: first.cursor })).toEqual({ items: [3], cursor: undefined });
+    expect(() => paginate([1, 2, 3], { limit: 2, cursor: encodeCursor({ offset: -1 }) })).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,70 @@
+import { BadRequestError } from "./errors";
+import { PageRequest } from "./repositories";
+import { Page } from "./types";
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+/*
+ * Cursors are opaque to clients: a table's LastEvaluatedKey for lists read
+ * a page at a time, or an offset for lists that are sorted in memory. They
+ * only mean something with the same filters they were issued for.
+ */
+
+export function encodeCursor(position: Record<string, unknown>) {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): Record<string, unknown> {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString());
+
+    if (position && typeof position === "object" && !Array.isArray(position)) {
+      return position;
+    }
+  } catch {
+    // Falls through to the error below
+  }
+
+  throw new BadRequestError("Invalid cursor");
+}
+
+// The attributes making up a LastEvaluatedKey: the table's key, plus the
+// index's when reading one
+export type KeySchema = Record<string, "string" | "number">;
+
+/**
+ * A cursor for a list read a page at a time, only when it holds exactly the
+ * keys of the table or index it's read from. Anything else would fail as an
+ * ExclusiveStartKey.
+ */
+export function decodeKeyCursor(cursor: string, schema: KeySchema) {
+  const position = decodeCursor(cursor);
+  const names = Object.keys(position);
+  const isValid = names.length === Object.keys(schema).length &&
+    names.every((name) => typeof position[name] === schema[name]);
+
+  if (!isValid) {
+    throw new BadRequestError("Invalid cursor");
+  }
+
+  return position;
+}
+
+/**
+ * A page of a list that is already loaded and sorted.
+ */
+export function paginate<T>(items: T[], { limit, cursor }: PageRequest): Page<T> {
+  const offset = cursor ? Number(decodeCursor(cursor).offset) : 0;
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new BadRequestError("Invalid cursor");
+  }
+
+  const end = offset + limit;
+
+  return {
+    items: items.slice(offset, end),
+    cursor: end < items.length ? encodeCursor({ offset: end }) : undefined,
+  };
+}
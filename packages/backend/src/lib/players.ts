@@ -0,0 +1,86 @@
+import { PageRequest, PlayerChanges, repositories } from "./repositories";
+import { claimNickname, placeholderNickname, releaseNickname } from "./nicknames";
+import { Player } from "./types";
+import { NotFoundError, VersionConflictError } from "./errors";
+
+export async function getPlayer(sessionId: string) {
+  return repositories().players.get(sessionId);
+}
+
+export async function savePlayer(player: Player) {
+  await repositories().players.put(player);
+}
+
+/**
+ * A page of a room's players, by when they joined, for moderating.
+ */
+export async function listRoomPlayers(
+  roomId: string,
+  banned: boolean | undefined,
+  page: PageRequest,
+  newestFirst = true
+) {
+  return repositories().players.listPage(roomId, banned, page, newestFirst);
+}
+
+async function updatePlayer(sessionId: string, changes: PlayerChanges, version?: number) {
+  const { players } = repositories();
+  const updated = await players.update(sessionId, changes, version);
+
+  if (updated) {
+    return updated;
+  }
+
+  const current = await players.get(sessionId);
+
+  if (!current) {
+    throw new NotFoundError("Player not found");
+  }
+
+  throw new VersionConflictError(`${current.nickname} was changed by someone else first`, current);
+}
+
+/**
+ * Renames a player, to a nickname nobody else in the room has, or to a
+ * placeholder without one. The old nickname is free for others once the
+ * rename goes through.
+ */
+export async function renamePlayer(sessionId: string, nickname: string | undefined, version?: number) {
+  const player = await getPlayer(sessionId);
+
+  if (!player) {
+    throw new NotFoundError("Player not found");
+  }
+
+  nickname ??= await placeholderNickname(player.roomId);
+
+  const isNew = nickname.toLowerCase() !== player.nickname.toLowerCase();
+
+  await claimNickname(player.roomId, nickname, sessionId);
+
+  let renamed: Player;
+
+  try {
+    renamed = await updatePlayer(sessionId, { nickname }, version);
+  } catch (error) {
+    if (isNew) {
+      await releaseNickname(player.roomId, nickname, sessionId);
+    }
+    throw error;
+  }
+
+  if (isNew) {
+    await releaseNickname(player.roomId, player.nickname, sessionId);
+  }
+
+  return renamed;
+}
+
+/**
+ * Bans a player's session. Their token stops working and they drop off the
+ * leaderboard on the next tick of the game stream, but they can join again
+ * under a new session and another nickname.
+ */
+export async function removePlayer(sessionId: string, version?: number) {
+  return updatePlayer(sessionId, { removedAt: Date.now() }, version);
+}
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, SESSION_HEADER } from "./handler";
+import { RateLimit } from "./rateLimit";
+import { createRoom } from "./rooms";
+import { joinRoom } from "../test/requests";
+
+// The start of a 10 second window
+const WINDOW_START = 1_700_000_000_000;
+
+const BY_IP: RateLimit = { name: "by-ip", by: "ip", limit: 2, windowSeconds: 10 };
+const BY_SESSION: RateLimit = { name: "by-session", by: "session", limit: 2, windowSeconds: 10 };
+
+const byIp = handler(async () => JSON.stringify({ ok: true }), { rateLimits: [BY_IP] });
+const bySession = handler(async () => JSON.stringify({ ok: true }), { auth: "player", rateLimits: [BY_SESSION] });
+
+function send(main: typeof byIp, sourceIp: string, token?: string) {
+  return main({
+    headers: token ? { [SESSION_HEADER]: token } : {},
+    body: null,
+    pathParameters: null,
+    queryStringParameters: null,
+    requestContext: { http: { sourceIp } },
+  } as unknown as APIGatewayProxyEvent);
+}
+
+async function statuses(main: typeof byIp, sourceIp: string, times: number, token?: string) {
+  const codes: number[] = [];
+
+  for (let i = 0; i < times; i++) {
+    codes.push((await send(main, sourceIp, token)).statusCode);
+  }
+
+  return codes;
+}
+
+describe("rate limits", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(WINDOW_START + 4000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("turns requests away with a 429 and how long until the window ends", async () => {
+    await statuses(byIp, "10.0.0.1", BY_IP.limit);
+
+    const response = await send(byIp, "10.0.0.1");
+
+    expect(response.statusCode).toBe(429);
+    expect(response.headers?.["Retry-After"]).toBe("6");
+    expect(JSON.parse(response.body)).toMatchObject({ code: "rate-limited", retryAfter: 6 });
+  });
+
+  it("counts each client IP on its own", async () => {
+    expect(await statuses(byIp, "10.0.0.1", 3)).toEqual([200, 200, 429]);
+    expect(await statuses(byIp, "10.0.0.2", 3)).toEqual([200, 200, 429]);
+  });
+
+  it("counts each session on its own, wherever its requests come from", async () => {
+    const room = await createRoom("Main stage");
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+
+    // Sharing the venue's IP doesn't share a limit
+    expect(await statuses(bySession, "10.0.0.1", 3, ada.token)).toEqual([200, 200, 429]);
+    expect(await statuses(bySession, "10.0.0.1", 3, grace.token)).toEqual([200, 200, 429]);
+    // Moving to another network doesn't reset one
+    expect(await statuses(bySession, "10.0.0.2", 1, ada.token)).toEqual([429]);
+    // Nor do the session limits use up the IP's
+    expect(await statuses(byIp, "10.0.0.1", 2)).toEqual([200, 200]);
+  });
+
+  it("starts counting again in the next window", async () => {
+    expect(await statuses(byIp, "10.0.0.1", 3)).toEqual([200, 200, 429]);
+
+    vi.setSystemTime(WINDOW_START + BY_IP.windowSeconds * 1000);
+
+    expect(await statuses(byIp, "10.0.0.1", 3)).toEqual([200, 200, 429]);
+  });
+});
@@ -0,0 +1,46 @@
+import { repositories } from "./repositories";
+import { RateLimitError } from "./errors";
+
+export interface RateLimit {
+  // Routes that share a name share a counter, e.g. marking and unmarking
+  name: string;
+  // Count per player session, or per client IP for routes without one
+  by: "session" | "ip";
+  limit: number;
+  windowSeconds: number;
+}
+
+/**
+ * The limits routes opt into through their handler options.
+ */
+export const RATE_LIMITS = {
+  joins: { name: "joins", by: "ip", limit: 10, windowSeconds: 60 },
+  marks: { name: "marks", by: "session", limit: 5, windowSeconds: 1 },
+  claims: { name: "claims", by: "session", limit: 3, windowSeconds: 10 },
+  suggestions: { name: "suggestions", by: "session", limit: 3, windowSeconds: 60 },
+  votes: { name: "votes", by: "session", limit: 20, windowSeconds: 60 },
+  evidence: { name: "evidence", by: "session", limit: 5, windowSeconds: 60 },
+} satisfies Record<string, RateLimit>;
+
+// Counters outlive their window a little, DynamoDB deletes expired items lazily
+const TTL_GRACE_SECONDS = 60;
+
+/**
+ * Counts a request against a fixed-window limit, throwing a RateLimitError
+ * with the seconds left in the window once the limit is passed.
+ */
+export async function checkRateLimit(limit: RateLimit, subject: string) {
+  const now = Date.now();
+  const windowMs = limit.windowSeconds * 1000;
+  const windowStart = now - (now % windowMs);
+  const windowEnd = windowStart + windowMs;
+
+  const requests = await repositories().rateLimits.increment(
+    `${limit.name}#${subject}#${windowStart}`,
+    Math.ceil(windowEnd / 1000) + TTL_GRACE_SECONDS
+  );
+
+  if (requests > limit.limit) {
+    throw new RateLimitError(Math.ceil((windowEnd - now) / 1000));
+  }
+}
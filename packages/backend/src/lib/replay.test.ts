@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { main as claimBingo } from "../bingo";
+import { checkGameReplay, replayGame } from "./replay";
+import { getGame } from "./game";
+import { markId } from "./marks";
+import { repositories } from "./repositories";
+import { call, createPlayingRoom, dealCard, joinRoom, markSquares } from "../test/requests";
+
+// The centre row, which the free space starts off
+const CENTRE_ROW = [10, 11, 13, 14];
+
+describe("replaying a game from its log", () => {
+  it("rebuilds the state, winner and standings", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+
+    await dealCard(ada, game.gameId);
+    await dealCard(grace, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+    await markSquares(grace, game.gameId, [0, 1]);
+    await call(claimBingo, { token: ada.token, path: { id: game.gameId } });
+
+    const replay = await replayGame((await getGame(game.gameId))!);
+
+    expect(replay).toMatchObject({
+      gameNumber: 1,
+      state: "celebrating",
+      winner: { sessionId: ada.sessionId, nickname: "Ada", verdict: null },
+      standings: [
+        { sessionId: ada.sessionId, marked: 4, toBingo: 0 },
+        { sessionId: grace.sessionId, marked: 2 },
+      ],
+    });
+  });
+
+  it("finds nothing wrong with a game played normally", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+    await call(claimBingo, { token: ada.token, path: { id: game.gameId } });
+
+    const { differences } = await checkGameReplay((await getGame(game.gameId))!);
+
+    expect(differences).toEqual([]);
+  });
+
+  it("points out marks the log doesn't account for", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+
+    await dealCard(ada, game.gameId);
+    await markSquares(ada, game.gameId, [0]);
+    // Written straight to the table, as a bug might
+    await repositories().marks.create({
+      gameId: game.gameId,
+      markId: markId(ada.sessionId, 1),
+      sessionId: ada.sessionId,
+      roomId: room.roomId,
+      position: 1,
+      word: "Synergy",
+      markedAt: Date.now(),
+    });
+
+    const { differences } = await checkGameReplay((await getGame(game.gameId))!);
+
+    expect(differences).toEqual(["Ada has 2 squares marked, the log says 1"]);
+  });
+});
@@ -0,0 +1,161 @@
+import { repositories } from "./repositories";
+import { squaresToBingo } from "./card";
+import { getStandings } from "./leaderboard";
+import { getWinner } from "./winners";
+import { Game, GameReplay, GameReplayResponse, RoomEvent } from "./types";
+
+interface ReplayedPlayer {
+  nickname: string;
+  banned: boolean;
+}
+
+// The player behind an event, undefined for admin and system events
+function actingSession({ actor }: RoomEvent) {
+  return actor.type === "player" ? actor.sessionId : undefined;
+}
+
+/**
+ * Rebuilds a game's state, winner and standings from its room's event log
+ * alone, without reading the tables they're normally kept in. Players are
+ * replayed across the room, since bans and renames aren't tied to a game.
+ */
+export async function replayGame(game: Game): Promise<GameReplay> {
+  const events = await repositories().events.listByRoom(game.roomId);
+  const players = new Map<string, ReplayedPlayer>();
+  // Positions marked by everyone dealt a card
+  const marked = new Map<string, Set<number>>();
+  const replay: GameReplay = { gameNumber: null, state: null, winner: null, standings: [], seq: 0 };
+
+  for (const event of events) {
+    const sessionId = actingSession(event);
+    replay.seq = event.seq;
+
+    // Players who joined before they were logged are known by what they did
+    if (event.actor.type === "player" && !players.has(event.actor.sessionId)) {
+      players.set(event.actor.sessionId, { nickname: event.actor.nickname, banned: false });
+    }
+
+    switch (event.type) {
+      case "player-joined":
+      case "player-renamed":
+        players.set(event.data.sessionId, {
+          banned: players.get(event.data.sessionId)?.banned ?? false,
+          nickname: event.data.nickname,
+        });
+        break;
+      case "player-banned": {
+        const player = players.get(event.data.sessionId);
+
+        if (player) {
+          player.banned = true;
+        }
+        break;
+      }
+    }
+
+    if (event.gameId !== game.gameId) {
+      continue;
+    }
+
+    switch (event.type) {
+      case "game-created":
+        replay.gameNumber = event.data.gameNumber;
+        replay.state = "queued";
+        break;
+      case "game-state":
+        replay.state = event.data.to;
+        break;
+      case "card-dealt":
+        if (sessionId && !marked.has(sessionId)) {
+          marked.set(sessionId, new Set());
+        }
+        break;
+      case "mark":
+        marked.get(sessionId!)?.add(event.data.position);
+        break;
+      case "unmark":
+        marked.get(sessionId!)?.delete(event.data.position);
+        break;
+      case "claim":
+        if (event.data.status === "accepted" && event.actor.type === "player") {
+          replay.winner = { sessionId: event.actor.sessionId, nickname: event.actor.nickname, verdict: null };
+        }
+        break;
+      case "winner-declared":
+        // An admin's own call needs no review
+        replay.winner = { ...event.data, verdict: "confirmed" };
+        break;
+      case "winner-reviewed":
+        if (replay.winner) {
+          replay.winner.verdict = event.data.verdict;
+        }
+        break;
+      case "winner-revoked":
+        replay.winner = null;
+        break;
+    }
+  }
+
+  replay.standings = [...marked.entries()]
+    .filter(([sessionId]) => players.has(sessionId) && !players.get(sessionId)!.banned)
+    .map(([sessionId, positions]) => ({
+      sessionId,
+      nickname: players.get(sessionId)!.nickname,
+      marked: positions.size,
+      toBingo: squaresToBingo([...positions]),
+    }))
+    .sort((a, b) => b.marked - a.marked || a.toBingo - b.toBingo);
+
+  return replay;
+}
+
+/**
+ * Replays a game and lists everywhere the stored game, winner and
+ * leaderboard disagree with its log, e.g. after a bug wrote something the
+ * log doesn't account for.
+ */
+export async function checkGameReplay(game: Game): Promise<GameReplayResponse> {
+  const [replay, winner, standings] = await Promise.all([
+    replayGame(game),
+    getWinner(game.gameId),
+    getStandings(game.gameId),
+  ]);
+  const differences: string[] = [];
+
+  if (replay.state !== game.state) {
+    differences.push(`The game is ${game.state}, the log says ${replay.state ?? "it was never created"}`);
+  }
+
+  if (winner?.sessionId !== replay.winner?.sessionId) {
+    differences.push(
+      `The winner is ${winner?.nickname ?? "nobody"}, the log says ${replay.winner?.nickname ?? "nobody"}`
+    );
+  } else if (winner && (winner.verdict ?? null) !== replay.winner!.verdict) {
+    differences.push(
+      `${winner.nickname}'s win is ${winner.verdict ?? "unreviewed"}, ` +
+      `the log says ${replay.winner!.verdict ?? "unreviewed"}`
+    );
+  }
+
+  const replayed = new Map(replay.standings.map((standing) => [standing.sessionId, standing]));
+
+  for (const standing of standings) {
+    const expected = replayed.get(standing.sessionId);
+
+    if (!expected) {
+      differences.push(`${standing.nickname} is on the leaderboard, the log has no card for them`);
+    } else if (expected.marked !== standing.marked) {
+      differences.push(
+        `${standing.nickname} has ${standing.marked} squares marked, the log says ${expected.marked}`
+      );
+    }
+
+    replayed.delete(standing.sessionId);
+  }
+
+  for (const missing of replayed.values()) {
+    differences.push(`${missing.nickname} is missing from the leaderboard`);
+  }
+
+  return { replay, differences };
+}
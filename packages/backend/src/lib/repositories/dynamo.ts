@@ -0,0 +1,883 @@
+import { Resource } from "sst";
+import { DynamoDBClient, ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  QueryCommandInput,
+  ScanCommand,
+  ScanCommandInput,
+  UpdateCommand,
+  DynamoDBDocumentClient,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  BingoCard,
+  Game,
+  GameState,
+  Mark,
+  Page,
+  Player,
+  Room,
+  RoomEvent,
+  SharedSnapshot,
+  Vote,
+  Winner,
+  Word,
+  WordCount,
+  WordStatus,
+} from "../types";
+import { decodeKeyCursor, encodeCursor, KeySchema } from "../pagination";
+import { PageRequest, Repositories } from "./types";
+
+const dynamoDb = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// BatchGet accepts at most 100 keys per request
+const BATCH_SIZE = 100;
+
+// Holds a room's last issued game number in the Games table, under
+// "sequence#<roomId>", outside of the room and state indexes
+const SEQUENCE_ID = "sequence";
+
+// Holds a room's last issued event number in the Events table, under
+// sequence 0, outside of the game index
+const EVENT_SEQUENCE = 0;
+
+// What the Games state index is keyed by
+function roomState(roomId: string, state: GameState) {
+  return `${roomId}#${state}`;
+}
+
+// Games are stored with their index key, which is left out again on the
+// way back
+function toGame({ roomState: _roomState, ...game }: Record<string, unknown>) {
+  return game as unknown as Game;
+}
+
+// What the Players nickname index is keyed by, so lookups ignore case
+function nicknameKey(nickname: string) {
+  return nickname.toLowerCase();
+}
+
+// Players are stored with their index key, which is left out again on the
+// way back
+function toPlayer({ nicknameKey: _nicknameKey, ...player }: Record<string, unknown>) {
+  return player as unknown as Player;
+}
+
+/**
+ * Runs a query to the end, following LastEvaluatedKey across pages.
+ */
+async function queryAll<T>(params: QueryCommandInput) {
+  const items: T[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoDb.send(new QueryCommand({ ...params, ExclusiveStartKey: startKey }));
+    items.push(...((result.Items || []) as T[]));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+/**
+ * Scans a whole table. Only for small, admin-facing tables.
+ */
+async function scanAll<T>(params: ScanCommandInput) {
+  const items: T[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoDb.send(new ScanCommand({ ...params, ExclusiveStartKey: startKey }));
+    items.push(...((result.Items || []) as T[]));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+// The keys of each index read a page at a time, see infra/storage.ts
+const PLAYERS_ROOM_KEYS: KeySchema = { sessionId: "string", roomId: "string", joinedAt: "number" };
+const GAMES_ROOM_KEYS: KeySchema = { gameId: "string", roomId: "string", gameNumber: "number" };
+const GAMES_ROOM_STATE_KEYS: KeySchema = { gameId: "string", roomState: "string", gameNumber: "number" };
+const WORDS_ROOM_KEYS: KeySchema = { wordId: "string", roomId: "string", createdAt: "number" };
+const EVENTS_GAME_KEYS: KeySchema = { roomId: "string", seq: "number", gameId: "string" };
+
+// Picks up from a cursor and hands one on, while there is more to read
+function pageParams({ limit, cursor }: PageRequest, keys: KeySchema) {
+  return { Limit: limit, ExclusiveStartKey: cursor ? decodeKeyCursor(cursor, keys) : undefined };
+}
+
+function toPage<T>(result: { Items?: unknown[]; LastEvaluatedKey?: Record<string, unknown> }): Page<T> {
+  return {
+    items: (result.Items || []) as T[],
+    cursor: result.LastEvaluatedKey && encodeCursor(result.LastEvaluatedKey),
+  };
+}
+
+/**
+ * Runs a query one page at a time. A page can come back short, or even
+ * empty, with a cursor for more.
+ */
+async function queryPage<T>(params: QueryCommandInput, page: PageRequest, keys: KeySchema) {
+  return toPage<T>(await dynamoDb.send(new QueryCommand({ ...params, ...pageParams(page, keys) })));
+}
+
+async function batchGet<T>(tableName: string, keys: Record<string, unknown>[]) {
+  const items: T[] = [];
+
+  for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+    const result = await dynamoDb.send(new BatchGetCommand({
+      RequestItems: { [tableName]: { Keys: keys.slice(i, i + BATCH_SIZE) } },
+    }));
+
+    items.push(...((result.Responses?.[tableName] || []) as T[]));
+  }
+
+  return items;
+}
+
+// Runs a conditional write, resolving to undefined when the condition fails
+async function conditional<T>(write: () => Promise<T>) {
+  try {
+    return await write();
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The parts of an UpdateCommand that set each defined field of `changes` and
+ * bump the version, on condition the item exists and its fields still match
+ * the defined ones in `expected`.
+ */
+function versionedUpdate(
+  keyName: string,
+  changes: Record<string, unknown>,
+  expected: Record<string, unknown> = {}
+) {
+  const names: Record<string, string> = { "#version": "version" };
+  const values: Record<string, unknown> = { ":zero": 0, ":one": 1 };
+  const sets = ["#version = if_not_exists(#version, :zero) + :one"];
+  const conditions = [`attribute_exists(${keyName})`];
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (value !== undefined) {
+      names[`#${field}`] = field;
+      values[`:${field}`] = value;
+      sets.push(`#${field} = :${field}`);
+    }
+  }
+
+  for (const [field, value] of Object.entries(expected)) {
+    if (value !== undefined) {
+      names[`#${field}`] = field;
+      values[`:expected_${field}`] = value;
+      conditions.push(`#${field} = :expected_${field}`);
+    }
+  }
+
+  return {
+    UpdateExpression: `SET ${sets.join(", ")}`,
+    ConditionExpression: conditions.join(" AND "),
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+  };
+}
+
+// A room's words from the room index, filtered down to a status when given
+function roomWordsQuery(roomId: string, status?: WordStatus): QueryCommandInput {
+  const params: QueryCommandInput = {
+    TableName: Resource.Words.name,
+    IndexName: "roomIndex",
+    KeyConditionExpression: "roomId = :roomId",
+    ExpressionAttributeValues: { ":roomId": roomId },
+  };
+
+  if (!status) {
+    return params;
+  }
+
+  return {
+    ...params,
+    FilterExpression: "#status = :status",
+    ExpressionAttributeNames: { "#status": "status" },
+    ExpressionAttributeValues: { ":roomId": roomId, ":status": status },
+  };
+}
+
+export function createDynamoRepositories(): Repositories {
+  return {
+    rooms: {
+      async get(roomId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Rooms.name,
+          Key: { roomId },
+        }));
+
+        return result.Item as Room | undefined;
+      },
+
+      async getByCode(roomCode) {
+        const result = await dynamoDb.send(new QueryCommand({
+          TableName: Resource.Rooms.name,
+          IndexName: "codeIndex",
+          KeyConditionExpression: "roomCode = :roomCode",
+          ExpressionAttributeValues: { ":roomCode": roomCode },
+        }));
+
+        return result.Items?.[0] as Room | undefined;
+      },
+
+      async getByPin(pin) {
+        const result = await dynamoDb.send(new QueryCommand({
+          TableName: Resource.Rooms.name,
+          IndexName: "pinIndex",
+          KeyConditionExpression: "pin = :pin",
+          ExpressionAttributeValues: { ":pin": pin },
+        }));
+
+        return result.Items?.[0] as Room | undefined;
+      },
+
+      async list() {
+        const rooms = await scanAll<Room>({ TableName: Resource.Rooms.name });
+
+        return rooms.sort((a, b) => a.name.localeCompare(b.name));
+      },
+
+      async put(room) {
+        await dynamoDb.send(new PutCommand({
+          TableName: Resource.Rooms.name,
+          Item: room,
+        }));
+      },
+
+      async update(roomId, changes, version) {
+        return conditional(async () => {
+          const result = await dynamoDb.send(new UpdateCommand({
+            TableName: Resource.Rooms.name,
+            Key: { roomId },
+            ...versionedUpdate("roomId", changes, { version }),
+            ReturnValues: "ALL_NEW",
+          }));
+
+          return result.Attributes as Room;
+        });
+      },
+    },
+
+    players: {
+      async get(sessionId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Players.name,
+          Key: { sessionId },
+        }));
+
+        return result.Item && toPlayer(result.Item);
+      },
+
+      async getMany(sessionIds) {
+        const items = await batchGet<Record<string, unknown>>(
+          Resource.Players.name,
+          sessionIds.map((sessionId) => ({ sessionId }))
+        );
+
+        return items.map(toPlayer);
+      },
+
+      async listPage(roomId, banned, page, newestFirst = false) {
+        const params: QueryCommandInput = {
+          TableName: Resource.Players.name,
+          IndexName: "roomIndex",
+          KeyConditionExpression: "roomId = :roomId",
+          ExpressionAttributeValues: { ":roomId": roomId },
+          ScanIndexForward: !newestFirst,
+        };
+
+        if (banned !== undefined) {
+          params.FilterExpression = banned ? "attribute_exists(removedAt)" : "attribute_not_exists(removedAt)";
+        }
+
+        const result = await queryPage<Record<string, unknown>>(params, page, PLAYERS_ROOM_KEYS);
+
+        return { ...result, items: result.items.map(toPlayer) };
+      },
+
+      async listByNickname(roomId, prefix) {
+        const items = await queryAll<Record<string, unknown>>({
+          TableName: Resource.Players.name,
+          IndexName: "nicknameIndex",
+          KeyConditionExpression: "roomId = :roomId AND begins_with(nicknameKey, :prefix)",
+          ExpressionAttributeValues: { ":roomId": roomId, ":prefix": nicknameKey(prefix) },
+        });
+
+        return items.map(toPlayer);
+      },
+
+      async put(player) {
+        await dynamoDb.send(new PutCommand({
+          TableName: Resource.Players.name,
+          Item: { ...player, nicknameKey: nicknameKey(player.nickname) },
+        }));
+      },
+
+      async update(sessionId, changes, version) {
+        const keyed = changes.nickname ? { ...changes, nicknameKey: nicknameKey(changes.nickname) } : changes;
+
+        return conditional(async () => {
+          const result = await dynamoDb.send(new UpdateCommand({
+            TableName: Resource.Players.name,
+            Key: { sessionId },
+            ...versionedUpdate("sessionId", keyed, { version }),
+            ReturnValues: "ALL_NEW",
+          }));
+
+          return toPlayer(result.Attributes!);
+        });
+      },
+    },
+
+    nicknames: {
+      async claim(roomId, nickname, sessionId) {
+        const claimed = await conditional(async () => {
+          await dynamoDb.send(new PutCommand({
+            TableName: Resource.Nicknames.name,
+            Item: { roomId, nicknameKey: nicknameKey(nickname), sessionId },
+            // Claiming it again is fine
+            ConditionExpression: "attribute_not_exists(roomId) OR sessionId = :sessionId",
+            ExpressionAttributeValues: { ":sessionId": sessionId },
+          }));
+
+          return true;
+        });
+
+        return claimed ?? false;
+      },
+
+      async release(roomId, nickname, sessionId) {
+        await conditional(() => dynamoDb.send(new DeleteCommand({
+          TableName: Resource.Nicknames.name,
+          Key: { roomId, nicknameKey: nicknameKey(nickname) },
+          ConditionExpression: "sessionId = :sessionId",
+          ExpressionAttributeValues: { ":sessionId": sessionId },
+        })));
+      },
+    },
+
+    games: {
+      async get(gameId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Games.name,
+          Key: { gameId },
+        }));
+
+        return result.Item && toGame(result.Item);
+      },
+
+      async listByState(roomId, state, limit, newestFirst = false) {
+        const params: QueryCommandInput = {
+          TableName: Resource.Games.name,
+          IndexName: "roomStateIndex",
+          KeyConditionExpression: "roomState = :roomState",
+          ExpressionAttributeValues: { ":roomState": roomState(roomId, state) },
+          ScanIndexForward: !newestFirst,
+        };
+
+        if (limit === undefined) {
+          return (await queryAll<Record<string, unknown>>(params)).map(toGame);
+        }
+
+        const result = await dynamoDb.send(new QueryCommand({ ...params, Limit: limit }));
+
+        return (result.Items || []).map(toGame);
+      },
+
+      async listPage(roomId, state, page, newestFirst = false) {
+        const { items, cursor } = state
+          ? await queryPage<Record<string, unknown>>({
+            TableName: Resource.Games.name,
+            IndexName: "roomStateIndex",
+            KeyConditionExpression: "roomState = :roomState",
+            ExpressionAttributeValues: { ":roomState": roomState(roomId, state) },
+            ScanIndexForward: !newestFirst,
+          }, page, GAMES_ROOM_STATE_KEYS)
+          : await queryPage<Record<string, unknown>>({
+            TableName: Resource.Games.name,
+            IndexName: "roomIndex",
+            KeyConditionExpression: "roomId = :roomId",
+            ExpressionAttributeValues: { ":roomId": roomId },
+            ScanIndexForward: !newestFirst,
+          }, page, GAMES_ROOM_KEYS);
+
+        return { items: items.map(toGame), cursor };
+      },
+
+      async nextGameNumber(roomId) {
+        const result = await dynamoDb.send(new UpdateCommand({
+          TableName: Resource.Games.name,
+          Key: { gameId: `${SEQUENCE_ID}#${roomId}` },
+          UpdateExpression: "ADD lastGameNumber :one",
+          ExpressionAttributeValues: { ":one": 1 },
+          ReturnValues: "UPDATED_NEW",
+        }));
+
+        return result.Attributes?.lastGameNumber as number;
+      },
+
+      async create(game) {
+        const created = await conditional(async () => {
+          await dynamoDb.send(new PutCommand({
+            TableName: Resource.Games.name,
+            Item: { ...game, roomState: roomState(game.roomId, game.state) },
+            ConditionExpression: "attribute_not_exists(gameId)",
+          }));
+
+          return true;
+        });
+
+        return created ?? false;
+      },
+
+      async changeState(gameId, { roomId, from, transition, celebrationEndsAt, version }) {
+        const values: Record<string, unknown> = {
+          ":from": from,
+          ":to": transition.to,
+          ":roomState": roomState(roomId, transition.to),
+          ":now": transition.at,
+          ":transition": [transition],
+          ":zero": 0,
+          ":one": 1,
+        };
+        let update = "SET #state = :to, roomState = :roomState, updatedAt = :now, history = list_append(history, :transition), " +
+          "#version = if_not_exists(#version, :zero) + :one";
+        let condition = "#state = :from";
+
+        if (version !== undefined) {
+          condition += " AND #version = :version";
+          values[":version"] = version;
+        }
+
+        if (typeof celebrationEndsAt === "number") {
+          update += ", celebrationEndsAt = :celebrationEndsAt";
+          values[":celebrationEndsAt"] = celebrationEndsAt;
+        } else if (celebrationEndsAt === null) {
+          update += " REMOVE celebrationEndsAt";
+        }
+
+        return conditional(async () => {
+          const result = await dynamoDb.send(new UpdateCommand({
+            TableName: Resource.Games.name,
+            Key: { gameId },
+            UpdateExpression: update,
+            ConditionExpression: condition,
+            ExpressionAttributeNames: { "#state": "state", "#version": "version" },
+            ExpressionAttributeValues: values,
+            ReturnValues: "ALL_NEW",
+          }));
+
+          return toGame(result.Attributes!);
+        });
+      },
+    },
+
+    cards: {
+      async get(gameId, sessionId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Cards.name,
+          Key: { gameId, sessionId },
+        }));
+
+        return result.Item as BingoCard | undefined;
+      },
+
+      async listSessionIds(gameId) {
+        const cards = await queryAll<BingoCard>({
+          TableName: Resource.Cards.name,
+          KeyConditionExpression: "gameId = :gameId",
+          ExpressionAttributeValues: { ":gameId": gameId },
+          ProjectionExpression: "sessionId",
+        });
+
+        return cards.map((card) => card.sessionId);
+      },
+
+      async create(card) {
+        const created = await conditional(async () => {
+          await dynamoDb.send(new PutCommand({
+            TableName: Resource.Cards.name,
+            Item: card,
+            ConditionExpression: "attribute_not_exists(sessionId)",
+          }));
+
+          return true;
+        });
+
+        return created ?? false;
+      },
+    },
+
+    marks: {
+      async listByGame(gameId) {
+        return queryAll<Mark>({
+          TableName: Resource.Marks.name,
+          KeyConditionExpression: "gameId = :gameId",
+          ExpressionAttributeValues: { ":gameId": gameId },
+        });
+      },
+
+      async listByPlayer(gameId, sessionId) {
+        return queryAll<Mark>({
+          TableName: Resource.Marks.name,
+          KeyConditionExpression: "gameId = :gameId AND begins_with(markId, :prefix)",
+          ExpressionAttributeValues: {
+            ":gameId": gameId,
+            ":prefix": `${sessionId}#`,
+          },
+        });
+      },
+
+      async create(mark) {
+        const created = await conditional(async () => {
+          await dynamoDb.send(new PutCommand({
+            TableName: Resource.Marks.name,
+            Item: mark,
+            ConditionExpression: "attribute_not_exists(markId)",
+          }));
+
+          return true;
+        });
+
+        return created ?? false;
+      },
+
+      async delete(gameId, markId) {
+        const result = await dynamoDb.send(new DeleteCommand({
+          TableName: Resource.Marks.name,
+          Key: { gameId, markId },
+          ReturnValues: "ALL_OLD",
+        }));
+
+        return result.Attributes as Mark | undefined;
+      },
+    },
+
+    words: {
+      async get(wordId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Words.name,
+          Key: { wordId },
+        }));
+
+        return result.Item as Word | undefined;
+      },
+
+      async list(roomId, status) {
+        return queryAll<Word>(roomWordsQuery(roomId, status));
+      },
+
+      async listPage(roomId, status, page, newestFirst = false) {
+        return queryPage<Word>({ ...roomWordsQuery(roomId, status), ScanIndexForward: !newestFirst }, page, WORDS_ROOM_KEYS);
+      },
+
+      async put(word) {
+        await dynamoDb.send(new PutCommand({
+          TableName: Resource.Words.name,
+          Item: word,
+        }));
+      },
+
+      async update(wordId, changes, expected = {}) {
+        return conditional(async () => {
+          const result = await dynamoDb.send(new UpdateCommand({
+            TableName: Resource.Words.name,
+            Key: { wordId },
+            ...versionedUpdate("wordId", changes, { ...expected }),
+            ReturnValues: "ALL_NEW",
+          }));
+
+          return result.Attributes as Word;
+        });
+      },
+
+      async addVote(wordId, updatedAt) {
+        const result = await dynamoDb.send(new UpdateCommand({
+          TableName: Resource.Words.name,
+          Key: { wordId },
+          UpdateExpression: "ADD votes :one SET updatedAt = :now",
+          ExpressionAttributeValues: { ":one": 1, ":now": updatedAt },
+          ReturnValues: "ALL_NEW",
+        }));
+
+        return result.Attributes as Word;
+      },
+    },
+
+    votes: {
+      async create(vote) {
+        const created = await conditional(async () => {
+          await dynamoDb.send(new PutCommand({
+            TableName: Resource.Votes.name,
+            Item: vote,
+            ConditionExpression: "attribute_not_exists(sessionId)",
+          }));
+
+          return true;
+        });
+
+        return created ?? false;
+      },
+
+      async listVoted(wordIds, sessionId) {
+        const votes = await batchGet<Vote>(
+          Resource.Votes.name,
+          wordIds.map((wordId) => ({ wordId, sessionId }))
+        );
+
+        return new Set(votes.map((vote) => vote.wordId));
+      },
+
+      async list(wordId) {
+        return queryAll<Vote>({
+          TableName: Resource.Votes.name,
+          KeyConditionExpression: "wordId = :wordId",
+          ExpressionAttributeValues: { ":wordId": wordId },
+        });
+      },
+    },
+
+    winners: {
+      async get(gameId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Winners.name,
+          Key: { gameId },
+        }));
+
+        return result.Item as Winner | undefined;
+      },
+
+      async create(winner) {
+        const created = await conditional(async () => {
+          await dynamoDb.send(new PutCommand({
+            TableName: Resource.Winners.name,
+            Item: winner,
+            ConditionExpression: "attribute_not_exists(gameId)",
+          }));
+
+          return true;
+        });
+
+        return created ?? false;
+      },
+
+      async delete(gameId) {
+        await dynamoDb.send(new DeleteCommand({
+          TableName: Resource.Winners.name,
+          Key: { gameId },
+        }));
+      },
+
+      async saveEvidence(gameId, sessionId, evidence) {
+        return conditional(async () => {
+          const result = await dynamoDb.send(new UpdateCommand({
+            TableName: Resource.Winners.name,
+            Key: { gameId },
+            UpdateExpression: "SET evidence = :evidence",
+            ConditionExpression: "sessionId = :sessionId AND attribute_not_exists(verdict)",
+            ExpressionAttributeValues: { ":evidence": evidence, ":sessionId": sessionId },
+            ReturnValues: "ALL_NEW",
+          }));
+
+          return result.Attributes as Winner;
+        });
+      },
+
+      async setVerdict(gameId, verdict, reviewedBy, reviewedAt) {
+        return conditional(async () => {
+          const result = await dynamoDb.send(new UpdateCommand({
+            TableName: Resource.Winners.name,
+            Key: { gameId },
+            UpdateExpression: "SET verdict = :verdict, reviewedBy = :reviewedBy, reviewedAt = :now",
+            ConditionExpression: "attribute_exists(gameId)",
+            ExpressionAttributeValues: {
+              ":verdict": verdict,
+              ":reviewedBy": reviewedBy,
+              ":now": reviewedAt,
+            },
+            ReturnValues: "ALL_NEW",
+          }));
+
+          return result.Attributes as Winner;
+        });
+      },
+
+      async list(review, roomId) {
+        const conditions = [review === "unreviewed" ? "attribute_not_exists(verdict)" : "verdict = :verdict"];
+        const values: Record<string, unknown> = {};
+
+        if (review !== "unreviewed") {
+          values[":verdict"] = review;
+        }
+
+        if (roomId) {
+          conditions.push("roomId = :roomId");
+          values[":roomId"] = roomId;
+        }
+
+        return scanAll<Winner>({
+          TableName: Resource.Winners.name,
+          FilterExpression: conditions.join(" AND "),
+          ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined,
+        });
+      },
+
+      async listBySession(sessionId) {
+        return queryAll<Winner>({
+          TableName: Resource.Winners.name,
+          IndexName: "sessionIndex",
+          KeyConditionExpression: "sessionId = :sessionId",
+          ExpressionAttributeValues: { ":sessionId": sessionId },
+          ScanIndexForward: false,
+        });
+      },
+    },
+
+    wordCounts: {
+      async add(scope, word, by, expiresAt) {
+        await dynamoDb.send(new UpdateCommand({
+          TableName: Resource.WordCounts.name,
+          Key: { scope, word },
+          UpdateExpression: expiresAt === undefined
+            ? "ADD #count :by"
+            : "ADD #count :by SET expiresAt = if_not_exists(expiresAt, :expiresAt)",
+          ExpressionAttributeNames: { "#count": "count" },
+          ExpressionAttributeValues: expiresAt === undefined
+            ? { ":by": by }
+            : { ":by": by, ":expiresAt": expiresAt },
+        }));
+      },
+
+      async list(scope) {
+        const counts = await queryAll<WordCount & { scope: string }>({
+          TableName: Resource.WordCounts.name,
+          KeyConditionExpression: "#scope = :scope",
+          ExpressionAttributeNames: { "#scope": "scope" },
+          ExpressionAttributeValues: { ":scope": scope },
+        });
+
+        return counts.map(({ word, count }) => ({ word, count }));
+      },
+    },
+
+    events: {
+      async append(event) {
+        const result = await dynamoDb.send(new UpdateCommand({
+          TableName: Resource.Events.name,
+          Key: { roomId: event.roomId, seq: EVENT_SEQUENCE },
+          UpdateExpression: "ADD lastSeq :one",
+          ExpressionAttributeValues: { ":one": 1 },
+          ReturnValues: "UPDATED_NEW",
+        }));
+        const logged = { ...event, seq: result.Attributes?.lastSeq as number } as RoomEvent;
+
+        // Never overwrites, the log is append-only
+        await dynamoDb.send(new PutCommand({
+          TableName: Resource.Events.name,
+          Item: logged,
+          ConditionExpression: "attribute_not_exists(seq)",
+        }));
+
+        return logged;
+      },
+
+      async latestSeq(roomId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Events.name,
+          Key: { roomId, seq: EVENT_SEQUENCE },
+        }));
+
+        return (result.Item?.lastSeq as number | undefined) ?? 0;
+      },
+
+      async listByRoom(roomId, afterSeq = EVENT_SEQUENCE) {
+        return queryAll<RoomEvent>({
+          TableName: Resource.Events.name,
+          KeyConditionExpression: "roomId = :roomId AND seq > :after",
+          ExpressionAttributeValues: { ":roomId": roomId, ":after": afterSeq },
+        });
+      },
+
+      async listPageByGame(gameId, page) {
+        return queryPage<RoomEvent>({
+          TableName: Resource.Events.name,
+          IndexName: "gameIndex",
+          KeyConditionExpression: "gameId = :gameId",
+          ExpressionAttributeValues: { ":gameId": gameId },
+        }, page, EVENTS_GAME_KEYS);
+      },
+    },
+
+    snapshots: {
+      async get(gameId) {
+        const result = await dynamoDb.send(new GetCommand({
+          TableName: Resource.Snapshots.name,
+          Key: { gameId },
+        }));
+
+        // Locking a game that has no snapshot yet leaves just the lock
+        if (!result.Item?.snapshot) {
+          return undefined;
+        }
+
+        const { lockedUntil: _lockedUntil, ...shared } = result.Item;
+
+        return shared as SharedSnapshot;
+      },
+
+      async lock(gameId, now, until) {
+        const locked = await conditional(async () => {
+          await dynamoDb.send(new UpdateCommand({
+            TableName: Resource.Snapshots.name,
+            Key: { gameId },
+            UpdateExpression: "SET lockedUntil = :until",
+            ConditionExpression: "attribute_not_exists(lockedUntil) OR lockedUntil < :now",
+            ExpressionAttributeValues: { ":until": until, ":now": now },
+          }));
+
+          return true;
+        });
+
+        return locked ?? false;
+      },
+
+      async put(shared) {
+        // Replacing the item drops the lock
+        await conditional(() => dynamoDb.send(new PutCommand({
+          TableName: Resource.Snapshots.name,
+          Item: shared,
+          ConditionExpression: "attribute_not_exists(seq) OR seq <= :seq",
+          ExpressionAttributeValues: { ":seq": shared.seq },
+        })));
+      },
+    },
+
+    rateLimits: {
+      async increment(limitKey, expiresAt) {
+        const result = await dynamoDb.send(new UpdateCommand({
+          TableName: Resource.RateLimits.name,
+          Key: { limitKey },
+          UpdateExpression: "ADD requests :one SET expiresAt = if_not_exists(expiresAt, :expiresAt)",
+          ExpressionAttributeValues: { ":one": 1, ":expiresAt": expiresAt },
+          ReturnValues: "UPDATED_NEW",
+        }));
+
+        return result.Attributes?.requests as number;
+      },
+    },
+  };
+}
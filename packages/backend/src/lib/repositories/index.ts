@@ -0,0 +1,24 @@
+import { createDynamoRepositories } from "./dynamo";
+import { Repositories } from "./types";
+
+export * from "./types";
+export { createDynamoRepositories } from "./dynamo";
+export { createMemoryRepositories } from "./memory";
+
+let current: Repositories | undefined;
+
+/**
+ * The storage the game rules run against, the DynamoDB tables unless
+ * something else was set.
+ */
+export function repositories() {
+  return (current ??= createDynamoRepositories());
+}
+
+/**
+ * Swaps the storage out, e.g. for the in-memory repositories when running
+ * the game without AWS.
+ */
+export function setRepositories(repositories: Repositories) {
+  current = repositories;
+}
@@ -0,0 +1,486 @@
+import {
+  BingoCard,
+  Game,
+  GameState,
+  Mark,
+  Player,
+  Room,
+  RoomEvent,
+  SharedSnapshot,
+  Vote,
+  Winner,
+  Word,
+  WordCount,
+} from "../types";
+import { paginate } from "../pagination";
+import { Repositories } from "./types";
+
+// Items are copied in and out, so callers can't change what's stored by
+// holding on to a reference, the same as with a real table
+function copy<T>(item: T): T {
+  return structuredClone(item);
+}
+
+// Past its `expiresAt`, in epoch seconds like DynamoDB's TTL attribute
+function isExpired(item: { expiresAt?: number }) {
+  return item.expiresAt !== undefined && item.expiresAt * 1000 <= Date.now();
+}
+
+// Leaves out undefined fields, which an update doesn't change
+function defined<T extends object>(changes: T) {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+class Table<T> {
+  private items = new Map<string, T>();
+
+  get(key: string) {
+    const item = this.items.get(key);
+
+    return item === undefined ? undefined : copy(item);
+  }
+
+  put(key: string, item: T) {
+    this.items.set(key, copy(item));
+  }
+
+  // Only puts the item when there is nothing stored under the key yet
+  create(key: string, item: T) {
+    if (this.items.has(key)) {
+      return false;
+    }
+
+    this.put(key, item);
+    return true;
+  }
+
+  // Applies a change to a stored item, undefined when there is none or
+  // `condition` rejects it
+  update(key: string, change: (item: T) => T, condition: (item: T) => boolean = () => true) {
+    const item = this.get(key);
+
+    if (item === undefined || !condition(item)) {
+      return undefined;
+    }
+
+    const updated = change(item);
+    this.put(key, updated);
+
+    return copy(updated);
+  }
+
+  delete(key: string) {
+    this.items.delete(key);
+  }
+
+  deleteWhere(predicate: (item: T) => boolean) {
+    for (const [key, item] of this.items) {
+      if (predicate(item)) {
+        this.items.delete(key);
+      }
+    }
+  }
+
+  filter(predicate: (item: T) => boolean = () => true) {
+    return [...this.items.values()].filter(predicate).map(copy);
+  }
+}
+
+/**
+ * Repositories that keep everything in process memory, for exercising the
+ * game rules without AWS. Each call starts from empty tables.
+ */
+export function createMemoryRepositories(): Repositories {
+  const rooms = new Table<Room>();
+  const players = new Table<Player>();
+  const nicknames = new Table<{ sessionId: string }>();
+  const games = new Table<Game>();
+  const cards = new Table<BingoCard>();
+  const marks = new Table<Mark>();
+  const words = new Table<Word>();
+  const votes = new Table<Vote>();
+  const winners = new Table<Winner>();
+  const wordCounts = new Table<WordCount & { scope: string; expiresAt?: number }>();
+  const events = new Table<RoomEvent>();
+  const snapshots = new Table<SharedSnapshot>();
+  const snapshotLocks = new Map<string, number>();
+  const rateLimits = new Table<{ requests: number; expiresAt: number }>();
+  const lastGameNumbers = new Map<string, number>();
+  const lastSeqs = new Map<string, number>();
+
+  // Ordered like the room and state indexes, by game number
+  function roomGames(roomId: string, state: GameState | undefined, newestFirst: boolean) {
+    return games
+      .filter((game) => game.roomId === roomId && (!state || game.state === state))
+      .sort((a, b) => (newestFirst ? b.gameNumber - a.gameNumber : a.gameNumber - b.gameNumber));
+  }
+
+  return {
+    rooms: {
+      async get(roomId) {
+        return rooms.get(roomId);
+      },
+
+      async getByCode(roomCode) {
+        return rooms.filter((room) => room.roomCode === roomCode)[0];
+      },
+
+      async getByPin(pin) {
+        return rooms.filter((room) => room.pin === pin)[0];
+      },
+
+      async list() {
+        return rooms.filter().sort((a, b) => a.name.localeCompare(b.name));
+      },
+
+      async put(room) {
+        rooms.put(room.roomId, room);
+      },
+
+      async update(roomId, changes, version) {
+        return rooms.update(
+          roomId,
+          (room) => ({ ...room, ...defined(changes), version: room.version + 1 }),
+          (room) => version === undefined || room.version === version
+        );
+      },
+    },
+
+    players: {
+      async get(sessionId) {
+        return players.get(sessionId);
+      },
+
+      async getMany(sessionIds) {
+        const wanted = new Set(sessionIds);
+
+        return players.filter((player) => wanted.has(player.sessionId));
+      },
+
+      async listPage(roomId, banned, page, newestFirst = false) {
+        // Ordered like the room index, by when they joined
+        const sorted = players
+          .filter((player) => player.roomId === roomId && (banned === undefined || !!player.removedAt === banned))
+          .sort((a, b) => (newestFirst ? b.joinedAt - a.joinedAt : a.joinedAt - b.joinedAt));
+
+        return paginate(sorted, page);
+      },
+
+      async listByNickname(roomId, prefix) {
+        return players.filter(
+          (player) => player.roomId === roomId && player.nickname.toLowerCase().startsWith(prefix.toLowerCase())
+        );
+      },
+
+      async put(player) {
+        players.put(player.sessionId, player);
+      },
+
+      async update(sessionId, changes, version) {
+        return players.update(
+          sessionId,
+          (player) => ({ ...player, ...defined(changes), version: (player.version || 0) + 1 }),
+          (player) => version === undefined || player.version === version
+        );
+      },
+    },
+
+    nicknames: {
+      async claim(roomId, nickname, sessionId) {
+        const key = `${roomId}/${nickname.toLowerCase()}`;
+        const holder = nicknames.get(key);
+
+        if (holder && holder.sessionId !== sessionId) {
+          return false;
+        }
+
+        nicknames.put(key, { sessionId });
+        return true;
+      },
+
+      async release(roomId, nickname, sessionId) {
+        const key = `${roomId}/${nickname.toLowerCase()}`;
+
+        if (nicknames.get(key)?.sessionId === sessionId) {
+          nicknames.delete(key);
+        }
+      },
+    },
+
+    games: {
+      async get(gameId) {
+        return games.get(gameId);
+      },
+
+      async listByState(roomId, state, limit, newestFirst = false) {
+        return roomGames(roomId, state, newestFirst).slice(0, limit);
+      },
+
+      async listPage(roomId, state, page, newestFirst = false) {
+        return paginate(roomGames(roomId, state, newestFirst), page);
+      },
+
+      async nextGameNumber(roomId) {
+        const gameNumber = (lastGameNumbers.get(roomId) || 0) + 1;
+
+        lastGameNumbers.set(roomId, gameNumber);
+        return gameNumber;
+      },
+
+      async create(game) {
+        return games.create(game.gameId, game);
+      },
+
+      async changeState(gameId, { from, transition, celebrationEndsAt, version }) {
+        return games.update(
+          gameId,
+          (game) => {
+            const changed: Game = {
+              ...game,
+              state: transition.to,
+              updatedAt: transition.at,
+              history: [...game.history, transition],
+              version: (game.version || 0) + 1,
+            };
+
+            if (typeof celebrationEndsAt === "number") {
+              changed.celebrationEndsAt = celebrationEndsAt;
+            } else if (celebrationEndsAt === null) {
+              delete changed.celebrationEndsAt;
+            }
+
+            return changed;
+          },
+          (game) => game.state === from && (version === undefined || game.version === version)
+        );
+      },
+    },
+
+    cards: {
+      async get(gameId, sessionId) {
+        return cards.get(`${gameId}/${sessionId}`);
+      },
+
+      async listSessionIds(gameId) {
+        return cards.filter((card) => card.gameId === gameId).map((card) => card.sessionId);
+      },
+
+      async create(card) {
+        return cards.create(`${card.gameId}/${card.sessionId}`, card);
+      },
+    },
+
+    marks: {
+      async listByGame(gameId) {
+        return marks.filter((mark) => mark.gameId === gameId);
+      },
+
+      async listByPlayer(gameId, sessionId) {
+        return marks.filter((mark) => mark.gameId === gameId && mark.sessionId === sessionId);
+      },
+
+      async create(mark) {
+        return marks.create(`${mark.gameId}/${mark.markId}`, mark);
+      },
+
+      async delete(gameId, markId) {
+        const mark = marks.get(`${gameId}/${markId}`);
+
+        marks.delete(`${gameId}/${markId}`);
+        return mark;
+      },
+    },
+
+    words: {
+      async get(wordId) {
+        return words.get(wordId);
+      },
+
+      async list(roomId, status) {
+        return words.filter((word) => word.roomId === roomId && (!status || word.status === status));
+      },
+
+      async listPage(roomId, status, page, newestFirst = false) {
+        // Ordered like the room index, by when they were created
+        const sorted = words
+          .filter((word) => word.roomId === roomId && (!status || word.status === status))
+          .sort((a, b) => (newestFirst ? b.createdAt - a.createdAt : a.createdAt - b.createdAt));
+
+        return paginate(sorted, page);
+      },
+
+      async put(word) {
+        words.put(word.wordId, word);
+      },
+
+      async update(wordId, changes, { version, status } = {}) {
+        return words.update(
+          wordId,
+          (word) => ({ ...word, ...defined(changes), version: (word.version || 0) + 1 }),
+          (word) =>
+            (version === undefined || word.version === version) &&
+            (status === undefined || word.status === status)
+        );
+      },
+
+      async addVote(wordId, updatedAt) {
+        const voted = words.update(wordId, (word) => ({
+          ...word,
+          votes: (word.votes || 0) + 1,
+          updatedAt,
+        }));
+
+        // DynamoDB's ADD creates a missing item, but votes only ever follow a get
+        if (!voted) {
+          throw new Error(`Word ${wordId} does not exist`);
+        }
+
+        return voted;
+      },
+    },
+
+    votes: {
+      async create(vote) {
+        return votes.create(`${vote.wordId}/${vote.sessionId}`, vote);
+      },
+
+      async listVoted(wordIds, sessionId) {
+        const wanted = new Set(wordIds);
+        const voted = votes.filter((vote) => vote.sessionId === sessionId && wanted.has(vote.wordId));
+
+        return new Set(voted.map((vote) => vote.wordId));
+      },
+
+      async list(wordId) {
+        return votes.filter((vote) => vote.wordId === wordId);
+      },
+    },
+
+    winners: {
+      async get(gameId) {
+        return winners.get(gameId);
+      },
+
+      async create(winner) {
+        return winners.create(winner.gameId, winner);
+      },
+
+      async delete(gameId) {
+        winners.delete(gameId);
+      },
+
+      async saveEvidence(gameId, sessionId, evidence) {
+        return winners.update(
+          gameId,
+          (winner) => ({ ...winner, evidence }),
+          (winner) => winner.sessionId === sessionId && !winner.verdict
+        );
+      },
+
+      async setVerdict(gameId, verdict, reviewedBy, reviewedAt) {
+        return winners.update(gameId, (winner) => ({ ...winner, verdict, reviewedBy, reviewedAt }));
+      },
+
+      async list(review, roomId) {
+        return winners.filter(
+          (winner) =>
+            (winner.verdict || "unreviewed") === review && (!roomId || winner.roomId === roomId)
+        );
+      },
+
+      async listBySession(sessionId) {
+        return winners
+          .filter((winner) => winner.sessionId === sessionId)
+          .sort((a, b) => b.wonAt - a.wonAt);
+      },
+    },
+
+    wordCounts: {
+      // Expired counts go straight away, rather than whenever DynamoDB gets
+      // round to it, so a long-running local server doesn't keep every minute
+      async add(scope, word, by, expiresAt) {
+        wordCounts.deleteWhere(isExpired);
+
+        const key = `${scope}/${word}`;
+        const counted = wordCounts.get(key) || { scope, word, count: 0, expiresAt };
+
+        counted.count += by;
+        wordCounts.put(key, counted);
+      },
+
+      async list(scope) {
+        return wordCounts
+          .filter((counted) => counted.scope === scope)
+          .map(({ word, count }) => ({ word, count }));
+      },
+    },
+
+    events: {
+      async append(event) {
+        const seq = (lastSeqs.get(event.roomId) || 0) + 1;
+        const logged = { ...event, seq } as RoomEvent;
+
+        lastSeqs.set(event.roomId, seq);
+        events.create(`${event.roomId}/${seq}`, logged);
+
+        return logged;
+      },
+
+      async latestSeq(roomId) {
+        return lastSeqs.get(roomId) || 0;
+      },
+
+      async listByRoom(roomId, afterSeq = 0) {
+        return events
+          .filter((event) => event.roomId === roomId && event.seq > afterSeq)
+          .sort((a, b) => a.seq - b.seq);
+      },
+
+      async listPageByGame(gameId, page) {
+        return paginate(
+          events.filter((event) => event.gameId === gameId).sort((a, b) => a.seq - b.seq),
+          page
+        );
+      },
+    },
+
+    snapshots: {
+      async get(gameId) {
+        return snapshots.get(gameId);
+      },
+
+      async lock(gameId, now, until) {
+        if ((snapshotLocks.get(gameId) ?? 0) >= now) {
+          return false;
+        }
+
+        snapshotLocks.set(gameId, until);
+        return true;
+      },
+
+      async put(shared) {
+        snapshotLocks.delete(shared.gameId);
+
+        if ((snapshots.get(shared.gameId)?.seq ?? -1) <= shared.seq) {
+          snapshots.put(shared.gameId, shared);
+        }
+      },
+    },
+
+    rateLimits: {
+      async increment(limitKey, expiresAt) {
+        // Keys are per window, so an expired counter is never counted again
+        rateLimits.deleteWhere(isExpired);
+
+        const counter = rateLimits.get(limitKey) || { requests: 0, expiresAt };
+
+        counter.requests++;
+        rateLimits.put(limitKey, counter);
+
+        return counter.requests;
+      },
+    },
+  };
+}
@@ -0,0 +1,226 @@
+import {
+  BingoCard,
+  Evidence,
+  Game,
+  GameState,
+  GameTransition,
+  Mark,
+  NewRoomEvent,
+  Page,
+  Player,
+  ReviewStatus,
+  Room,
+  RoomEvent,
+  SharedSnapshot,
+  Vote,
+  Winner,
+  WinnerVerdict,
+  Word,
+  WordCount,
+  WordStatus,
+} from "../types";
+
+/*
+ * The storage the game rules run against. Conditional writes never throw
+ * when their condition fails, they return `undefined` (or `false`) and the
+ * caller decides whether that's an error, so every implementation behaves
+ * the same way.
+ *
+ * Updates bump the item's version, and only apply while it's still at
+ * `version` when one is given.
+ */
+
+export interface PageRequest {
+  limit: number;
+  // From the previous page, see lib/pagination.ts
+  cursor?: string;
+}
+
+export interface RoomRepository {
+  get(roomId: string): Promise<Room | undefined>;
+  getByCode(roomCode: string): Promise<Room | undefined>;
+  getByPin(pin: string): Promise<Room | undefined>;
+  // Every room, by name
+  list(): Promise<Room[]>;
+  put(room: Room): Promise<void>;
+  // Undefined when there is no such room, or it has changed since `version`
+  update(roomId: string, changes: RoomChanges, version?: number): Promise<Room | undefined>;
+}
+
+export type RoomChanges = Partial<Pick<Room, "name" | "pin" | "pinExpiresAt" | "linksRevokedAt">> & { updatedAt: number };
+
+export interface PlayerRepository {
+  get(sessionId: string): Promise<Player | undefined>;
+  // Missing sessions are left out
+  getMany(sessionIds: string[]): Promise<Player[]>;
+  // By when they joined, only banned players or only the rest if `banned`
+  // is given
+  listPage(roomId: string, banned: boolean | undefined, page: PageRequest, newestFirst?: boolean): Promise<Page<Player>>;
+  // Players in the room whose nickname starts with `prefix`, ignoring case
+  listByNickname(roomId: string, prefix: string): Promise<Player[]>;
+  put(player: Player): Promise<void>;
+  // Undefined when there is no such player, or it has changed since `version`
+  update(sessionId: string, changes: PlayerChanges, version?: number): Promise<Player | undefined>;
+}
+
+// Who holds each nickname in a room, ignoring case, so two players joining
+// at once can't both take it
+export interface NicknameRepository {
+  // False when another session holds the nickname
+  claim(roomId: string, nickname: string, sessionId: string): Promise<boolean>;
+  // Only lets go of a nickname the session still holds
+  release(roomId: string, nickname: string, sessionId: string): Promise<void>;
+}
+
+export type PlayerChanges = Partial<Pick<Player, "nickname" | "removedAt">>;
+
+export interface GameStateChange {
+  // The game's room, which the state index is keyed by
+  roomId: string;
+  // The state the game has to still be in for the change to apply
+  from: GameState;
+  transition: GameTransition;
+  // Null clears it
+  celebrationEndsAt?: number | null;
+  // Games from before versions were added have none to check
+  version?: number;
+}
+
+export interface GameRepository {
+  get(gameId: string): Promise<Game | undefined>;
+  // A room's games in a state, oldest first unless `newestFirst` is set
+  listByState(roomId: string, state: GameState, limit?: number, newestFirst?: boolean): Promise<Game[]>;
+  // Ordered by game number, only games in `state` when it's given
+  listPage(
+    roomId: string,
+    state: GameState | undefined,
+    page: PageRequest,
+    newestFirst?: boolean
+  ): Promise<Page<Game>>;
+  // Issues each room's game numbers in order, starting at 1
+  nextGameNumber(roomId: string): Promise<number>;
+  // False when a game with the same id already exists
+  create(game: Game): Promise<boolean>;
+  // Undefined when the game has moved on from `change.from`
+  changeState(gameId: string, change: GameStateChange): Promise<Game | undefined>;
+}
+
+export interface CardRepository {
+  get(gameId: string, sessionId: string): Promise<BingoCard | undefined>;
+  // The sessions holding a card for the game
+  listSessionIds(gameId: string): Promise<string[]>;
+  // False when the player already has a card for the game
+  create(card: BingoCard): Promise<boolean>;
+}
+
+export interface MarkRepository {
+  listByGame(gameId: string): Promise<Mark[]>;
+  listByPlayer(gameId: string, sessionId: string): Promise<Mark[]>;
+  // False when the square was already marked
+  create(mark: Mark): Promise<boolean>;
+  // The mark taken off, undefined when the square wasn't marked
+  delete(gameId: string, markId: string): Promise<Mark | undefined>;
+}
+
+export interface WordRepository {
+  get(wordId: string): Promise<Word | undefined>;
+  // A room's words, all of them when no status is given
+  list(roomId: string, status?: WordStatus): Promise<Word[]>;
+  // Ordered by when they were created. Filtering by status can leave pages
+  // short, with a cursor for more
+  listPage(
+    roomId: string,
+    status: WordStatus | undefined,
+    page: PageRequest,
+    newestFirst?: boolean
+  ): Promise<Page<Word>>;
+  put(word: Word): Promise<void>;
+  // Undefined when there is no such word, or it doesn't match `expected`
+  update(wordId: string, changes: WordChanges, expected?: WordExpectation): Promise<Word | undefined>;
+  addVote(wordId: string, updatedAt: number): Promise<Word>;
+}
+
+export type WordChanges = Partial<Pick<Word, "text" | "status">> & { updatedAt: number };
+
+export interface WordExpectation {
+  version?: number;
+  status?: WordStatus;
+}
+
+export interface VoteRepository {
+  // False when the session already voted for the word
+  create(vote: Vote): Promise<boolean>;
+  // The words among `wordIds` the session voted for
+  listVoted(wordIds: string[], sessionId: string): Promise<Set<string>>;
+  // Every vote for a word, in no particular order
+  list(wordId: string): Promise<Vote[]>;
+}
+
+export interface WinnerRepository {
+  get(gameId: string): Promise<Winner | undefined>;
+  // False when the game already has a winner
+  create(winner: Winner): Promise<boolean>;
+  delete(gameId: string): Promise<void>;
+  // Undefined unless the win is the session's and still unreviewed
+  saveEvidence(gameId: string, sessionId: string, evidence: Evidence): Promise<Winner | undefined>;
+  // Undefined when the game has no winner
+  setVerdict(
+    gameId: string,
+    verdict: WinnerVerdict,
+    reviewedBy: string,
+    reviewedAt: number
+  ): Promise<Winner | undefined>;
+  // Across every room unless one is given
+  list(review: ReviewStatus, roomId?: string): Promise<Winner[]>;
+  // Newest first
+  listBySession(sessionId: string): Promise<Winner[]>;
+}
+
+export interface WordCountRepository {
+  // Adds to a word's count in a scope, atomically. Counts with `expiresAt`
+  // are dropped some time after it.
+  add(scope: string, word: string, by: number, expiresAt?: number): Promise<void>;
+  list(scope: string): Promise<WordCount[]>;
+}
+
+export interface EventRepository {
+  // Stores the event under the next number in its room's sequence. Events
+  // are never changed or removed once stored.
+  append(event: NewRoomEvent): Promise<RoomEvent>;
+  // The room's last sequence number, 0 before anything happened there
+  latestSeq(roomId: string): Promise<number>;
+  // In sequence order, only those after `afterSeq` when given
+  listByRoom(roomId: string, afterSeq?: number): Promise<RoomEvent[]>;
+  // In sequence order
+  listPageByGame(gameId: string, page: PageRequest): Promise<Page<RoomEvent>>;
+}
+
+export interface SnapshotRepository {
+  get(gameId: string): Promise<SharedSnapshot | undefined>;
+  // Lets one stream at a time rebuild a game's snapshot. False while another
+  // holds the lock, which lapses at `until` in case its holder never finishes
+  lock(gameId: string, now: number, until: number): Promise<boolean>;
+  // Releases the lock. Never replaces a snapshot of a later sequence number
+  put(shared: SharedSnapshot): Promise<void>;
+}
+
+export interface RateLimitRepository {
+  // Counts a request against a window, returning the count so far
+  increment(limitKey: string, expiresAt: number): Promise<number>;
+}
+
+export interface Repositories {
+  rooms: RoomRepository;
+  players: PlayerRepository;
+  nicknames: NicknameRepository;
+  games: GameRepository;
+  cards: CardRepository;
+  marks: MarkRepository;
+  words: WordRepository;
+  votes: VoteRepository;
+  winners: WinnerRepository;
+  wordCounts: WordCountRepository;
+  events: EventRepository;
+  snapshots: SnapshotRepository;
+  rateLimits: RateLimitRepository;
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { main as claimBingo } from "../bingo";
+import { exportResults } from "./results";
+import { getStandings } from "./leaderboard";
+import { endGame, getGame, settleGames } from "./game";
+import { SYSTEM_ACTOR } from "./events";
+import { FREE_SPACE } from "./card";
+import { call, createPlayingRoom, dealCard, joinRoom, markSquares } from "../test/requests";
+import { Room } from "./types";
+
+// The centre row, which the free space starts off
+const CENTRE_ROW = [10, 11, 13, 14];
+
+async function getResults(room: Room) {
+  return JSON.parse(await exportResults(room, "json", "games"));
+}
+
+async function finishGame(gameId: string) {
+  await endGame((await getGame(gameId))!, SYSTEM_ACTOR);
+}
+
+describe("results", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lists every game by game number, with nobody winning one that ended without a bingo", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+
+    await dealCard(ada, game.gameId);
+    vi.advanceTimersByTime(90 * 1000);
+    await markSquares(ada, game.gameId, CENTRE_ROW);
+    await call(claimBingo, { token: ada.token, path: { id: game.gameId } });
+    await finishGame(game.gameId);
+
+    const second = await settleGames(room.roomId);
+
+    await dealCard(grace, second.gameId);
+    await markSquares(grace, second.gameId, [0]);
+    await finishGame(second.gameId);
+    await settleGames(room.roomId);
+
+    const { games, playerCount } = await getResults(room);
+
+    expect(games.map(({ gameNumber, state }: { gameNumber: number; state: string }) => [gameNumber, state])).toEqual([
+      [1, "complete"],
+      [2, "complete"],
+      [3, "active"],
+    ]);
+    expect(games[0]).toMatchObject({
+      players: 1,
+      winner: { nickname: "Ada", verdict: null, declared: false },
+      secondsToBingo: 90,
+    });
+    expect(games[1]).toMatchObject({ players: 1, winner: null, secondsToBingo: null });
+    expect(playerCount).toBe(2);
+
+    const recap = await exportResults(room, "markdown", "games");
+
+    expect(recap).toContain("| 1 | Ada | 1m 30s | 1 |");
+    expect(recap).toContain("| 2 | Nobody |  | 1 |");
+  });
+
+  it("puts the most marked words first, and the first marked of a tie", async () => {
+    const { room, game } = await createPlayingRoom();
+    const ada = await joinRoom(room, "Ada");
+    const grace = await joinRoom(room, "Grace");
+    const adaCard = await dealCard(ada, game.gameId);
+    const graceCard = await dealCard(grace, game.gameId);
+
+    // Words on both cards, so both players can mark them
+    const [often, later, earlier] = adaCard.words.filter(
+      (word) => word !== FREE_SPACE && graceCard.words.includes(word)
+    );
+
+    for (const [player, card, word] of [
+      [ada, adaCard, earlier],
+      [ada, adaCard, often],
+      [grace, graceCard, often],
+      [ada, adaCard, later],
+    ] as const) {
+      vi.advanceTimersByTime(1000);
+      await markSquares(player, game.gameId, [card.words.indexOf(word)]);
+    }
+
+    const { games } = await getResults(room);
+
+    expect(games[0].words.map(({ word, marks }: { word: string; marks: number }) => [word, marks])).toEqual([
+      [often, 2],
+      [earlier, 1],
+      [later, 1],
+    ]);
+  });
+});
+
+describe("standings", () => {
+  it("ranks by squares marked, then by how close each player is to a bingo", async () => {
+    const { room, game } = await createPlayingRoom();
+    const players = await Promise.all(["Ada", "Grace", "Linus"].map((nickname) => joinRoom(room, nickname)));
+
+    for (const player of players) {
+      await dealCard(player, game.gameId);
+    }
+
+    const [ada, grace, linus] = players;
+
+    // Two on the top row, two on the free space's row, which is closer, and
+    // three on a diagonal
+    await markSquares(ada, game.gameId, [0, 1]);
+    await markSquares(grace, game.gameId, [10, 11]);
+    await markSquares(linus, game.gameId, [0, 6, 18]);
+
+    const standings = await getStandings(game.gameId);
+
+    expect(standings.map(({ nickname, marked }) => [nickname, marked])).toEqual([
+      ["Linus", 3],
+      ["Grace", 2],
+      ["Ada", 2],
+    ]);
+  });
+});
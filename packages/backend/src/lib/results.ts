@@ -0,0 +1,320 @@
+import { repositories } from "./repositories";
+import { toCsv } from "./csv";
+import { listWords } from "./words";
+import { gameState } from "./schemas";
+import { getWinner } from "./winners";
+import {
+  Game,
+  GameState,
+  ResultsFormat,
+  ResultsTable,
+  Room,
+  Winner,
+  WinnerVerdict,
+  Word,
+} from "./types";
+
+/*
+ * A room's results for after the event: every game with its winner and how
+ * often each word was marked in it, and the players' suggestions with their
+ * votes. Read from the same tables as the leaderboard, as CSV (a table at a
+ * time), JSON, or a Markdown recap to paste into a follow-up email.
+ */
+
+const RESULTS_TYPES: Record<ResultsFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  markdown: "text/markdown",
+};
+
+interface WordResult {
+  word: string;
+  marks: number;
+  firstMarkedAt: number;
+}
+
+interface GameResult {
+  gameNumber: number;
+  state: GameState;
+  startedAt: number | null;
+  endedAt: number | null;
+  players: number;
+  winner: {
+    nickname: string;
+    wonAt: number;
+    verdict: WinnerVerdict | null;
+    // Declared by an admin rather than claimed
+    declared: boolean;
+  } | null;
+  // From the game starting to the winning claim
+  secondsToBingo: number | null;
+  // Most marked first
+  words: WordResult[];
+}
+
+interface SuggestionResult {
+  text: string;
+  status: Word["status"];
+  suggestedBy: string;
+  suggestedAt: number;
+  votes: number;
+  votedAt: number[];
+}
+
+interface Results {
+  games: GameResult[];
+  suggestions: SuggestionResult[];
+  // Everyone who had a card in any game
+  playerCount: number;
+}
+
+// When the game first entered a state, null if it never did
+function enteredAt(game: Game, state: GameState) {
+  return game.history.find((transition) => transition.to === state)?.at ?? null;
+}
+
+function toGameResult(game: Game, winner: Winner | undefined, sessionIds: string[], words: WordResult[]): GameResult {
+  const startedAt = enteredAt(game, "active");
+
+  return {
+    gameNumber: game.gameNumber,
+    state: game.state,
+    startedAt,
+    endedAt: enteredAt(game, "complete"),
+    players: sessionIds.length,
+    winner: winner
+      ? {
+        nickname: winner.nickname,
+        wonAt: winner.wonAt,
+        verdict: winner.verdict ?? null,
+        declared: !!winner.declaredBy,
+      }
+      : null,
+    secondsToBingo: winner && startedAt !== null ? Math.round((winner.wonAt - startedAt) / 1000) : null,
+    words,
+  };
+}
+
+async function getGameResult(game: Game, sessions: Set<string>) {
+  const { cards, marks } = repositories();
+  const [winner, sessionIds, gameMarks] = await Promise.all([
+    getWinner(game.gameId),
+    cards.listSessionIds(game.gameId),
+    marks.listByGame(game.gameId),
+  ]);
+
+  const words = new Map<string, WordResult>();
+
+  for (const mark of gameMarks) {
+    const counted = words.get(mark.word) || { word: mark.word, marks: 0, firstMarkedAt: mark.markedAt };
+
+    counted.marks++;
+    counted.firstMarkedAt = Math.min(counted.firstMarkedAt, mark.markedAt);
+    words.set(mark.word, counted);
+  }
+
+  sessionIds.forEach((sessionId) => sessions.add(sessionId));
+
+  return toGameResult(
+    game,
+    winner,
+    sessionIds,
+    [...words.values()].sort((a, b) => b.marks - a.marks || a.firstMarkedAt - b.firstMarkedAt)
+  );
+}
+
+async function getSuggestionResult(word: Word): Promise<SuggestionResult> {
+  const votes = await repositories().votes.list(word.wordId);
+
+  return {
+    text: word.text,
+    status: word.status,
+    suggestedBy: word.suggestedBy!.nickname,
+    suggestedAt: word.createdAt,
+    votes: word.votes || 0,
+    votedAt: votes.map((vote) => vote.votedAt).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Every game in a room, by game number, and every word its players
+ * suggested, oldest first.
+ */
+async function getResults(roomId: string): Promise<Results> {
+  const { games } = repositories();
+  const [byState, words] = await Promise.all([
+    // Queried a state at a time, so nothing scans the Games table
+    Promise.all(gameState.options.map((state) => games.listByState(roomId, state))),
+    listWords(roomId),
+  ]);
+
+  const sessions = new Set<string>();
+  const gameResults = await Promise.all(
+    byState
+      .flat()
+      .sort((a, b) => a.gameNumber - b.gameNumber)
+      .map((game) => getGameResult(game, sessions))
+  );
+
+  const suggestions = await Promise.all(
+    words
+      .filter((word) => word.suggestedBy)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(getSuggestionResult)
+  );
+
+  return { games: gameResults, suggestions, playerCount: sessions.size };
+}
+
+function isoTime(at: number | null) {
+  return at === null ? "" : new Date(at).toISOString();
+}
+
+function toCsvTable({ games, suggestions }: Results, table: ResultsTable) {
+  if (table === "words") {
+    return toCsv([
+      ["game", "word", "marks", "first_marked_at"],
+      ...games.flatMap((game) =>
+        game.words.map((word) => [game.gameNumber, word.word, word.marks, isoTime(word.firstMarkedAt)])
+      ),
+    ]);
+  }
+
+  if (table === "suggestions") {
+    return toCsv([
+      ["text", "status", "suggested_by", "suggested_at", "votes", "voted_at"],
+      ...suggestions.map((suggestion) => [
+        suggestion.text,
+        suggestion.status,
+        suggestion.suggestedBy,
+        isoTime(suggestion.suggestedAt),
+        suggestion.votes,
+        // Every vote's time, in one cell
+        suggestion.votedAt.map(isoTime).join(" "),
+      ]),
+    ]);
+  }
+
+  return toCsv([
+    ["game", "state", "started_at", "ended_at", "players", "winner", "verdict", "declared", "won_at", "seconds_to_bingo"],
+    ...games.map((game) => [
+      game.gameNumber,
+      game.state,
+      isoTime(game.startedAt),
+      isoTime(game.endedAt),
+      game.players,
+      game.winner?.nickname ?? "",
+      game.winner?.verdict ?? "",
+      game.winner ? String(game.winner.declared) : "",
+      isoTime(game.winner?.wonAt ?? null),
+      game.secondsToBingo ?? "",
+    ]),
+  ]);
+}
+
+function toJson(room: Room, { games, suggestions, playerCount }: Results) {
+  return JSON.stringify({
+    name: room.name,
+    roomCode: room.roomCode,
+    exportedAt: new Date().toISOString(),
+    playerCount,
+    games: games.map((game) => ({
+      ...game,
+      startedAt: isoTime(game.startedAt) || null,
+      endedAt: isoTime(game.endedAt) || null,
+      winner: game.winner && { ...game.winner, wonAt: isoTime(game.winner.wonAt) },
+      words: game.words.map((word) => ({ ...word, firstMarkedAt: isoTime(word.firstMarkedAt) })),
+    })),
+    suggestions: suggestions.map((suggestion) => ({
+      ...suggestion,
+      suggestedAt: isoTime(suggestion.suggestedAt),
+      votedAt: suggestion.votedAt.map(isoTime),
+    })),
+  }, null, 2);
+}
+
+// Nicknames and words are typed by players, so nothing in them formats
+function escapeMarkdown(text: string) {
+  return text.replace(/[\\`*_[\]<>|#~]/g, "\\$&");
+}
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+
+  return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, "0")}s` : `${seconds}s`;
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${count === 1 ? noun : `${noun}s`}`;
+}
+
+function toMarkdown(room: Room, { games, suggestions, playerCount }: Results) {
+  const totals = new Map<string, number>();
+
+  for (const word of games.flatMap((game) => game.words)) {
+    totals.set(word.word, (totals.get(word.word) || 0) + word.marks);
+  }
+
+  const marks = [...totals.values()].reduce((sum, count) => sum + count, 0);
+  const [mostHeard] = [...totals.entries()].sort((a, b) => b[1] - a[1]);
+  // Overturned wins don't count
+  const [fastest] = games
+    .filter((game) => game.secondsToBingo !== null && game.winner?.verdict !== "overturned")
+    .sort((a, b) => a.secondsToBingo! - b.secondsToBingo!);
+  const [mostUpvoted] = suggestions.filter((s) => s.votes > 0).sort((a, b) => b.votes - a.votes);
+
+  const highlights = [
+    mostHeard && `- **Most-heard buzzword:** "${escapeMarkdown(mostHeard[0])}", marked ${plural(mostHeard[1], "time")}`,
+    fastest && `- **Fastest bingo:** ${escapeMarkdown(fastest.winner!.nickname)} in ${formatDuration(fastest.secondsToBingo!)}, game ${fastest.gameNumber}`,
+    mostUpvoted && `- **Most-upvoted suggestion:** "${escapeMarkdown(mostUpvoted.text)}" from ${escapeMarkdown(mostUpvoted.suggestedBy)}, with ${plural(mostUpvoted.votes, "vote")}`,
+  ].filter((line): line is string => !!line);
+
+  const lines = [
+    `# ${escapeMarkdown(room.name)} recap`,
+    "",
+    `${plural(games.length, "game")}, ${plural(playerCount, "player")} and ${plural(marks, "square")} marked.`,
+  ];
+
+  if (highlights.length > 0) {
+    lines.push("", ...highlights);
+  }
+
+  const played = games.filter((game) => game.startedAt !== null);
+
+  if (played.length > 0) {
+    lines.push(
+      "",
+      "## Games",
+      "",
+      "| Game | Winner | Time to bingo | Players |",
+      "| ---: | --- | ---: | ---: |",
+      ...played.map((game) => {
+        const winner = game.winner
+          ? `${escapeMarkdown(game.winner.nickname)}${game.winner.verdict === "overturned" ? " (overturned)" : ""}`
+          : "Nobody";
+        const time = game.secondsToBingo === null ? "" : formatDuration(game.secondsToBingo);
+
+        return `| ${game.gameNumber} | ${winner} | ${time} | ${game.players} |`;
+      })
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * A room's results in a format to download, with CSV holding one table.
+ */
+export async function exportResults(room: Room, format: ResultsFormat, table: ResultsTable) {
+  const results = await getResults(room.roomId);
+
+  if (format === "json") {
+    return toJson(room, results);
+  }
+
+  return format === "markdown" ? toMarkdown(room, results) : toCsvTable(results, table);
+}
+
+export function resultsContentType(format: ResultsFormat) {
+  return RESULTS_TYPES[format];
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { createJoinLink, createRoom, expirePin, findRoomToJoin, rotatePin } from "./rooms";
+import { ForbiddenError } from "./errors";
+
+describe("finding the room to join", () => {
+  it("lets players in with the PIN or the room code", async () => {
+    const room = await createRoom("Main stage");
+
+    await expect(findRoomToJoin({ pin: room.pin })).resolves.toMatchObject({ roomId: room.roomId });
+    await expect(findRoomToJoin({ roomCode: room.roomCode.toLowerCase() })).resolves.toMatchObject({
+      roomId: room.roomId,
+    });
+  });
+
+  it("closes the room code along with the PIN", async () => {
+    const room = await createRoom("Main stage");
+    const expired = await expirePin(room.roomId);
+
+    await expect(findRoomToJoin({ pin: expired.pin })).rejects.toThrow(ForbiddenError);
+    await expect(findRoomToJoin({ roomCode: room.roomCode })).rejects.toThrow(ForbiddenError);
+
+    await rotatePin(room.roomId);
+
+    await expect(findRoomToJoin({ roomCode: room.roomCode })).resolves.toMatchObject({ roomId: room.roomId });
+  });
+
+  it("still lets signed links in once the PIN has expired", async () => {
+    const room = await createRoom("Main stage");
+    const { token } = createJoinLink(room, 60);
+
+    await expirePin(room.roomId);
+
+    await expect(findRoomToJoin({ link: token })).resolves.toMatchObject({ roomId: room.roomId });
+  });
+});
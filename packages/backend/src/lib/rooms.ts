@@ -0,0 +1,220 @@
+import { randomInt } from "crypto";
+import * as uuid from "uuid";
+import { RoomChanges, repositories } from "./repositories";
+import { readToken, signToken } from "./signing";
+import { JoinLink, PublicRoom, Room } from "./types";
+import { ForbiddenError, JoinLinkError, NotFoundError, VersionConflictError } from "./errors";
+
+// No 0/O, 1/I/L or 5/S, which get misread off a projector
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRTUVWXYZ2346789";
+const CODE_LENGTH = 5;
+const PIN_LENGTH = 6;
+// Codes and PINs are random, so a clash with another room is rare
+const MAX_ATTEMPTS = 10;
+
+function randomCode() {
+  return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+}
+
+function randomPin() {
+  return String(randomInt(10 ** PIN_LENGTH)).padStart(PIN_LENGTH, "0");
+}
+
+// Draws until nothing else is using the value. Two rooms drawing the same one
+// at the same moment could still share it, which is too unlikely to guard.
+async function unused(draw: () => string, find: (value: string) => Promise<Room | undefined>) {
+  for (let i = 0; i < MAX_ATTEMPTS; i++) {
+    const value = draw();
+
+    if (!(await find(value))) {
+      return value;
+    }
+  }
+
+  throw new Error("Could not find an unused room code or PIN");
+}
+
+function pinExpiry(expiresInMinutes?: number) {
+  return expiresInMinutes ? Date.now() + expiresInMinutes * 60 * 1000 : null;
+}
+
+export async function getRoom(roomId: string) {
+  return repositories().rooms.get(roomId);
+}
+
+export async function getRoomByCode(roomCode: string) {
+  return repositories().rooms.getByCode(roomCode.toUpperCase());
+}
+
+export async function listRooms() {
+  return repositories().rooms.list();
+}
+
+export async function createRoom(name: string, pinExpiresInMinutes?: number) {
+  const { rooms } = repositories();
+  const now = Date.now();
+  const room: Room = {
+    roomId: uuid.v4(),
+    roomCode: await unused(randomCode, (roomCode) => rooms.getByCode(roomCode)),
+    name,
+    pin: await unused(randomPin, (pin) => rooms.getByPin(pin)),
+    pinExpiresAt: pinExpiry(pinExpiresInMinutes),
+    linksRevokedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+  };
+
+  await rooms.put(room);
+
+  return room;
+}
+
+async function updateRoom(roomId: string, changes: Omit<RoomChanges, "updatedAt">, version?: number) {
+  const { rooms } = repositories();
+  const updated = await rooms.update(roomId, { ...changes, updatedAt: Date.now() }, version);
+
+  if (updated) {
+    return updated;
+  }
+
+  const current = await rooms.get(roomId);
+
+  if (!current) {
+    throw new NotFoundError("Room not found");
+  }
+
+  throw new VersionConflictError(`${current.name} was changed by someone else first`, current);
+}
+
+export async function renameRoom(roomId: string, name: string, version?: number) {
+  return updateRoom(roomId, { name }, version);
+}
+
+/**
+ * Swaps a room's PIN for a new one. The old PIN stops working straight
+ * away, players who already joined stay in.
+ */
+export async function rotatePin(roomId: string, expiresInMinutes?: number, version?: number) {
+  const pin = await unused(randomPin, (pin) => repositories().rooms.getByPin(pin));
+
+  return updateRoom(roomId, { pin, pinExpiresAt: pinExpiry(expiresInMinutes) }, version);
+}
+
+/**
+ * Stops a room's PIN from letting anyone else in, until it is rotated.
+ */
+export async function expirePin(roomId: string, version?: number) {
+  return updateRoom(roomId, { pinExpiresAt: Date.now() }, version);
+}
+
+/**
+ * A signed link that lets players into one room without the PIN, until it
+ * expires or the room's links are revoked.
+ */
+export function createJoinLink(room: Room, expiresInMinutes: number): JoinLink {
+  const issuedAt = Date.now();
+  const expiresAt = issuedAt + expiresInMinutes * 60 * 1000;
+
+  return {
+    token: signToken({ purpose: "join", roomId: room.roomId, issuedAt, expiresAt }),
+    roomId: room.roomId,
+    expiresAt,
+  };
+}
+
+/**
+ * Stops every join link made so far from working. Links made afterwards
+ * are not affected.
+ */
+export async function revokeJoinLinks(roomId: string, version?: number) {
+  return updateRoom(roomId, { linksRevokedAt: Date.now() }, version);
+}
+
+/**
+ * The room a join link is for, with when the link expires. Throws a
+ * JoinLinkError saying why if it can't be used.
+ */
+export async function checkJoinLink(token: string) {
+  const claims = readToken(token);
+
+  if (
+    claims?.purpose !== "join" ||
+    typeof claims.roomId !== "string" ||
+    typeof claims.issuedAt !== "number" ||
+    typeof claims.expiresAt !== "number"
+  ) {
+    throw new JoinLinkError("link-invalid", "That join link doesn't work, check it was copied in full");
+  }
+
+  if (claims.expiresAt <= Date.now()) {
+    throw new JoinLinkError("link-expired", "That join link has expired");
+  }
+
+  const room = await getRoom(claims.roomId);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  // Rooms from before join links have no revocation time
+  if (room.linksRevokedAt && claims.issuedAt <= room.linksRevokedAt) {
+    throw new JoinLinkError("link-revoked", "That join link has been switched off");
+  }
+
+  return { room, expiresAt: claims.expiresAt };
+}
+
+function isPinExpired(room: Room) {
+  return room.pinExpiresAt !== null && room.pinExpiresAt <= Date.now();
+}
+
+/**
+ * The room a player is joining, from the PIN they typed, or the code or
+ * signed join link in the link they followed. Room codes are shown on the
+ * room's screen for good, so they only let players in while the PIN does.
+ * Signed links have their own expiry.
+ */
+export async function findRoomToJoin({ pin, roomCode, link }: { pin?: string; roomCode?: string; link?: string }) {
+  if (link) {
+    return (await checkJoinLink(link)).room;
+  }
+
+  if (roomCode) {
+    const room = await getRoomByCode(roomCode);
+
+    if (!room) {
+      throw new NotFoundError("Room not found");
+    }
+
+    if (isPinExpired(room)) {
+      throw new ForbiddenError("This room's link has closed, ask for the new PIN");
+    }
+
+    return room;
+  }
+
+  const room = pin ? await repositories().rooms.getByPin(pin) : undefined;
+
+  if (!room) {
+    throw new NotFoundError("No room has that PIN");
+  }
+
+  if (isPinExpired(room)) {
+    throw new ForbiddenError("That PIN has expired, ask for the new one");
+  }
+
+  return room;
+}
+
+// What can be shown to players, without the PIN
+export function toPublicRoom({ roomId, roomCode, name }: Room): PublicRoom {
+  return { roomId, roomCode, name };
+}
+
+// A name for a file downloaded from the room, like "main-stage-words.csv"
+export function roomFileName({ name }: Room, suffix: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+  return `${slug || "room"}-${suffix}`;
+}
@@ -0,0 +1,268 @@
+import { z } from "zod";
+import { CARD_SIZE } from "./card";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./pagination";
+
+export const MAX_NICKNAME_LENGTH = 24;
+// Long enough for "Single pane of glass", short enough for a card square
+export const MAX_WORD_LENGTH = 40;
+export const MAX_QUOTE_LENGTH = 280;
+export const MAX_ROOM_NAME_LENGTH = 40;
+// A week, long enough for any conference
+export const MAX_PIN_MINUTES = 7 * 24 * 60;
+// Join links always expire, after an hour unless the admin asks for longer
+export const DEFAULT_LINK_MINUTES = 60;
+export const MAX_LINK_MINUTES = MAX_PIN_MINUTES;
+
+/*
+ * Fields shared across routes
+ */
+
+const id = (label: string) =>
+  z.string({ required_error: `${label} is required` }).min(1, `${label} is required`);
+
+export const nickname = z
+  .string({ required_error: "Nickname is required" })
+  .trim()
+  .min(1, "Nickname is required")
+  .max(MAX_NICKNAME_LENGTH, `Nicknames can be at most ${MAX_NICKNAME_LENGTH} characters`);
+
+export const wordText = z
+  .string({ required_error: "Word text is required" })
+  .trim()
+  .min(1, "Word text is required")
+  .max(MAX_WORD_LENGTH, `Words can be at most ${MAX_WORD_LENGTH} characters`);
+
+export const roomName = z
+  .string({ required_error: "Room name is required" })
+  .trim()
+  .min(1, "Room name is required")
+  .max(MAX_ROOM_NAME_LENGTH, `Room names can be at most ${MAX_ROOM_NAME_LENGTH} characters`);
+
+// Typed from a screen, so case doesn't matter
+export const roomCode = z
+  .string({ required_error: "Room code is required" })
+  .trim()
+  .toUpperCase()
+  .min(1, "Room code is required");
+
+export const pin = z
+  .string({ required_error: "PIN is required" })
+  .trim()
+  .regex(/^\d{6}$/, "PINs are 6 digits");
+
+// Unset for a PIN that lasts until it's rotated
+const pinExpiresInMinutes = z
+  .number({ invalid_type_error: "Invalid PIN expiry" })
+  .int("Invalid PIN expiry")
+  .min(1, "Invalid PIN expiry")
+  .max(MAX_PIN_MINUTES, "PINs can last at most a week")
+  .optional();
+
+const linkExpiresInMinutes = z
+  .number({ invalid_type_error: "Invalid link expiry" })
+  .int("Invalid link expiry")
+  .min(1, "Invalid link expiry")
+  .max(MAX_LINK_MINUTES, "Join links can last at most a week")
+  .default(DEFAULT_LINK_MINUTES);
+
+export const wordStatus = z.enum(["pending", "approved", "rejected"], {
+  errorMap: () => ({ message: "Invalid word status" }),
+});
+
+export const gameState = z.enum(["queued", "active", "bingo-called", "celebrating", "complete"], {
+  errorMap: () => ({ message: "Invalid game state" }),
+});
+
+export const reviewStatus = z.enum(["unreviewed", "confirmed", "overturned"], {
+  errorMap: () => ({ message: "Invalid review status" }),
+});
+
+export const packFormat = z.enum(["csv", "json"], {
+  errorMap: () => ({ message: "Packs are CSV or JSON" }),
+});
+
+export const resultsFormat = z.enum(["csv", "json", "markdown"], {
+  errorMap: () => ({ message: "Results are CSV, JSON or Markdown" }),
+});
+
+// CSV holds one table at a time
+export const resultsTable = z.enum(["games", "words", "suggestions"], {
+  errorMap: () => ({ message: "Invalid results table" }),
+});
+
+export const squarePosition = z.coerce
+  .number({ invalid_type_error: "Invalid square position" })
+  .int("Invalid square position")
+  .min(0, "Invalid square position")
+  .max(CARD_SIZE * CARD_SIZE - 1, "Invalid square position");
+
+/*
+ * Path parameters
+ */
+
+export const roomPath = z.object({ id: id("Room ID") });
+
+export const roomCodePath = z.object({ code: roomCode });
+
+export const joinLinkPath = z.object({ token: id("Join link") });
+
+export const gamePath = z.object({ id: id("Game ID") });
+
+export const wordPath = z.object({ id: id("Word ID") });
+
+export const squarePath = z.object({ id: id("Game ID"), position: squarePosition });
+
+export const playerPath = z.object({ sessionId: id("Session ID") });
+
+/*
+ * Request bodies
+ */
+
+// Joining takes the PIN, or the room code or signed join link from a link
+export const joinRequest = z
+  .object({
+    nickname,
+    pin: pin.optional(),
+    roomCode: roomCode.optional(),
+    link: z.string().min(1, "Invalid join link").optional(),
+  })
+  .refine((body) => body.pin !== undefined || body.roomCode !== undefined || body.link !== undefined, {
+    message: "PIN is required",
+    path: ["pin"],
+  });
+
+export const createRoomRequest = z.object({ name: roomName, pinExpiresInMinutes });
+
+export const updateRoomRequest = z.object({ name: roomName });
+
+export const rotatePinRequest = z.object({ expiresInMinutes: pinExpiresInMinutes });
+
+export const createJoinLinkRequest = z.object({ expiresInMinutes: linkExpiresInMinutes });
+
+export const packUploadRequest = z.object({ format: packFormat });
+
+export const packRequest = z.object({ packKey: id("Pack") });
+
+export const createWordRequest = z.object({ text: wordText });
+
+// Only the fields given are changed
+export const updateWordRequest = z
+  .object({ text: wordText.optional(), status: wordStatus.optional() })
+  .refine((body) => body.text !== undefined || body.status !== undefined, {
+    message: "Nothing to change",
+  });
+
+// A nickname of the admin's choosing, or a generated placeholder
+export const updatePlayerRequest = z
+  .object({ nickname: nickname.optional(), placeholder: z.literal(true).optional() })
+  .refine((body) => (body.nickname === undefined) !== (body.placeholder === undefined), {
+    message: "Give a nickname or ask for a placeholder",
+  });
+
+// Marks sent late, after the player was offline, say when they were made
+export const markRequest = z.object({
+  markedAt: z
+    .number({ invalid_type_error: "Invalid mark time" })
+    .int("Invalid mark time")
+    .positive("Invalid mark time")
+    .optional(),
+});
+
+export const evidenceUploadRequest = z.object({
+  contentType: z.string({ required_error: "Content type is required" }),
+});
+
+export const submitEvidenceRequest = z.object({
+  photoKey: z.string().optional(),
+  quotes: z
+    .array(
+      z.object({
+        word: z.string(),
+        quote: z
+          .string()
+          .trim()
+          .max(MAX_QUOTE_LENGTH, `Quotes can be at most ${MAX_QUOTE_LENGTH} characters`),
+        at: z.number({ required_error: "Quotes need a time" }).int(),
+      })
+    )
+    .max(CARD_SIZE, "Too many quotes")
+    .default([]),
+});
+
+export const reviewWinnerRequest = z.object({
+  verdict: z.enum(["confirmed", "overturned"], {
+    errorMap: () => ({ message: "Invalid verdict" }),
+  }),
+});
+
+export const declareWinnerRequest = z.object({ sessionId: id("Session ID") });
+
+/*
+ * Query strings
+ */
+
+// Every list takes a page size and the cursor from the page before
+const pageQuery = z.object({
+  limit: z.coerce
+    .number({ invalid_type_error: "Invalid limit" })
+    .int("Invalid limit")
+    .min(1, "Invalid limit")
+    .max(MAX_PAGE_SIZE, `Pages can hold at most ${MAX_PAGE_SIZE} items`)
+    .default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1, "Invalid cursor").optional(),
+});
+
+const sortOrder = z
+  .enum(["newest", "oldest"], { errorMap: () => ({ message: "Invalid sort order" }) })
+  .default("newest");
+
+export const listRoomsQuery = pageQuery;
+
+export const listWordsQuery = pageQuery.extend({ status: wordStatus.optional(), sort: sortOrder });
+
+export const listGamesQuery = pageQuery.extend({ state: gameState.optional(), sort: sortOrder });
+
+export const listPlayersQuery = pageQuery.extend({
+  sort: z
+    .enum(["rank", "nickname"], { errorMap: () => ({ message: "Invalid sort order" }) })
+    .default("rank"),
+});
+
+export const listRoomPlayersQuery = pageQuery.extend({
+  status: z.enum(["playing", "banned"], { errorMap: () => ({ message: "Invalid player status" }) }).optional(),
+  sort: sortOrder,
+});
+
+// Every room's claims unless one is given
+export const listEvidenceQuery = pageQuery.extend({
+  roomId: z.string().min(1, "Invalid room ID").optional(),
+  status: reviewStatus.default("unreviewed"),
+  sort: sortOrder,
+});
+
+export const listSuggestionsQuery = pageQuery;
+
+// Always in the order they happened
+export const listGameEventsQuery = pageQuery;
+
+export const exportPackQuery = z.object({ format: packFormat.default("csv") });
+
+export const exportResultsQuery = z.object({
+  format: resultsFormat.default("csv"),
+  table: resultsTable.default("games"),
+});
+
+export type JoinRequest = z.infer<typeof joinRequest>;
+export type CreateRoomRequest = z.infer<typeof createRoomRequest>;
+export type UpdateRoomRequest = z.infer<typeof updateRoomRequest>;
+export type RotatePinRequest = z.infer<typeof rotatePinRequest>;
+export type CreateJoinLinkRequest = z.infer<typeof createJoinLinkRequest>;
+export type PackUploadRequest = z.infer<typeof packUploadRequest>;
+export type PackRequest = z.infer<typeof packRequest>;
+export type CreateWordRequest = z.infer<typeof createWordRequest>;
+export type UpdateWordRequest = z.infer<typeof updateWordRequest>;
+export type UpdatePlayerRequest = z.infer<typeof updatePlayerRequest>;
+export type EvidenceUploadRequest = z.infer<typeof evidenceUploadRequest>;
+export type SubmitEvidenceRequest = z.infer<typeof submitEvidenceRequest>;
+export type ReviewWinnerRequest = z.infer<typeof reviewWinnerRequest>;
+export type DeclareWinnerRequest = z.infer<typeof declareWinnerRequest>;
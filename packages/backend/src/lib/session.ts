@@ -0,0 +1,25 @@
+import { readToken, signToken } from "./signing";
+import { PlayerSession } from "./types";
+
+export function createSessionToken(session: PlayerSession) {
+  return signToken(session);
+}
+
+/**
+ * Returns the session carried by a token, or null if the token is malformed
+ * or the signature does not match.
+ */
+export function verifySessionToken(token: string): PlayerSession | null {
+  const session = readToken(token);
+
+  // Tokens from before rooms have no room, and have to join again
+  if (
+    typeof session?.sessionId !== "string" ||
+    typeof session.roomId !== "string" ||
+    typeof session.nickname !== "string"
+  ) {
+    return null;
+  }
+
+  return session as unknown as PlayerSession;
+}
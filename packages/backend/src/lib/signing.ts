@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { Resource } from "sst";
+
+function sign(payload: string) {
+  return createHmac("sha256", Resource.SessionSecret.value)
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Tokens are `<base64url JSON payload>.<base64url HMAC-SHA256 signature>`.
+ */
+export function signToken(value: object) {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Returns what a token carries, or undefined if the token is malformed or the
+ * signature does not match. Callers still have to check its shape.
+ */
+export function readToken(token: string): Record<string, unknown> | undefined {
+  const [payload, signature] = token.split(".");
+
+  if (!payload || !signature) {
+    return undefined;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  try {
+    const value = JSON.parse(Buffer.from(payload, "base64url").toString());
+
+    return value && typeof value === "object" ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,46 @@
+import { Writable } from "stream";
+import { APIGatewayProxyEventV2, Context } from "aws-lambda";
+import { GameEvent } from "./types";
+
+// Globals the Lambda Node.js runtime provides for response streaming
+declare global {
+  namespace awslambda {
+    function streamifyResponse(
+      handler: (
+        event: APIGatewayProxyEventV2,
+        responseStream: Writable,
+        context: Context
+      ) => Promise<void>
+    ): unknown;
+
+    namespace HttpResponseStream {
+      function from(
+        responseStream: Writable,
+        metadata: { statusCode: number; headers?: Record<string, string> }
+      ): Writable;
+    }
+  }
+}
+
+/**
+ * Starts a Server-Sent Events response. `retry` tells the browser how soon
+ * to reconnect once the stream ends.
+ */
+export function openEventStream(responseStream: Writable, retry: number) {
+  const stream = awslambda.HttpResponseStream.from(responseStream, {
+    statusCode: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+
+  stream.write(`retry: ${retry}\n\n`);
+
+  return stream;
+}
+
+export function writeEvent(stream: Writable, id: number, event: GameEvent) {
+  stream.write(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
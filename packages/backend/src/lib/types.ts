@@ -1,17 +1,404 @@
-export interface Note {
+/**
+ * A bingo room, e.g. one per conference track, with its own word pool, game
+ * queue and leaderboard. Players join one room, and everything they do is
+ * scoped to it.
+ */
+export interface Room {
+  roomId: string;
+  // Short and stable, for links like /r/K7QX2
+  roomCode: string;
+  name: string;
+  // What players type to join, until an admin rotates or expires it
+  pin: string;
+  // Null when the PIN doesn't expire on its own
+  pinExpiresAt: number | null;
+  // Join links made before this no longer work, null if none were revoked
+  linksRevokedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+  // Bumped by every change, see lib/versions.ts
+  version: number;
+}
+
+// What players can see of a room, without its PIN
+export type PublicRoom = Pick<Room, "roomId" | "roomCode" | "name">;
+
+// A signed link into one room, for the QR code on its screen
+export interface JoinLink {
+  token: string;
+  roomId: string;
+  expiresAt: number;
+}
+
+// What a join link opens on, before the player has joined
+export interface JoinLinkResponse {
+  room: PublicRoom;
+  expiresAt: number;
+}
+
+export interface Player {
+  sessionId: string;
+  roomId: string;
+  nickname: string;
+  joinedAt: number;
+  // Set when an admin bans the player, ending their session
+  removedAt?: number;
+  // Bumped by every change, see lib/versions.ts
+  version: number;
+}
+
+export interface PlayerSession {
+  sessionId: string;
+  roomId: string;
+  nickname: string;
+  issuedAt: number;
+}
+
+export interface AdminIdentity {
   userId: string;
-  noteId: string;
-  content: string;
-  attachment?: string;
+  username: string;
+}
+
+export interface JoinResponse extends PlayerSession {
+  token: string;
+  room: PublicRoom;
+}
+
+export interface BingoCard {
+  gameId: string;
+  sessionId: string;
+  roomId: string;
+  // Row-major, CARD_SIZE x CARD_SIZE, with the free space in the centre
+  words: string[];
+  createdAt: number;
+}
+
+export interface CardResponse extends BingoCard {
+  marked: number[];
+}
+
+// How many times a word was marked, in a game, a room or a recent window
+export interface WordCount {
+  word: string;
+  count: number;
+}
+
+export interface Mark {
+  gameId: string;
+  // `${sessionId}#${position}`
+  markId: string;
+  sessionId: string;
+  roomId: string;
+  position: number;
+  word: string;
+  markedAt: number;
+}
+
+export interface WinningLine {
+  kind: "row" | "column" | "diagonal";
+  index: number;
+  positions: number[];
+  words: string[];
+}
+
+export interface EvidenceQuote {
+  // One of the words in the winning line
+  word: string;
+  quote: string;
+  // When it was said
+  at: number;
+}
+
+export interface Evidence {
+  // S3 key of an uploaded photo, under evidence/<gameId>/<sessionId>/
+  photoKey?: string;
+  quotes: EvidenceQuote[];
+  submittedAt: number;
+}
+
+export type WinnerVerdict = "confirmed" | "overturned";
+
+// Where a win is in review, for listing them
+export type ReviewStatus = "unreviewed" | WinnerVerdict;
+
+export interface Winner {
+  gameId: string;
+  sessionId: string;
+  roomId: string;
+  nickname: string;
+  // Null when an admin declared the winner
+  line: WinningLine | null;
+  wonAt: number;
+  declaredBy?: string;
+  evidence?: Evidence;
+  // Unset while the win is waiting on an admin's review
+  verdict?: WinnerVerdict;
+  reviewedBy?: string;
+  reviewedAt?: number;
+}
+
+export type ClaimRejectionReason = "no-card" | "no-line" | "already-won" | "game-closed";
+
+export type BingoClaimResponse =
+  | { status: "accepted"; winner: Winner }
+  | {
+      status: "rejected";
+      reason: ClaimRejectionReason;
+      message: string;
+      winner?: Winner;
+    };
+
+export type GameState = "queued" | "active" | "bingo-called" | "celebrating" | "complete";
+
+export interface GameTransition {
+  from: GameState | null;
+  to: GameState;
+  at: number;
+}
+
+export interface Game {
+  gameId: string;
+  roomId: string;
+  // Counts up from 1 in each room
+  gameNumber: number;
+  state: GameState;
   createdAt: number;
+  // When the game entered its current state
+  updatedAt: number;
+  // Set while celebrating, when the next game takes over
+  celebrationEndsAt?: number;
+  history: GameTransition[];
+  // Bumped by every change, see lib/versions.ts
+  version: number;
 }
 
-export interface CreateNoteRequest {
-  content: string;
-  attachment?: string;
+export interface CurrentGameResponse {
+  room: PublicRoom;
+  game: Game;
+  serverTime: number;
 }
 
-export interface UpdateNoteRequest {
-  content?: string;
-  attachment?: string;
-} 
\ No newline at end of file
+export type PublicWinner = Omit<Winner, "sessionId" | "evidence">;
+
+export interface LeaderboardEntry {
+  nickname: string;
+  marked: number;
+  // Fewest squares still needed to complete any line
+  toBingo: number;
+}
+
+// A leaderboard entry with the player's session, for admins only
+export interface PlayerStanding extends LeaderboardEntry {
+  sessionId: string;
+  version: number;
+}
+
+export interface LeaderboardResponse {
+  room: PublicRoom;
+  game: Game;
+  playerCount: number;
+  topPlayers: LeaderboardEntry[];
+  closestToBingo: LeaderboardEntry[];
+  latestWinner: PublicWinner | null;
+}
+
+export interface WordCounts {
+  recent: WordCount[];
+  game: WordCount[];
+  room: WordCount[];
+}
+
+export interface WordCloudResponse {
+  room: PublicRoom;
+  gameId: string;
+  // How far back the recent counts go
+  windowMinutes: number;
+  counts: WordCounts;
+}
+
+export interface GameSnapshot {
+  game: Game;
+  winner: PublicWinner | null;
+  leaderboard: LeaderboardEntry[];
+  words: string[];
+}
+
+// A game's snapshot as of a room sequence number, shared by every stream
+// following the game, see getSharedSnapshot() in lib/leaderboard.ts
+export interface SharedSnapshot {
+  gameId: string;
+  seq: number;
+  snapshot: GameSnapshot;
+  builtAt: number;
+  // In seconds, for the table's TTL
+  expiresAt: number;
+}
+
+export type GameEvent =
+  | { type: "snapshot"; data: GameSnapshot }
+  | { type: "marks"; data: { leaderboard: LeaderboardEntry[] } }
+  | { type: "words"; data: { added: string[] } }
+  | { type: "winner"; data: { game: Game; winner: PublicWinner } }
+  | { type: "rollover"; data: { game: Game } };
+
+export type WordStatus = "pending" | "approved" | "rejected";
+
+export interface Word {
+  wordId: string;
+  roomId: string;
+  text: string;
+  status: WordStatus;
+  votes: number;
+  // The player who suggested it, unset for words added by an admin
+  suggestedBy?: Pick<Player, "sessionId" | "nickname">;
+  createdAt: number;
+  updatedAt: number;
+  // Bumped by every change except a vote, see lib/versions.ts
+  version: number;
+}
+
+export interface Vote {
+  wordId: string;
+  sessionId: string;
+  votedAt: number;
+}
+
+/**
+ * A pending word as players see it, without the suggester's session.
+ */
+export interface Suggestion {
+  wordId: string;
+  text: string;
+  votes: number;
+  suggestedBy?: string;
+  createdAt: number;
+  // Whether the requesting player has voted for it, or suggested it
+  voted: boolean;
+  mine: boolean;
+}
+
+export type PackFormat = "csv" | "json";
+
+export interface PackUploadResponse {
+  packKey: string;
+  uploadUrl: string;
+}
+
+// A word from a pack that would be added to the room
+export interface PackWord {
+  text: string;
+  status: Extract<WordStatus, "approved" | "pending">;
+}
+
+// A word from a pack that would be left out, and why
+export interface SkippedPackWord {
+  // Counting from 1, not including a CSV header
+  row: number;
+  text: string;
+  reason: string;
+}
+
+export interface PackPreview {
+  packKey: string;
+  words: PackWord[];
+  skipped: SkippedPackWord[];
+}
+
+export interface PackImportResult {
+  added: Word[];
+  skipped: SkippedPackWord[];
+}
+
+export type ResultsFormat = "csv" | "json" | "markdown";
+
+export type ResultsTable = "games" | "words" | "suggestions";
+
+export interface EvidenceUploadResponse {
+  photoKey: string;
+  uploadUrl: string;
+}
+
+/**
+ * A win and its game for review, with a short-lived link to the photo.
+ */
+export interface EvidenceReview {
+  game: Game;
+  winner: Winner;
+  photoUrl?: string;
+}
+
+// Who did something, as recorded in the event log
+export type EventActor =
+  | { type: "player"; sessionId: string; nickname: string }
+  | { type: "admin"; username: string }
+  | { type: "system" };
+
+/**
+ * What happened, for each kind of event in the log. Secrets like PINs and
+ * tokens are never recorded.
+ */
+export type RoomEventData =
+  | { type: "room-created"; data: { name: string } }
+  | { type: "room-renamed"; data: { name: string } }
+  | { type: "pin-rotated"; data: { expiresAt: number | null } }
+  | { type: "pin-expired"; data: Record<string, never> }
+  | { type: "join-link-created"; data: { expiresAt: number } }
+  | { type: "join-links-revoked"; data: Record<string, never> }
+  | { type: "player-joined"; data: { sessionId: string; nickname: string } }
+  | { type: "player-renamed"; data: { sessionId: string; nickname: string } }
+  | { type: "player-banned"; data: { sessionId: string } }
+  | { type: "game-created"; data: { gameNumber: number } }
+  | { type: "game-state"; data: { from: GameState; to: GameState } }
+  | { type: "card-dealt"; data: { words: string[] } }
+  | { type: "mark"; data: { position: number; word: string } }
+  | { type: "unmark"; data: { position: number; word: string } }
+  | { type: "claim"; data: { status: "accepted"; line: WinningLine } | { status: "rejected"; reason: ClaimRejectionReason } }
+  | { type: "evidence-submitted"; data: { quotes: number; photo: boolean } }
+  | { type: "winner-declared"; data: { sessionId: string; nickname: string } }
+  | { type: "winner-reviewed"; data: { verdict: WinnerVerdict } }
+  | { type: "winner-revoked"; data: Record<string, never> }
+  | { type: "words-added"; data: { words: Pick<Word, "wordId" | "text" | "status">[] } }
+  | { type: "word-changed"; data: { wordId: string; text?: string; status?: WordStatus } }
+  | { type: "word-voted"; data: { wordId: string; votes: number } };
+
+export type NewRoomEvent = RoomEventData & {
+  roomId: string;
+  // Unset for events that aren't about one game
+  gameId?: string;
+  actor: EventActor;
+  at: number;
+};
+
+/**
+ * An entry in a room's append-only event log. Game state, winners and
+ * leaderboards can all be rebuilt by replaying them, see lib/events.ts.
+ */
+export type RoomEvent = NewRoomEvent & {
+  // Counts up from 1 in each room
+  seq: number;
+};
+
+// A game as its events say it should be
+export interface GameReplay {
+  gameNumber: number | null;
+  state: GameState | null;
+  winner: { sessionId: string; nickname: string; verdict: WinnerVerdict | null } | null;
+  standings: Omit<PlayerStanding, "version">[];
+  // The last event replayed
+  seq: number;
+}
+
+export interface GameReplayResponse {
+  replay: GameReplay;
+  // Where the stored game disagrees with the replay, empty when it doesn't
+  differences: string[];
+}
+
+/**
+ * One page of a list, with a cursor to send back for the next page. There
+ * is no cursor on the last page.
+ */
+export interface Page<T> {
+  items: T[];
+  cursor?: string;
+}
@@ -0,0 +1,55 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { getHeader } from "./handler";
+import { BadRequestError, VersionConflictError } from "./errors";
+
+/*
+ * Players, games and words carry a version that every change bumps. Admin
+ * changes can send the version they were made against as an If-Match header,
+ * and are refused with a 409 holding the current copy if the item has moved
+ * on, so two admins can't silently overwrite each other.
+ */
+
+interface Versioned {
+  version: number;
+}
+
+export function etag(version: number) {
+  return `"${version}"`;
+}
+
+/**
+ * The version a request was made against, undefined without an If-Match
+ * header or with `*`.
+ */
+export function getIfMatch(event: APIGatewayProxyEvent) {
+  const header = getHeader(event, "if-match")?.trim();
+
+  if (!header || header === "*") {
+    return undefined;
+  }
+
+  const version = Number(header.replace(/^W\//, "").replace(/"/g, ""));
+
+  if (!Number.isInteger(version)) {
+    throw new BadRequestError("If-Match must be an ETag from this API");
+  }
+
+  return version;
+}
+
+export function checkVersion(item: Versioned, version: number | undefined, message: string) {
+  if (version !== undefined && item.version !== version) {
+    throw new VersionConflictError(message, item);
+  }
+}
+
+/**
+ * A response with the item and its ETag.
+ */
+export function withETag(item: Versioned): APIGatewayProxyResult {
+  return {
+    statusCode: 200,
+    body: JSON.stringify(item),
+    headers: { ETag: etag(item.version) },
+  };
+}
@@ -0,0 +1,93 @@
+import { repositories } from "./repositories";
+import { Evidence, PublicWinner, ReviewStatus, Winner, WinnerVerdict } from "./types";
+import { ConflictError, NotFoundError } from "./errors";
+
+// Winners are recorded under the nickname they won with, so an admin's
+// rename since then is read from Players
+async function withCurrentNicknames(winners: Winner[]) {
+  const sessionIds = [...new Set(winners.map((winner) => winner.sessionId))];
+  const players = sessionIds.length ? await repositories().players.getMany(sessionIds) : [];
+  const nicknames = new Map(players.map((player) => [player.sessionId, player.nickname]));
+
+  return winners.map((winner) => ({ ...winner, nickname: nicknames.get(winner.sessionId) ?? winner.nickname }));
+}
+
+export async function getWinner(gameId: string) {
+  const winner = await repositories().winners.get(gameId);
+
+  return winner && (await withCurrentNicknames([winner]))[0];
+}
+
+/**
+ * Records the winner of a game, unless one already is. Returns the winner
+ * that was already recorded when this one lost the race.
+ */
+export async function recordWinner(winner: Winner): Promise<Winner | undefined> {
+  if (await repositories().winners.create(winner)) {
+    return undefined;
+  }
+
+  const recorded = await getWinner(winner.gameId);
+
+  // Revoked again straight after it was recorded
+  if (!recorded) {
+    throw new ConflictError("Someone else changed this first, try again");
+  }
+
+  return recorded;
+}
+
+export async function deleteWinner(gameId: string) {
+  await repositories().winners.delete(gameId);
+}
+
+/**
+ * Attaches evidence to a win, only while it's still waiting on review.
+ */
+export async function saveEvidence(winner: Winner, evidence: Evidence) {
+  const saved = await repositories().winners.saveEvidence(winner.gameId, winner.sessionId, evidence);
+
+  // Reviewed or revoked since it was read
+  if (!saved) {
+    throw new ConflictError("This win has already been reviewed");
+  }
+
+  return saved;
+}
+
+export async function setVerdict(gameId: string, verdict: WinnerVerdict, reviewedBy: string) {
+  const reviewed = await repositories().winners.setVerdict(gameId, verdict, reviewedBy, Date.now());
+
+  if (!reviewed) {
+    throw new NotFoundError("Winner not found");
+  }
+
+  return reviewed;
+}
+
+/**
+ * The wins at a stage of review, in one room or all of them, newest first
+ * unless `newestFirst` is false.
+ */
+export async function getWinners(review: ReviewStatus, roomId?: string, newestFirst = true) {
+  const winners = await withCurrentNicknames(await repositories().winners.list(review, roomId));
+
+  return winners.sort((a, b) => (newestFirst ? b.wonAt - a.wonAt : a.wonAt - b.wonAt));
+}
+
+/**
+ * A player's own wins, newest first, with their evidence, so they can add
+ * it once the game has moved on.
+ */
+export async function getPlayerWins(sessionId: string) {
+  return withCurrentNicknames(await repositories().winners.listBySession(sessionId));
+}
+
+// What can be shown to everyone, without the winner's session
+export function toPublicWinner({
+  sessionId: _sessionId,
+  evidence: _evidence,
+  ...winner
+}: Winner): PublicWinner {
+  return winner;
+}
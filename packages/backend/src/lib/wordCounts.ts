@@ -0,0 +1,86 @@
+import { repositories } from "./repositories";
+import { Mark, WordCount, WordCounts } from "./types";
+
+/*
+ * Marks are counted per word as they happen, in atomic counters, so the
+ * word cloud never has to scan the Marks table. Each mark counts towards
+ * its game, its room across every game, and the minute it was made in. The
+ * recent window adds up the last few minutes.
+ */
+
+export const WINDOW_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+function gameScope(gameId: string) {
+  return `game#${gameId}`;
+}
+
+function roomScope(roomId: string) {
+  return `room#${roomId}`;
+}
+
+function minuteScope(roomId: string, minute: number) {
+  return `recent#${roomId}#${minute}`;
+}
+
+function minuteOf(at: number) {
+  return Math.floor(at / MINUTE_MS);
+}
+
+/**
+ * Counts a mark made (`by` 1) or taken off (`by` -1). Taking one off comes
+ * off the minute it was made in, unless that's already out of the window.
+ */
+export async function countMark(mark: Mark, by: 1 | -1) {
+  const { wordCounts } = repositories();
+  const minute = minuteOf(mark.markedAt);
+  const counts = [
+    wordCounts.add(gameScope(mark.gameId), mark.word, by),
+    wordCounts.add(roomScope(mark.roomId), mark.word, by),
+  ];
+
+  if (minute > minuteOf(Date.now()) - WINDOW_MINUTES) {
+    // Kept a minute past the window, DynamoDB deletes expired items lazily
+    const expiresAt = ((minute + WINDOW_MINUTES + 1) * MINUTE_MS) / 1000;
+    counts.push(wordCounts.add(minuteScope(mark.roomId, minute), mark.word, by, expiresAt));
+  }
+
+  await Promise.all(counts);
+}
+
+// Adds up counts by word, most marked first, leaving out words at zero
+function total(lists: WordCount[][]): WordCount[] {
+  const totals = new Map<string, number>();
+
+  for (const { word, count } of lists.flat()) {
+    totals.set(word, (totals.get(word) || 0) + count);
+  }
+
+  return [...totals.entries()]
+    .filter(([, count]) => count > 0)
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+}
+
+/**
+ * How often each word was marked in the last few minutes, in a game and in
+ * the room overall.
+ */
+export async function getWordCounts(roomId: string, gameId: string): Promise<WordCounts> {
+  const { wordCounts } = repositories();
+  const now = minuteOf(Date.now());
+  const minutes = Array.from({ length: WINDOW_MINUTES }, (_, i) => now - i);
+
+  const [recent, game, room] = await Promise.all([
+    Promise.all(minutes.map((minute) => wordCounts.list(minuteScope(roomId, minute)))),
+    wordCounts.list(gameScope(gameId)),
+    wordCounts.list(roomScope(roomId)),
+  ]);
+
+  return {
+    recent: total(recent),
+    game: total([game]),
+    room: total([room]),
+  };
+}
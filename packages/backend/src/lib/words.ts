@@ -0,0 +1,228 @@
+import * as uuid from "uuid";
+import { CARD_SIZE } from "./card";
+import { PageRequest, repositories } from "./repositories";
+import { paginate } from "./pagination";
+import { Page, PlayerSession, Suggestion, Vote, Word, WordStatus } from "./types";
+import { ConflictError, ForbiddenError, NotFoundError, VersionConflictError } from "./errors";
+
+/**
+ * Starter word pool, topping up the approved words until there are enough
+ * for a full card.
+ */
+export const DEFAULT_WORDS = [
+  "Synergy",
+  "Paradigm shift",
+  "Digital transformation",
+  "Leverage",
+  "Disruptive",
+  "Agile",
+  "AI-powered",
+  "Generative AI",
+  "Cloud-native",
+  "Low-hanging fruit",
+  "Move the needle",
+  "Circle back",
+  "Deep dive",
+  "Game changer",
+  "Best practice",
+  "North star",
+  "Value add",
+  "Thought leadership",
+  "Ecosystem",
+  "Scalable",
+  "Data-driven",
+  "Innovation",
+  "Holistic",
+  "Empower",
+  "Future-proof",
+  "Hyperautomation",
+  "Single pane of glass",
+  "Zero trust",
+  "Boil the ocean",
+  "Exponential",
+];
+
+export async function listWords(roomId: string, status?: WordStatus) {
+  return repositories().words.list(roomId, status);
+}
+
+/**
+ * A page of a room's pool, by when the words were created.
+ */
+export async function listWordsPage(
+  roomId: string,
+  status: WordStatus | undefined,
+  page: PageRequest,
+  newestFirst = true
+) {
+  return repositories().words.listPage(roomId, status, page, newestFirst);
+}
+
+export function voteThreshold() {
+  return Number(process.env.VOTE_THRESHOLD || 3);
+}
+
+export async function getWord(wordId: string) {
+  return repositories().words.get(wordId);
+}
+
+// What two words are compared by, so "Deep  dive" and "deep dive" match
+export function normalizeWord(text: string) {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Rejects new word text that is already in the room's pool or already
+ * suggested there, in any status, other than by the word being renamed.
+ */
+async function checkWordText(roomId: string, text: string, wordId?: string) {
+  const existing = await listWords(roomId);
+
+  if (existing.some((word) => word.wordId !== wordId && normalizeWord(word.text) === normalizeWord(text))) {
+    throw new ConflictError(`"${text}" has already been suggested`);
+  }
+}
+
+export async function createWord(
+  roomId: string,
+  text: string,
+  status: WordStatus,
+  suggestedBy?: Word["suggestedBy"]
+) {
+  await checkWordText(roomId, text);
+
+  const now = Date.now();
+  const word: Word = {
+    wordId: uuid.v4(),
+    roomId,
+    text,
+    status,
+    votes: 0,
+    suggestedBy,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+  };
+
+  await repositories().words.put(word);
+
+  return word;
+}
+
+/**
+ * Adds a player's word to their room's pending queue.
+ */
+export async function suggestWord(text: string, { sessionId, roomId, nickname }: PlayerSession) {
+  return createWord(roomId, text, "pending", { sessionId, nickname });
+}
+
+/**
+ * Changes a word's text or status, leaving whatever isn't given as it is.
+ */
+export async function updateWord(
+  word: Word,
+  changes: Partial<Pick<Word, "text" | "status">>,
+  version?: number
+) {
+  const { words } = repositories();
+  const { wordId } = word;
+
+  if (changes.text !== undefined) {
+    await checkWordText(word.roomId, changes.text, wordId);
+  }
+
+  const updated = await words.update(wordId, { ...changes, updatedAt: Date.now() }, { version });
+
+  if (updated) {
+    return updated;
+  }
+
+  const current = await words.get(wordId);
+
+  if (!current) {
+    throw new NotFoundError("Word not found");
+  }
+
+  throw new VersionConflictError(`"${current.text}" was changed by someone else first`, current);
+}
+
+/**
+ * Upvotes a pending word, once per session. The vote that reaches the
+ * threshold approves the word.
+ */
+export async function voteForWord(word: Word, sessionId: string) {
+  if (word.status !== "pending") {
+    throw new ConflictError("Voting has closed for this word");
+  }
+
+  if (word.suggestedBy?.sessionId === sessionId) {
+    throw new ForbiddenError("You can't vote for your own suggestion");
+  }
+
+  const { words, votes } = repositories();
+  const vote: Vote = { wordId: word.wordId, sessionId, votedAt: Date.now() };
+
+  if (!(await votes.create(vote))) {
+    throw new ConflictError("You have already voted for this word");
+  }
+
+  const voted = await words.addVote(word.wordId, vote.votedAt);
+
+  if (voted.votes < voteThreshold()) {
+    return voted;
+  }
+
+  // Only the vote that gets there first approves it, and an admin may
+  // have reviewed it in the meantime
+  const approved = await words.update(
+    word.wordId,
+    { status: "approved", updatedAt: Date.now() },
+    { status: "pending" }
+  );
+
+  return approved || voted;
+}
+
+/**
+ * A page of a room's pending queue as one player sees it, most votes first.
+ */
+export async function getSuggestions(
+  { sessionId, roomId }: PlayerSession,
+  page: PageRequest
+): Promise<Page<Suggestion>> {
+  const pending = await listWords(roomId, "pending");
+  const { items, cursor } = paginate(
+    pending.sort((a, b) => (b.votes || 0) - (a.votes || 0) || a.createdAt - b.createdAt),
+    page
+  );
+  const voted = await repositories().votes.listVoted(
+    items.map((word) => word.wordId),
+    sessionId
+  );
+
+  return {
+    items: items.map((word) => ({
+      wordId: word.wordId,
+      text: word.text,
+      votes: word.votes || 0,
+      suggestedBy: word.suggestedBy?.nickname,
+      createdAt: word.createdAt,
+      voted: voted.has(word.wordId),
+      mine: word.suggestedBy?.sessionId === sessionId,
+    })),
+    cursor,
+  };
+}
+
+/**
+ * The approved words a room's cards are drawn from.
+ */
+export async function getApprovedWords(roomId: string): Promise<string[]> {
+  const approved = (await listWords(roomId, "approved")).map((word) => word.text);
+
+  if (approved.length >= CARD_SIZE * CARD_SIZE - 1) {
+    return approved;
+  }
+
+  return [...new Set([...approved, ...DEFAULT_WORDS])];
+}
@@ -0,0 +1,8 @@
+import { randomBytes } from "crypto";
+
+// Stands in for the links `sst dev` provides. The sst package reads them when
+// it is first imported, so this has to be imported before anything else.
+process.env.SST_RESOURCE_App ??= JSON.stringify({ name: "buzzword-bingo", stage: "local" });
+process.env.SST_RESOURCE_SessionSecret ??= JSON.stringify({
+  value: randomBytes(32).toString("base64"),
+});
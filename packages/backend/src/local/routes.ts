@@ -0,0 +1,109 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { BadRequestError } from "../lib/errors";
+
+type Main = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+
+export interface LocalRoute {
+  method: string;
+  // With `{param}` segments, as in the API Gateway routes
+  path: string;
+  // Signed with a Cognito identity at the gateway, see infra/admin.ts
+  iam?: boolean;
+  load: () => Promise<{ main: Main }>;
+}
+
+/**
+ * The routes from infra/api.ts and infra/admin.ts, mounted on the same
+ * handlers. Keep the two in step when adding a route.
+ */
+export const ROUTES: LocalRoute[] = [
+  { method: "POST", path: "/join", load: () => import("../join") },
+  { method: "GET", path: "/links/{token}", load: () => import("../joinLink") },
+  { method: "GET", path: "/rooms/{code}", load: () => import("../room") },
+  { method: "GET", path: "/rooms/{code}/games/current", load: () => import("../current") },
+  { method: "GET", path: "/rooms/{code}/leaderboard", load: () => import("../leaderboard") },
+  { method: "GET", path: "/rooms/{code}/cloud", load: () => import("../cloud") },
+  { method: "GET", path: "/games/{id}/card", load: () => import("../card") },
+  { method: "PUT", path: "/games/{id}/marks/{position}", load: () => import("../mark") },
+  { method: "DELETE", path: "/games/{id}/marks/{position}", load: () => import("../unmark") },
+  { method: "POST", path: "/games/{id}/bingo", load: () => import("../bingo") },
+  { method: "POST", path: "/games/{id}/evidence/upload", load: () => import("../evidenceUpload") },
+  { method: "PUT", path: "/games/{id}/evidence", load: () => import("../evidence") },
+  { method: "GET", path: "/wins", load: () => import("../wins") },
+
+  { method: "GET", path: "/suggestions", load: () => import("../suggestions") },
+  { method: "POST", path: "/suggestions", load: () => import("../suggest") },
+  { method: "PUT", path: "/suggestions/{id}/vote", load: () => import("../vote") },
+
+  { method: "GET", path: "/admin/rooms", iam: true, load: () => import("../admin/listRooms") },
+  { method: "POST", path: "/admin/rooms", iam: true, load: () => import("../admin/createRoom") },
+  { method: "PATCH", path: "/admin/rooms/{id}", iam: true, load: () => import("../admin/updateRoom") },
+  { method: "POST", path: "/admin/rooms/{id}/pin", iam: true, load: () => import("../admin/rotatePin") },
+  { method: "DELETE", path: "/admin/rooms/{id}/pin", iam: true, load: () => import("../admin/expirePin") },
+  { method: "POST", path: "/admin/rooms/{id}/links", iam: true, load: () => import("../admin/createJoinLink") },
+  { method: "DELETE", path: "/admin/rooms/{id}/links", iam: true, load: () => import("../admin/revokeJoinLinks") },
+  { method: "GET", path: "/admin/rooms/{id}/games", iam: true, load: () => import("../admin/listGames") },
+  { method: "POST", path: "/admin/rooms/{id}/games", iam: true, load: () => import("../admin/createGame") },
+  { method: "POST", path: "/admin/games/{id}/end", iam: true, load: () => import("../admin/endGame") },
+  { method: "POST", path: "/admin/games/{id}/reset", iam: true, load: () => import("../admin/resetGame") },
+  { method: "GET", path: "/admin/rooms/{id}/players", iam: true, load: () => import("../admin/listRoomPlayers") },
+  { method: "GET", path: "/admin/games/{id}/players", iam: true, load: () => import("../admin/listPlayers") },
+  { method: "PUT", path: "/admin/games/{id}/winner", iam: true, load: () => import("../admin/declareWinner") },
+  { method: "DELETE", path: "/admin/games/{id}/winner", iam: true, load: () => import("../admin/revokeWinner") },
+  { method: "PUT", path: "/admin/games/{id}/winner/verdict", iam: true, load: () => import("../admin/reviewWinner") },
+  { method: "GET", path: "/admin/games/{id}/events", iam: true, load: () => import("../admin/listGameEvents") },
+  { method: "GET", path: "/admin/games/{id}/replay", iam: true, load: () => import("../admin/replayGame") },
+  { method: "GET", path: "/admin/evidence", iam: true, load: () => import("../admin/listEvidence") },
+  { method: "PATCH", path: "/admin/players/{sessionId}", iam: true, load: () => import("../admin/updatePlayer") },
+  { method: "DELETE", path: "/admin/players/{sessionId}", iam: true, load: () => import("../admin/kickPlayer") },
+  { method: "GET", path: "/admin/rooms/{id}/words", iam: true, load: () => import("../admin/listWords") },
+  { method: "POST", path: "/admin/rooms/{id}/words", iam: true, load: () => import("../admin/createWord") },
+  { method: "PATCH", path: "/admin/words/{id}", iam: true, load: () => import("../admin/updateWord") },
+  { method: "POST", path: "/admin/rooms/{id}/packs/upload", iam: true, load: () => import("../admin/uploadPack") },
+  { method: "POST", path: "/admin/rooms/{id}/packs/preview", iam: true, load: () => import("../admin/previewPack") },
+  { method: "POST", path: "/admin/rooms/{id}/packs/import", iam: true, load: () => import("../admin/importPack") },
+  { method: "GET", path: "/admin/rooms/{id}/packs/export", iam: true, load: () => import("../admin/exportPack") },
+  { method: "GET", path: "/admin/rooms/{id}/results", iam: true, load: () => import("../admin/exportResults") },
+];
+
+// A malformed escape, like "%E0", is the client's mistake
+function decodePathSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new BadRequestError("Invalid path");
+  }
+}
+
+/**
+ * Finds the route for a request, with the values of its path parameters.
+ */
+export function matchRoute(method: string, path: string) {
+  const segments = path.replace(/\/$/, "").split("/");
+
+  for (const route of ROUTES) {
+    const routeSegments = route.path.split("/");
+
+    if (route.method !== method || routeSegments.length !== segments.length) {
+      continue;
+    }
+
+    const pathParameters: Record<string, string> = {};
+    const matches = routeSegments.every((segment, i) => {
+      const param = segment.match(/^\{(\w+)\}$/)?.[1];
+
+      if (param) {
+        pathParameters[param] = decodePathSegment(segments[i]);
+        return segments[i] !== "";
+      }
+
+      return segment === segments[i];
+    });
+
+    if (matches) {
+      return { route, pathParameters };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,190 @@
+import "./env";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { networkInterfaces } from "os";
+import { Writable } from "stream";
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2 } from "aws-lambda";
+import { createMemoryRepositories, setRepositories } from "../lib/repositories";
+import { setFileStorage } from "../lib/files";
+import { setAdminCheck } from "../lib/admins";
+import { createRoom } from "../lib/rooms";
+import { toHttpError } from "../lib/errors";
+import { matchRoute } from "./routes";
+import { createLocalFileStorage, serveUpload, UPLOADS_PATH } from "./uploads";
+
+/*
+ * Runs the API with no AWS account: the handlers are mounted as they are,
+ * on in-memory tables, with uploads in a local folder and admin routes
+ * signed by a stub Cognito identity.
+ */
+
+const PORT = Number(process.env.PORT || 3001);
+// Only this machine can reach it unless HOST says otherwise, e.g. 0.0.0.0 to
+// rehearse with phones on the same network
+const HOST = process.env.HOST || "127.0.0.1";
+
+// This machine's address on the network, for phones to reach it by
+function networkAddress() {
+  return Object.values(networkInterfaces())
+    .flat()
+    .find((address) => address && address.family === "IPv4" && !address.internal)?.address;
+}
+
+// Where the server is reached from, which upload links point at. Phones on
+// the network can't use localhost, so set PUBLIC_URL if they can't use the
+// bound address either.
+function publicUrl() {
+  if (process.env.PUBLIC_URL) {
+    return process.env.PUBLIC_URL.replace(/\/$/, "");
+  }
+
+  const host = HOST === "127.0.0.1" ? "localhost" : HOST === "0.0.0.0" ? networkAddress() || "localhost" : HOST;
+
+  return `http://${host}:${PORT}`;
+}
+
+const BASE_URL = publicUrl();
+const UPLOADS_DIR = process.env.LOCAL_UPLOADS_DIR || ".local/uploads";
+
+// Anyone on this machine is the admin, no matter what HOST is
+const LOCAL_ADMIN = "local-admin";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Session-Token,If-Match",
+  "Access-Control-Allow-Methods": "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+  "Access-Control-Expose-Headers": "Retry-After,ETag",
+};
+
+setRepositories(createMemoryRepositories());
+setFileStorage(createLocalFileStorage(BASE_URL, UPLOADS_DIR));
+setAdminCheck(async (username) => username === LOCAL_ADMIN);
+
+// What the Lambda runtime provides for response streaming, over a plain
+// HTTP response
+globalThis.awslambda = {
+  streamifyResponse: (handler: unknown) => handler,
+  HttpResponseStream: {
+    from(responseStream: Writable, { statusCode, headers }: { statusCode: number; headers?: Record<string, string> }) {
+      (responseStream as ServerResponse).writeHead(statusCode, headers);
+      return responseStream;
+    },
+  },
+} as unknown as typeof awslambda;
+
+function isLoopback(address: string | undefined) {
+  return address === "::1" || !!address?.match(/^(::ffff:)?127\./);
+}
+
+async function readBody(request: IncomingMessage) {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return chunks.length > 0 ? Buffer.concat(chunks).toString() : null;
+}
+
+function toEvent(
+  request: IncomingMessage,
+  url: URL,
+  pathParameters: Record<string, string>,
+  body: string | null,
+  iam: boolean
+) {
+  const cognitoIdentity = {
+    identityId: `local:${LOCAL_ADMIN}`,
+    amr: ["authenticated", `local:CognitoSignIn:${LOCAL_ADMIN}`],
+  };
+
+  return {
+    httpMethod: request.method,
+    path: url.pathname,
+    headers: request.headers,
+    body,
+    pathParameters,
+    queryStringParameters: url.search ? Object.fromEntries(url.searchParams) : null,
+    requestContext: {
+      http: { sourceIp: request.socket.remoteAddress },
+      authorizer: iam ? { iam: { cognitoIdentity } } : undefined,
+    },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+async function streamGame(request: IncomingMessage, url: URL, response: ServerResponse) {
+  const { main } = await import("../stream");
+  const stream = main as unknown as (event: APIGatewayProxyEventV2, responseStream: Writable) => Promise<void>;
+  const lastEventId = request.headers["last-event-id"];
+
+  await stream(
+    {
+      rawPath: url.pathname,
+      headers: typeof lastEventId === "string" ? { "last-event-id": lastEventId } : {},
+    } as APIGatewayProxyEventV2,
+    response
+  );
+}
+
+async function route(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url!, BASE_URL);
+
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  if (url.pathname.startsWith(UPLOADS_PATH)) {
+    for (const [name, value] of Object.entries(CORS_HEADERS)) {
+      response.setHeader(name, value);
+    }
+    await serveUpload(UPLOADS_DIR, request, response);
+    return;
+  }
+
+  if (request.method === "GET" && /^\/games\/[^/]+\/stream\/?$/.test(url.pathname)) {
+    await streamGame(request, url, response);
+    return;
+  }
+
+  const matched = matchRoute(request.method!, url.pathname);
+
+  if (!matched) {
+    response.writeHead(404, { ...CORS_HEADERS, "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: "Not found", code: "not-found" }));
+    return;
+  }
+
+  const { route, pathParameters } = matched;
+  const { main } = await route.load();
+  // Admin requests from anywhere else go unsigned, and are turned away
+  const iam = !!route.iam && isLoopback(request.socket.remoteAddress);
+  const event = toEvent(request, url, pathParameters, await readBody(request), iam);
+  const result = await main(event);
+
+  response.writeHead(result.statusCode, result.headers as Record<string, string>);
+  response.end(result.body);
+}
+
+createServer((request, response) => {
+  route(request, response).catch((error) => {
+    const httpError = toHttpError(error);
+
+    if (httpError.statusCode >= 500) {
+      console.error(error);
+    }
+
+    if (!response.headersSent) {
+      response.writeHead(httpError.statusCode, { ...CORS_HEADERS, "Content-Type": "application/json" });
+      response.end(JSON.stringify(httpError));
+      return;
+    }
+    response.end();
+  });
+}).listen(PORT, HOST, async () => {
+  // A room to play in straight away
+  const room = await createRoom("Main stage");
+
+  console.log(`Buzzword Bingo is running offline at ${BASE_URL}, listening on ${HOST}`);
+  console.log(`Start the frontend with VITE_LOCAL_API_URL=${BASE_URL}`);
+  console.log(`Join ${room.name} with PIN ${room.pin}, or at /r/${room.roomCode}`);
+});
@@ -0,0 +1,93 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, extname, resolve, sep } from "path";
+import { IncomingMessage, ServerResponse } from "http";
+import { FileStorage } from "../lib/files";
+
+export const UPLOADS_PATH = "/uploads/";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".gif": "image/gif",
+  ".csv": "text/csv",
+  ".json": "application/json",
+};
+
+// Keys come from the URL, so make sure they can't climb out of the folder
+function filePath(folder: string, key: string) {
+  const root = resolve(folder);
+  const path = resolve(root, key);
+
+  return path.startsWith(root + sep) ? path : undefined;
+}
+
+/**
+ * Upload URLs for the local server, which keeps the files in a folder (see
+ * serveUpload) in place of the Uploads bucket.
+ */
+export function createLocalFileStorage(baseUrl: string, folder: string): FileStorage {
+  const url = (key: string) => `${baseUrl}${UPLOADS_PATH}${key}`;
+
+  return {
+    async uploadUrl(key) {
+      return url(key);
+    },
+
+    async viewUrl(key) {
+      return url(key);
+    },
+
+    async read(key) {
+      const path = filePath(folder, key);
+
+      try {
+        return path && (await readFile(path, "utf8"));
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+/**
+ * Stores a PUT, or serves a GET, under /uploads/ from the folder.
+ */
+export async function serveUpload(
+  folder: string,
+  request: IncomingMessage,
+  response: ServerResponse
+) {
+  const key = decodeURIComponent(request.url!.split("?")[0].slice(UPLOADS_PATH.length));
+  const path = filePath(folder, key);
+
+  if (!path) {
+    response.writeHead(400).end();
+    return;
+  }
+
+  if (request.method === "PUT") {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, Buffer.concat(chunks));
+    response.writeHead(200).end();
+    return;
+  }
+
+  try {
+    const file = await readFile(path);
+
+    response.writeHead(200, {
+      "Content-Type": CONTENT_TYPES[extname(path)] || "application/octet-stream",
+    });
+    response.end(file);
+  } catch {
+    response.writeHead(404).end();
+  }
+}
@@ -0,0 +1,74 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { FREE_INDEX, getCard } from "./lib/card";
+import { markId, saveMark } from "./lib/marks";
+import { playerActor, recordEvent } from "./lib/events";
+import { getRoomGame } from "./lib/game";
+import { Game, Mark } from "./lib/types";
+import { markRequest, squarePath } from "./lib/schemas";
+import { BadRequestError, GameClosedError, NotFoundError } from "./lib/errors";
+
+const schema = { path: squarePath, body: markRequest };
+
+// A late mark keeps its own time, as long as it falls within the game
+function markTime(game: Game, markedAt?: number) {
+  const now = Date.now();
+
+  if (markedAt === undefined) {
+    return now;
+  }
+
+  const startedAt = game.history.find((transition) => transition.to === "active")?.at ?? now;
+
+  return Math.min(now, Math.max(startedAt, markedAt));
+}
+
+async function markSquare(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { path: { id: gameId, position }, body: { markedAt } }: Input<typeof schema>
+) {
+  const { sessionId, roomId } = session;
+
+  if (position === FREE_INDEX) {
+    throw new BadRequestError("The free space is always marked");
+  }
+
+  const game = await getRoomGame(gameId, roomId);
+
+  if (!game || game.state !== "active") {
+    throw new GameClosedError("Game is not active");
+  }
+
+  const card = await getCard(gameId, sessionId);
+
+  if (!card) {
+    throw new NotFoundError("Card not found");
+  }
+
+  const mark: Mark = {
+    gameId,
+    markId: markId(sessionId, position),
+    sessionId,
+    roomId,
+    position,
+    word: card.words[position],
+    markedAt: markTime(game, markedAt),
+  };
+
+  if (await saveMark(mark)) {
+    await recordEvent(
+      { roomId, gameId, actor: playerActor(session) },
+      { type: "mark", data: { position, word: mark.word } }
+    );
+  }
+
+  return JSON.stringify(mark);
+}
+
+export const main = handler(markSquare, {
+  auth: "player",
+  rateLimits: [RATE_LIMITS.marks],
+  schema,
+});
@@ -0,0 +1,24 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Input } from "./lib/handler";
+import { getRoomByCode, toPublicRoom } from "./lib/rooms";
+import { roomCodePath } from "./lib/schemas";
+import { NotFoundError } from "./lib/errors";
+
+const schema = { path: roomCodePath };
+
+// What a room link opens on, before the player has joined
+async function getRoom(
+  _event: APIGatewayProxyEvent,
+  _identity: undefined,
+  { path: { code } }: Input<typeof schema>
+) {
+  const room = await getRoomByCode(code);
+
+  if (!room) {
+    throw new NotFoundError("Room not found");
+  }
+
+  return JSON.stringify(toPublicRoom(room));
+}
+
+export const main = handler(getRoom, { schema });
@@ -0,0 +1,121 @@
+import { Writable } from "stream";
+import { APIGatewayProxyEventV2 } from "aws-lambda";
+import { getGame, settleGames } from "./lib/game";
+import { getLatestSeq } from "./lib/events";
+import { getSharedSnapshot } from "./lib/leaderboard";
+import { openEventStream, writeEvent } from "./lib/stream";
+import { Game, GameEvent, GameSnapshot } from "./lib/types";
+
+// How often the room's log is checked for changes while a client is connected
+const TICK_MS = 2000;
+// Streams are closed well before the Lambda timeout, the browser reconnects
+const STREAM_MS = 5 * 60 * 1000;
+const RETRY_MS = 1000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function diffSnapshots(previous: GameSnapshot, next: GameSnapshot): GameEvent[] {
+  // Anything the typed events don't describe (e.g. a revoked win) resyncs
+  if (previous.game.state !== next.game.state && !(!previous.winner && next.winner)) {
+    return [{ type: "snapshot", data: next }];
+  }
+
+  const events: GameEvent[] = [];
+  const added = next.words.filter((word) => !previous.words.includes(word));
+
+  if (JSON.stringify(previous.leaderboard) !== JSON.stringify(next.leaderboard)) {
+    events.push({ type: "marks", data: { leaderboard: next.leaderboard } });
+  }
+
+  if (added.length > 0) {
+    events.push({ type: "words", data: { added } });
+  }
+
+  // A new winner, or the same one confirmed or overturned
+  if (next.winner && JSON.stringify(previous.winner) !== JSON.stringify(next.winner)) {
+    events.push({ type: "winner", data: { game: next.game, winner: next.winner } });
+  }
+
+  return events;
+}
+
+// Whether settling the room would move it on from the game: it's waiting to
+// start, over, or its celebration has run out
+function isDueToSettle(game: Game) {
+  return game.state === "queued" || game.state === "complete" ||
+    (game.state === "celebrating" && !!game.celebrationEndsAt && game.celebrationEndsAt <= Date.now());
+}
+
+/**
+ * Streams `/games/{id}/stream` as Server-Sent Events. Event ids are the
+ * room's event log sequence number, which moves on whenever anything
+ * happens in the room. Every connection starts with a full snapshot, so
+ * clients never have to replay missed events, unless it's a reconnect with
+ * a `Last-Event-ID` that shows nothing was missed. After that only what
+ * changed is sent.
+ *
+ * Each tick only reads the room's sequence number. Snapshots are shared by
+ * every connection following the game, see getSharedSnapshot(), and the
+ * room is only settled when that would move the game on.
+ */
+async function streamGame(event: APIGatewayProxyEventV2, responseStream: Writable) {
+  const gameId = event.rawPath.match(/^\/games\/([^/]+)\/stream\/?$/)?.[1];
+  const lastEventId = Number(event.headers?.["last-event-id"]);
+  const stream = openEventStream(responseStream, RETRY_MS);
+
+  const game = gameId ? await getGame(gameId) : undefined;
+
+  // Nothing to follow, and no room to point the client at instead
+  if (!game) {
+    stream.end();
+    return;
+  }
+
+  let { seq, snapshot } = await getSharedSnapshot(game, await getLatestSeq(game.roomId));
+
+  if (lastEventId !== seq) {
+    writeEvent(stream, seq, { type: "snapshot", data: snapshot });
+  }
+
+  const endAt = Date.now() + STREAM_MS;
+
+  while (Date.now() < endAt) {
+    await sleep(TICK_MS);
+
+    if (isDueToSettle(snapshot.game)) {
+      // Settling here also drives the rollover for rooms nobody is polling
+      const current = await settleGames(game.roomId);
+
+      if (current.gameId !== game.gameId) {
+        writeEvent(stream, seq, { type: "rollover", data: { game: current } });
+        break;
+      }
+    }
+
+    const latestSeq = await getLatestSeq(game.roomId);
+
+    // Nothing happened in the room since the last tick
+    if (latestSeq === seq) {
+      continue;
+    }
+
+    const shared = await getSharedSnapshot(snapshot.game, latestSeq);
+
+    // Still being rebuilt by another connection
+    if (shared.seq <= seq) {
+      continue;
+    }
+
+    for (const change of diffSnapshots(snapshot, shared.snapshot)) {
+      writeEvent(stream, shared.seq, change);
+    }
+
+    ({ seq, snapshot } = shared);
+  }
+
+  stream.end();
+}
+
+export const main = awslambda.streamifyResponse(streamGame);
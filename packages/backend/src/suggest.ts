@@ -0,0 +1,29 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { suggestWord } from "./lib/words";
+import { playerActor, recordEvent } from "./lib/events";
+import { createWordRequest } from "./lib/schemas";
+
+const schema = { body: createWordRequest };
+
+async function suggest(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { body }: Input<typeof schema>
+) {
+  const word = await suggestWord(body.text, session);
+
+  await recordEvent(
+    { roomId: word.roomId, actor: playerActor(session) },
+    { type: "words-added", data: { words: [{ wordId: word.wordId, text: word.text, status: word.status }] } }
+  );
+
+  return JSON.stringify(word);
+}
+
+export const main = handler(suggest, {
+  auth: "player",
+  rateLimits: [RATE_LIMITS.suggestions],
+  schema,
+});
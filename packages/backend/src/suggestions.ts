@@ -0,0 +1,16 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { getSuggestions } from "./lib/words";
+import { listSuggestionsQuery } from "./lib/schemas";
+
+const schema = { query: listSuggestionsQuery };
+
+async function listSuggestions(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { query }: Input<typeof schema>
+) {
+  return JSON.stringify(await getSuggestions(session, query));
+}
+
+export const main = handler(listSuggestions, { auth: "player", schema });
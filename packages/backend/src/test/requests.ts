@@ -0,0 +1,80 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { main as join } from "../join";
+import { main as getCard } from "../card";
+import { main as mark } from "../mark";
+import { settleGames } from "../lib/game";
+import { createRoom } from "../lib/rooms";
+import { CardResponse, JoinResponse, Room } from "../lib/types";
+
+type Main = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+
+interface Request {
+  token?: string;
+  path?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Runs a handler the way API Gateway would, with the response body parsed.
+ */
+export async function call<T = unknown>(main: Main, { token, path, query, body, headers }: Request = {}) {
+  const response = await main({
+    headers: { ...(token ? { "x-session-token": token } : {}), ...headers },
+    body: body === undefined ? null : JSON.stringify(body),
+    pathParameters: path ?? null,
+    queryStringParameters: query ?? null,
+    requestContext: { http: { sourceIp: "127.0.0.1" } },
+  } as unknown as APIGatewayProxyEvent);
+
+  return {
+    statusCode: response.statusCode,
+    headers: response.headers,
+    body: JSON.parse(response.body) as T,
+  };
+}
+
+/**
+ * A room with its first game already active.
+ */
+export async function createPlayingRoom(name = "Main stage") {
+  const room = await createRoom(name);
+  const game = await settleGames(room.roomId);
+
+  return { room, game };
+}
+
+export async function joinRoom(room: Room, nickname: string) {
+  const { statusCode, body } = await call<JoinResponse>(join, {
+    body: { nickname, pin: room.pin },
+  });
+
+  if (statusCode !== 200) {
+    throw new Error(`Joining as ${nickname} failed with ${statusCode}: ${JSON.stringify(body)}`);
+  }
+
+  return body;
+}
+
+export async function dealCard(player: JoinResponse, gameId: string) {
+  const { body } = await call<CardResponse>(getCard, {
+    token: player.token,
+    path: { id: gameId },
+  });
+
+  return body;
+}
+
+export async function markSquares(player: JoinResponse, gameId: string, positions: number[]) {
+  for (const position of positions) {
+    const { statusCode, body } = await call(mark, {
+      token: player.token,
+      path: { id: gameId, position: String(position) },
+    });
+
+    if (statusCode !== 200) {
+      throw new Error(`Marking ${position} failed with ${statusCode}: ${JSON.stringify(body)}`);
+    }
+  }
+}
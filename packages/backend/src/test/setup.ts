@@ -0,0 +1,9 @@
+// Has to come first, the sst package reads its links when it's imported
+import "../local/env";
+import { beforeEach } from "vitest";
+import { createMemoryRepositories, setRepositories } from "../lib/repositories";
+
+// Every test starts from empty tables
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+});
@@ -0,0 +1,41 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { deleteMark } from "./lib/marks";
+import { playerActor, recordEvent } from "./lib/events";
+import { getRoomGame } from "./lib/game";
+import { squarePath } from "./lib/schemas";
+import { GameClosedError } from "./lib/errors";
+
+const schema = { path: squarePath };
+
+async function unmarkSquare(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { path: { id: gameId, position } }: Input<typeof schema>
+) {
+  // Unmarks sent late, after the player was offline, can't change a game
+  // that has since ended
+  const game = await getRoomGame(gameId, session.roomId);
+
+  if (!game || game.state !== "active") {
+    throw new GameClosedError("Game is not active");
+  }
+
+  const mark = await deleteMark(gameId, session.sessionId, position);
+
+  if (mark) {
+    await recordEvent(
+      { roomId: session.roomId, gameId, actor: playerActor(session) },
+      { type: "unmark", data: { position, word: mark.word } }
+    );
+  }
+
+  return JSON.stringify({ status: true });
+}
+
+export const main = handler(unmarkSquare, {
+  auth: "player",
+  rateLimits: [RATE_LIMITS.marks],
+  schema,
+});
@@ -0,0 +1,46 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities, Input } from "./lib/handler";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { getWord, voteForWord } from "./lib/words";
+import { playerActor, recordEvent, SYSTEM_ACTOR } from "./lib/events";
+import { wordPath } from "./lib/schemas";
+import { NotFoundError } from "./lib/errors";
+
+const schema = { path: wordPath };
+
+async function vote(
+  _event: APIGatewayProxyEvent,
+  session: Identities["player"],
+  { path }: Input<typeof schema>
+) {
+  const word = await getWord(path.id);
+
+  // Players only see their own room's suggestions
+  if (!word || word.roomId !== session.roomId) {
+    throw new NotFoundError("Word not found");
+  }
+
+  const voted = await voteForWord(word, session.sessionId);
+  const { wordId, roomId } = word;
+
+  await recordEvent(
+    { roomId, actor: playerActor(session) },
+    { type: "word-voted", data: { wordId, votes: voted.votes } }
+  );
+
+  // This vote reached the threshold
+  if (voted.status === "approved") {
+    await recordEvent(
+      { roomId, actor: SYSTEM_ACTOR },
+      { type: "word-changed", data: { wordId, status: "approved" } }
+    );
+  }
+
+  return JSON.stringify(voted);
+}
+
+export const main = handler(vote, {
+  auth: "player",
+  rateLimits: [RATE_LIMITS.votes],
+  schema,
+});
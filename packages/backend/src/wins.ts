@@ -0,0 +1,9 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { handler, Identities } from "./lib/handler";
+import { getPlayerWins } from "./lib/winners";
+
+async function listWins(_event: APIGatewayProxyEvent, { sessionId }: Identities["player"]) {
+  return JSON.stringify(await getPlayerWins(sessionId));
+}
+
+export const main = handler(listWins, { auth: "player" });
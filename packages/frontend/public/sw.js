@@ -0,0 +1,93 @@
+/*
+ * Keeps the app loading without a connection, so players can still see and
+ * mark their card when the conference Wi-Fi drops. Every page is the same
+ * app shell, fetched fresh when online and from the cache when not. The
+ * build's scripts and styles are all cached when the worker installs. API
+ * calls go to another origin and are left alone, marks made offline are
+ * queued by the app, see src/lib/offlineLib.ts.
+ */
+
+// Filled in by the build with its hashed assets, see vite.config.ts
+const BUILD = { version: "dev", assets: [] };
+
+// Each build gets its own cache, everything cached by an older one is dropped
+const CACHE = `buzzword-bingo-${BUILD.version}`;
+
+const SHELL = [
+  "/",
+  "/site.webmanifest",
+  "/favicon-32x32.png",
+  "/android-chrome-192x192.png",
+  "/android-chrome-256x256.png",
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll([...SHELL, ...BUILD.assets]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function fetchPage(request) {
+  const cache = await caches.open(CACHE);
+
+  try {
+    const response = await fetch(request);
+
+    if (response.ok) {
+      await cache.put("/", response.clone());
+    }
+
+    return response;
+  } catch (e) {
+    const shell = await cache.match("/");
+
+    if (shell) {
+      return shell;
+    }
+
+    throw e;
+  }
+}
+
+// Build assets have hashed names, so a cached copy never goes stale. Anything
+// not cached at install, like a lazily loaded image, is cached once used.
+async function fetchAsset(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  event.respondWith(request.mode === "navigate" ? fetchPage(request) : fetchAsset(request));
+});
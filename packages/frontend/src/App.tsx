@@ -1,25 +1,40 @@
 import { useState, useEffect } from "react";
 import { Auth } from "aws-amplify";
+import config from "./config";
 import Nav from "react-bootstrap/Nav";
 import { onError } from "./lib/errorLib";
 import Navbar from "react-bootstrap/Navbar";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { LinkContainer } from "react-router-bootstrap";
 import { AppContext, AppContextType } from "./lib/contextLib";
+import { loadSession, clearSession } from "./lib/sessionLib";
+import { SessionType } from "./types/session";
+import Announcements from "./components/Announcements.tsx";
+import Notices from "./components/Notices.tsx";
 import Routes from "./Routes.tsx";
 import "./App.css";
 
 function App() {
   const nav = useNavigate();
+  const { pathname } = useLocation();
+  // The projector status screen runs full width without the navbar
+  const isStatusScreen = pathname.startsWith("/status");
 
   const [isAuthenticating, setIsAuthenticating] = useState(true);
   const [isAuthenticated, userHasAuthenticated] = useState(false);
+  const [session, setSession] = useState<SessionType | null>(loadSession);
 
   useEffect(() => {
     onLoad();
   }, []);
 
   async function onLoad() {
+    if (config.isLocal) {
+      userHasAuthenticated(true);
+      setIsAuthenticating(false);
+      return;
+    }
+
     try {
       await Auth.currentSession();
       userHasAuthenticated(true);
@@ -33,48 +48,86 @@ function App() {
   }
 
   async function handleLogout() {
-    await Auth.signOut();
+    if (!config.isLocal) {
+      await Auth.signOut();
+    }
 
     userHasAuthenticated(false);
 
     nav("/login");
   }
 
+  function handleLeave() {
+    clearSession();
+
+    setSession(null);
+
+    nav("/join");
+  }
+
   return (
     !isAuthenticating && (
-      <div className="App container py-3">
-        <Navbar collapseOnSelect bg="light" expand="md" className="mb-3 px-3">
-          <LinkContainer to="/">
-            <Navbar.Brand className="fw-bold text-muted">Scratch</Navbar.Brand>
-          </LinkContainer>
-          <Navbar.Toggle />
-          <Navbar.Collapse className="justify-content-end">
-            <Nav activeKey={window.location.pathname}>
-              {isAuthenticated ? (
-                <>
-                  <LinkContainer to="/settings">
-                    <Nav.Link>Settings</Nav.Link>
-                  </LinkContainer>
-                  <Nav.Link onClick={handleLogout}>Logout</Nav.Link>
-                </>
-              ) : (
-                <>
-                  <LinkContainer to="/signup">
-                    <Nav.Link>Signup</Nav.Link>
+      <div className={`App py-3 ${isStatusScreen ? "container-fluid" : "container"}`}>
+        {!isStatusScreen && (
+          <Navbar collapseOnSelect bg="light" expand="md" className="mb-3 px-3">
+            <LinkContainer to="/">
+              <Navbar.Brand className="fw-bold text-muted">Buzzword Bingo</Navbar.Brand>
+            </LinkContainer>
+            <Navbar.Toggle />
+            <Navbar.Collapse className="justify-content-end">
+              <Nav activeKey={window.location.pathname}>
+                {session ? (
+                  <>
+                    <Navbar.Text className="me-2">
+                      Playing as <span className="fw-bold">{session.nickname}</span>{" "}
+                      in {session.room.name}
+                    </Navbar.Text>
+                    <LinkContainer to="/suggest">
+                      <Nav.Link>Suggest</Nav.Link>
+                    </LinkContainer>
+                    <LinkContainer to="/wins">
+                      <Nav.Link>My wins</Nav.Link>
+                    </LinkContainer>
+                    <Nav.Link onClick={handleLeave}>Leave</Nav.Link>
+                  </>
+                ) : (
+                  <LinkContainer to="/join">
+                    <Nav.Link>Join</Nav.Link>
                   </LinkContainer>
-                  <LinkContainer to="/login">
-                    <Nav.Link>Login</Nav.Link>
+                )}
+                {isAuthenticated ? (
+                  <>
+                    <LinkContainer to="/admin">
+                      <Nav.Link>Admin</Nav.Link>
+                    </LinkContainer>
+                    <LinkContainer to="/settings">
+                      <Nav.Link>Settings</Nav.Link>
+                    </LinkContainer>
+                    <Nav.Link onClick={handleLogout}>Logout</Nav.Link>
+                  </>
+                ) : (
+                  <LinkContainer to="/admin">
+                    <Nav.Link>Admin</Nav.Link>
                   </LinkContainer>
-                </>
-              )}
-            </Nav>
-          </Navbar.Collapse>
-        </Navbar>
+                )}
+              </Nav>
+            </Navbar.Collapse>
+          </Navbar>
+        )}
         <AppContext.Provider
-          value={{ isAuthenticated, userHasAuthenticated } as AppContextType}
+          value={
+            {
+              isAuthenticated,
+              userHasAuthenticated,
+              session,
+              setSession,
+            } as AppContextType
+          }
         >
           <Routes />
         </AppContext.Provider>
+        <Announcements />
+        <Notices />
       </div>
     )
   );
@@ -1,11 +1,16 @@
 import { Route, Routes } from "react-router-dom";
 import Home from "./containers/Home.tsx";
+import Admin from "./containers/Admin.tsx";
+import Join from "./containers/Join.tsx";
 import Login from "./containers/Login.tsx";
-import Notes from "./containers/Notes.tsx";
-import Signup from "./containers/Signup.tsx";
-import NewNote from "./containers/NewNote.tsx";
+import Play from "./containers/Play.tsx";
+import Status from "./containers/Status.tsx";
+import Cloud from "./containers/Cloud.tsx";
+import Suggest from "./containers/Suggest.tsx";
+import Wins from "./containers/Wins.tsx";
 import Settings from "./containers/Settings.tsx";
 import NotFound from "./containers/NotFound.tsx";
+import PlayerRoute from "./components/PlayerRoute.tsx";
 import AuthenticatedRoute from "./components/AuthenticatedRoute.tsx";
 import UnauthenticatedRoute from "./components/UnauthenticatedRoute.tsx";
 
@@ -21,35 +26,48 @@ export default function Links() {
           </UnauthenticatedRoute>
         }
       />
+      <Route path="/join" element={<Join />} />
+      <Route path="/r/:roomCode" element={<Join />} />
+      <Route path="/j/:link" element={<Join />} />
+      <Route path="/status/:roomCode" element={<Status />} />
+      <Route path="/status/:roomCode/cloud" element={<Cloud />} />
       <Route
-        path="/signup"
+        path="/play"
         element={
-          <UnauthenticatedRoute>
-            <Signup />
-          </UnauthenticatedRoute>
+          <PlayerRoute>
+            <Play />
+          </PlayerRoute>
         }
       />
       <Route
-        path="/settings"
+        path="/suggest"
         element={
-          <AuthenticatedRoute>
-            <Settings />
-          </AuthenticatedRoute>
+          <PlayerRoute>
+            <Suggest />
+          </PlayerRoute>
         }
       />
       <Route
-        path="/notes/new"
+        path="/wins"
+        element={
+          <PlayerRoute>
+            <Wins />
+          </PlayerRoute>
+        }
+      />
+      <Route
+        path="/admin"
         element={
           <AuthenticatedRoute>
-            <NewNote />
+            <Admin />
           </AuthenticatedRoute>
         }
       />
       <Route
-        path="/notes/:id"
+        path="/settings"
         element={
           <AuthenticatedRoute>
-            <Notes />
+            <Settings />
           </AuthenticatedRoute>
         }
       />
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { API } from "aws-amplify";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Card from "react-bootstrap/Card";
+import Image from "react-bootstrap/Image";
+import Stack from "react-bootstrap/Stack";
+import { onError } from "../lib/errorLib";
+import { usePagedList } from "../lib/hooksLib";
+import LoadMore from "./LoadMore";
+import LoaderButton from "./LoaderButton";
+import { EvidenceReviewType, WinnerVerdict } from "../types/game";
+import { RoomType } from "../types/room";
+
+function formatTime(at: number) {
+  return new Date(at).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function AdminEvidence({ room }: { room: RoomType }) {
+  const [reviewing, setReviewing] = useState<null | string>(null);
+  const {
+    items: reviews,
+    setItems: setReviews,
+    hasMore,
+    isLoading,
+    hasFailed,
+    reload,
+    loadMore,
+    retry,
+  } = usePagedList<EvidenceReviewType>("/admin/evidence", {
+    roomId: room.roomId,
+  });
+
+  async function review({ game, winner }: EvidenceReviewType, verdict: WinnerVerdict) {
+    if (
+      verdict === "overturned" &&
+      !window.confirm(`Overturn ${winner.nickname}'s win in game ${game.gameNumber}?`)
+    ) {
+      return;
+    }
+
+    setReviewing(game.gameId);
+
+    try {
+      await API.put("bingo", `/admin/games/${game.gameId}/winner/verdict`, {
+        body: { verdict },
+      });
+      setReviews((reviews) =>
+        reviews.filter((r) => r.game.gameId !== game.gameId)
+      );
+    } catch (e) {
+      onError(e);
+    }
+
+    setReviewing(null);
+  }
+
+  function renderReview(item: EvidenceReviewType) {
+    const { game, winner, photoUrl } = item;
+    const isReviewing = reviewing === game.gameId;
+
+    return (
+      <Card key={game.gameId}>
+        <Card.Body>
+          <Card.Title>
+            {winner.nickname}{" "}
+            <span className="text-muted">&middot; Game {game.gameNumber}</span>{" "}
+            <Badge bg="secondary">{game.state}</Badge>
+          </Card.Title>
+          {winner.line && (
+            <Card.Text>
+              Winning {winner.line.kind}: {winner.line.words.join(", ")}
+            </Card.Text>
+          )}
+          {!winner.evidence && (
+            <Card.Text className="text-muted">No evidence submitted.</Card.Text>
+          )}
+          {photoUrl && (
+            <a href={photoUrl} target="_blank" rel="noreferrer">
+              <Image src={photoUrl} alt="Evidence photo" thumbnail className="mb-3" />
+            </a>
+          )}
+          {winner.evidence?.quotes.map((quote) => (
+            <blockquote key={quote.word} className="mb-2">
+              <span className="fw-bold">{quote.word}</span>{" "}
+              <span className="text-muted">at {formatTime(quote.at)}</span>
+              <div>&ldquo;{quote.quote}&rdquo;</div>
+            </blockquote>
+          ))}
+          <Stack direction="horizontal" gap={2} className="mt-3">
+            <LoaderButton
+              variant="success"
+              isLoading={isReviewing}
+              onClick={() => review(item, "confirmed")}
+            >
+              Confirm
+            </LoaderButton>
+            <LoaderButton
+              variant="outline-danger"
+              isLoading={isReviewing}
+              onClick={() => review(item, "overturned")}
+            >
+              Overturn
+            </LoaderButton>
+          </Stack>
+        </Card.Body>
+      </Card>
+    );
+  }
+
+  return (
+    <Stack gap={3}>
+      <Stack direction="horizontal" className="justify-content-between">
+        <h4>Wins awaiting review</h4>
+        <Button variant="link" onClick={reload}>
+          Refresh
+        </Button>
+      </Stack>
+      {reviews.map(renderReview)}
+      <LoadMore
+        hasMore={hasMore}
+        isLoading={isLoading}
+        hasFailed={hasFailed}
+        onLoadMore={loadMore}
+        onRetry={retry}
+      />
+      {!isLoading && !hasFailed && reviews.length === 0 && (
+        <p className="text-muted">Nothing to review.</p>
+      )}
+    </Stack>
+  );
+}
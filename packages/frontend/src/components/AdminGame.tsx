@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useState } from "react";
+import { API } from "aws-amplify";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Stack from "react-bootstrap/Stack";
+import Table from "react-bootstrap/Table";
+import { getErrorCode, onError } from "../lib/errorLib";
+import { ifMatch } from "../lib/awsLib";
+import { useGameStream } from "../lib/streamLib";
+import { usePagedList } from "../lib/hooksLib";
+import AdminGameLog from "./AdminGameLog";
+import LoadMore from "./LoadMore";
+import LoaderButton from "./LoaderButton";
+import {
+  CurrentGameType,
+  GameType,
+  PlayerStandingType,
+} from "../types/game";
+import { RoomType } from "../types/room";
+
+export default function AdminGame({ room }: { room: RoomType }) {
+  const { roomId, roomCode } = room;
+  const [current, setCurrent] = useState<null | GameType>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const { snapshot } = useGameStream(current?.gameId);
+
+  const game = snapshot?.game || current;
+  const gameId = game?.gameId;
+
+  const loadGame = useCallback(async () => {
+    try {
+      const { game }: CurrentGameType = await API.get(
+        "bingo",
+        `/rooms/${roomCode}/games/current`,
+        {}
+      );
+      setCurrent(game);
+    } catch (e) {
+      onError(e);
+    }
+  }, [roomCode]);
+
+  const {
+    items: players,
+    hasMore,
+    isLoading,
+    hasFailed,
+    reload: loadPlayers,
+    loadMore,
+    retry,
+  } = usePagedList<PlayerStandingType>(
+    gameId && `/admin/games/${gameId}/players`
+  );
+
+  useEffect(() => {
+    loadGame();
+  }, [loadGame]);
+
+  async function run(action: () => Promise<unknown>, confirmation?: string) {
+    if (confirmation && !window.confirm(confirmation)) {
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      await action();
+      await loadGame();
+      await loadPlayers();
+    } catch (e) {
+      onError(e);
+
+      // Another admin got there first, show what they did
+      if (getErrorCode(e) === "version-conflict") {
+        await loadGame();
+        await loadPlayers();
+      }
+    }
+
+    setIsWorking(false);
+  }
+
+  function handleRename(player: PlayerStandingType) {
+    const nickname = window.prompt("Rename this player", player.nickname)?.trim();
+
+    if (nickname && nickname !== player.nickname) {
+      run(() =>
+        API.patch("bingo", `/admin/players/${player.sessionId}`, {
+          headers: ifMatch(player),
+          body: { nickname },
+        })
+      );
+    }
+  }
+
+  if (!game) {
+    return null;
+  }
+
+  const winner = snapshot?.winner;
+  const path = `/admin/games/${game.gameId}`;
+  // Game actions only apply to the game as it's shown here
+  const headers = ifMatch(game);
+
+  return (
+    <Stack gap={3}>
+      <div>
+        <h3>
+          Game {game.gameNumber} <Badge bg="secondary">{game.state}</Badge>
+        </h3>
+        {winner && (
+          <p>
+            Won by <span className="fw-bold">{winner.nickname}</span>
+            {winner.declaredBy && ` (declared by ${winner.declaredBy})`}
+          </p>
+        )}
+      </div>
+      <Stack direction="horizontal" gap={2} className="flex-wrap">
+        <LoaderButton
+          variant="outline-danger"
+          isLoading={isWorking}
+          onClick={() =>
+            run(
+              () => API.post("bingo", `${path}/end`, { headers }),
+              "End this game for everyone?"
+            )
+          }
+        >
+          End game
+        </LoaderButton>
+        <LoaderButton
+          variant="outline-danger"
+          isLoading={isWorking}
+          onClick={() =>
+            run(
+              () => API.post("bingo", `${path}/reset`, { headers }),
+              "Throw this game away and start a new one?"
+            )
+          }
+        >
+          Reset game
+        </LoaderButton>
+        {winner && (
+          <LoaderButton
+            variant="outline-warning"
+            isLoading={isWorking}
+            onClick={() =>
+              run(
+                () => API.del("bingo", `${path}/winner`, { headers }),
+                `Revoke ${winner.nickname}'s win?`
+              )
+            }
+          >
+            Revoke winner
+          </LoaderButton>
+        )}
+        <LoaderButton
+          variant="outline-primary"
+          isLoading={isWorking}
+          onClick={() =>
+            run(() => API.post("bingo", `/admin/rooms/${roomId}/games`, {}))
+          }
+        >
+          Queue a game
+        </LoaderButton>
+      </Stack>
+      <div>
+        <Stack direction="horizontal" className="justify-content-between">
+          <h4>Players</h4>
+          <Button variant="link" onClick={loadPlayers}>
+            Refresh
+          </Button>
+        </Stack>
+        <Table size="sm" hover responsive>
+          <thead>
+            <tr>
+              <th>Nickname</th>
+              <th>Marked</th>
+              <th>To bingo</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {players.map((player) => (
+              <tr key={player.sessionId}>
+                <td>{player.nickname}</td>
+                <td>{player.marked}</td>
+                <td>{player.toBingo}</td>
+                <td className="text-end text-nowrap">
+                  <Button
+                    size="sm"
+                    variant="link"
+                    disabled={isWorking}
+                    onClick={() => handleRename(player)}
+                  >
+                    Rename
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="link"
+                    disabled={isWorking || !!winner}
+                    onClick={() =>
+                      run(
+                        () =>
+                          API.put("bingo", `${path}/winner`, {
+                            headers,
+                            body: { sessionId: player.sessionId },
+                          }),
+                        `Declare ${player.nickname} the winner?`
+                      )
+                    }
+                  >
+                    Declare winner
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="link"
+                    className="text-danger"
+                    disabled={isWorking}
+                    onClick={() =>
+                      run(
+                        () =>
+                          API.del("bingo", `/admin/players/${player.sessionId}`, {
+                            headers: ifMatch(player),
+                          }),
+                        `Ban ${player.nickname}?`
+                      )
+                    }
+                  >
+                    Ban
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <LoadMore
+          hasMore={hasMore}
+          isLoading={isLoading}
+          hasFailed={hasFailed}
+          onLoadMore={loadMore}
+          onRetry={retry}
+        />
+      </div>
+      <AdminGameLog key={game.gameId} gameId={game.gameId} />
+    </Stack>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { API } from "aws-amplify";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import Stack from "react-bootstrap/Stack";
+import Table from "react-bootstrap/Table";
+import { onError } from "../lib/errorLib";
+import { usePagedList } from "../lib/hooksLib";
+import LoadMore from "./LoadMore";
+import LoaderButton from "./LoaderButton";
+import {
+  EventActorType,
+  GameLogEventType,
+  GameReplayResponseType,
+} from "../types/event";
+
+function formatTime(at: number) {
+  return new Date(at).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function describeActor(actor: EventActorType) {
+  if (actor.type === "player") {
+    return actor.nickname;
+  }
+
+  return actor.type === "admin" ? `${actor.username} (admin)` : "Automatic";
+}
+
+function describeEvent(event: GameLogEventType) {
+  switch (event.type) {
+    case "game-created":
+      return `Queued game ${event.data.gameNumber}`;
+    case "game-state":
+      return `Moved the game from ${event.data.from} to ${event.data.to}`;
+    case "card-dealt":
+      return "Got a card";
+    case "mark":
+      return `Marked "${event.data.word}"`;
+    case "unmark":
+      return `Unmarked "${event.data.word}"`;
+    case "claim":
+      return event.data.status === "accepted"
+        ? `Called bingo on a ${event.data.line.kind}`
+        : `Called bingo, rejected (${event.data.reason})`;
+    case "evidence-submitted":
+      return `Sent evidence, ${event.data.quotes} quotes${event.data.photo ? " and a photo" : ""}`;
+    case "winner-declared":
+      return `Declared ${event.data.nickname} the winner`;
+    case "winner-reviewed":
+      return `Reviewed the win, ${event.data.verdict}`;
+    case "winner-revoked":
+      return "Revoked the win";
+  }
+}
+
+/**
+ * Everything logged against a game, for settling a disputed win, and a check
+ * that the game as stored still matches what its log says happened.
+ */
+export default function AdminGameLog({ gameId }: { gameId: string }) {
+  const [differences, setDifferences] = useState<null | string[]>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const {
+    items: events,
+    hasMore,
+    isLoading,
+    hasFailed,
+    reload,
+    loadMore,
+    retry,
+  } = usePagedList<GameLogEventType>(`/admin/games/${gameId}/events`);
+
+  async function handleCheck() {
+    setIsChecking(true);
+
+    try {
+      const { differences }: GameReplayResponseType = await API.get(
+        "bingo",
+        `/admin/games/${gameId}/replay`,
+        {}
+      );
+      setDifferences(differences);
+    } catch (e) {
+      onError(e);
+    }
+
+    setIsChecking(false);
+  }
+
+  return (
+    <div>
+      <Stack direction="horizontal" gap={2} className="justify-content-between">
+        <h4>Event log</h4>
+        <Stack direction="horizontal" gap={2}>
+          <LoaderButton
+            variant="outline-secondary"
+            className="mt-0"
+            isLoading={isChecking}
+            onClick={handleCheck}
+          >
+            Check against the log
+          </LoaderButton>
+          <Button variant="link" onClick={reload}>
+            Refresh
+          </Button>
+        </Stack>
+      </Stack>
+      {differences &&
+        (differences.length === 0 ? (
+          <Alert variant="success">The game matches its log.</Alert>
+        ) : (
+          <Alert variant="warning">
+            <ul className="mb-0">
+              {differences.map((difference) => (
+                <li key={difference}>{difference}</li>
+              ))}
+            </ul>
+          </Alert>
+        ))}
+      <Table size="sm" hover responsive>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Time</th>
+            <th>Who</th>
+            <th>What</th>
+          </tr>
+        </thead>
+        <tbody>
+          {events.map((event) => (
+            <tr key={event.seq}>
+              <td>{event.seq}</td>
+              <td className="text-nowrap">{formatTime(event.at)}</td>
+              <td>{describeActor(event.actor)}</td>
+              <td>{describeEvent(event)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+      <LoadMore
+        hasMore={hasMore}
+        isLoading={isLoading}
+        hasFailed={hasFailed}
+        onLoadMore={loadMore}
+        onRetry={retry}
+      />
+    </div>
+  );
+}
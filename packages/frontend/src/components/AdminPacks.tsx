@@ -0,0 +1,198 @@
+import React, { useRef, useState } from "react";
+import { API } from "aws-amplify";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Card from "react-bootstrap/Card";
+import Form from "react-bootstrap/Form";
+import Stack from "react-bootstrap/Stack";
+import Table from "react-bootstrap/Table";
+import { onError } from "../lib/errorLib";
+import { showNotice } from "../lib/noticeLib";
+import { packUpload } from "../lib/awsLib";
+import { download, roomFileName } from "../lib/downloadLib";
+import LoaderButton from "./LoaderButton";
+import {
+  PackFormat,
+  PackImportResultType,
+  PackPreviewType,
+} from "../types/pack";
+import { RoomType } from "../types/room";
+
+// Matches the backend limit in lib/packs.ts
+const MAX_PACK_SIZE = 1024 * 1024;
+
+function packFormat(file: File): PackFormat | undefined {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  return extension === "csv" || extension === "json" ? extension : undefined;
+}
+
+/**
+ * Imports a word pack into the room after previewing it, and exports the
+ * room's words as one.
+ */
+export default function AdminPacks({
+  room,
+  onImported,
+}: {
+  room: RoomType;
+  onImported: () => void;
+}) {
+  const input = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<null | PackPreviewType>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const path = `/admin/rooms/${room.roomId}/packs`;
+
+  function reset() {
+    setPreview(null);
+
+    if (input.current) {
+      input.current.value = "";
+    }
+  }
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.currentTarget.files?.[0];
+
+    if (!file) {
+      return;
+    }
+
+    const format = packFormat(file);
+
+    if (!format) {
+      showNotice("Pick a .csv or .json pack.");
+      reset();
+      return;
+    }
+
+    if (file.size > MAX_PACK_SIZE) {
+      showNotice(`Please pick a pack smaller than ${MAX_PACK_SIZE / 1024 / 1024} MB.`);
+      reset();
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      const packKey = await packUpload(room.roomId, file, format);
+      setPreview(await API.post("bingo", `${path}/preview`, { body: { packKey } }));
+    } catch (e) {
+      onError(e);
+      reset();
+    }
+
+    setIsWorking(false);
+  }
+
+  async function handleImport() {
+    if (!preview) {
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      const result: PackImportResultType = await API.post(
+        "bingo",
+        `${path}/import`,
+        { body: { packKey: preview.packKey } }
+      );
+      showNotice(
+        `Added ${result.added.length} ${result.added.length === 1 ? "word" : "words"}.`,
+        "success"
+      );
+      reset();
+      onImported();
+    } catch (e) {
+      onError(e);
+    }
+
+    setIsWorking(false);
+  }
+
+  async function handleExport(format: PackFormat) {
+    try {
+      const content: unknown = await API.get("bingo", `${path}/export`, {
+        queryStringParameters: { format },
+      });
+
+      download(
+        content,
+        roomFileName(room, `words.${format}`),
+        format === "csv" ? "text/csv" : "application/json"
+      );
+    } catch (e) {
+      onError(e);
+    }
+  }
+
+  return (
+    <Card body>
+      <Stack gap={3}>
+        <Stack direction="horizontal" gap={2} className="flex-wrap">
+          <Form.Group controlId="pack" className="flex-grow-1">
+            <Form.Label>Import a pack</Form.Label>
+            <Form.Control
+              ref={input}
+              type="file"
+              accept=".csv,.json"
+              disabled={isWorking}
+              onChange={handleFileChange}
+            />
+          </Form.Group>
+          <div className="align-self-end">
+            <Button variant="link" onClick={() => handleExport("csv")}>
+              Export CSV
+            </Button>
+            <Button variant="link" onClick={() => handleExport("json")}>
+              Export JSON
+            </Button>
+          </div>
+        </Stack>
+        {preview && (
+          <>
+            <Table size="sm" responsive>
+              <tbody>
+                {preview.words.map((word) => (
+                  <tr key={word.text}>
+                    <td>{word.text}</td>
+                    <td>
+                      <Badge bg={word.status === "approved" ? "success" : "warning"}>
+                        {word.status}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+                {preview.skipped.map((skipped) => (
+                  <tr key={`skipped-${skipped.row}`} className="text-muted">
+                    <td>
+                      <s>{skipped.text}</s>
+                    </td>
+                    <td className="small">
+                      Row {skipped.row}: {skipped.reason}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+            <Stack direction="horizontal" gap={2}>
+              <LoaderButton
+                className="mt-0"
+                isLoading={isWorking}
+                disabled={preview.words.length === 0}
+                onClick={handleImport}
+              >
+                Add {preview.words.length}{" "}
+                {preview.words.length === 1 ? "word" : "words"}
+              </LoaderButton>
+              <Button variant="link" disabled={isWorking} onClick={reset}>
+                Cancel
+              </Button>
+            </Stack>
+          </>
+        )}
+      </Stack>
+    </Card>
+  );
+}
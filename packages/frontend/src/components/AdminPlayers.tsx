@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { API } from "aws-amplify";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Form from "react-bootstrap/Form";
+import Stack from "react-bootstrap/Stack";
+import Table from "react-bootstrap/Table";
+import { getConflictCurrent, getErrorCode, onError } from "../lib/errorLib";
+import { ifMatch } from "../lib/awsLib";
+import { usePagedList } from "../lib/hooksLib";
+import LoadMore from "./LoadMore";
+import { PlayerType } from "../types/player";
+import { RoomType } from "../types/room";
+
+type PlayerStatus = "playing" | "banned";
+
+// Everyone who has joined the room, newest first, to catch bad nicknames
+export default function AdminPlayers({ room }: { room: RoomType }) {
+  const [status, setStatus] = useState<"" | PlayerStatus>("playing");
+  const [isWorking, setIsWorking] = useState(false);
+  const {
+    items: players,
+    setItems: setPlayers,
+    hasMore,
+    isLoading,
+    hasFailed,
+    reload,
+    loadMore,
+    retry,
+  } = usePagedList<PlayerType>(`/admin/rooms/${room.roomId}/players`, {
+    status: status || undefined,
+  });
+
+  function replacePlayer(updated: PlayerType) {
+    setPlayers((players) =>
+      players.map((p) => (p.sessionId === updated.sessionId ? updated : p))
+    );
+  }
+
+  async function handlePlaceholder(player: PlayerType) {
+    setIsWorking(true);
+
+    try {
+      replacePlayer(
+        await API.patch("bingo", `/admin/players/${player.sessionId}`, {
+          headers: ifMatch(player),
+          body: { placeholder: true },
+        })
+      );
+    } catch (e) {
+      // Show what the other admin changed it to
+      const current = getConflictCurrent<PlayerType>(e);
+
+      if (current) {
+        replacePlayer(current);
+      }
+
+      onError(e);
+    }
+
+    setIsWorking(false);
+  }
+
+  async function handleBan(player: PlayerType) {
+    if (!window.confirm(`Ban ${player.nickname}? They drop off the leaderboard straight away.`)) {
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      await API.del("bingo", `/admin/players/${player.sessionId}`, {
+        headers: ifMatch(player),
+      });
+      await reload();
+    } catch (e) {
+      onError(e);
+
+      if (getErrorCode(e) === "version-conflict") {
+        await reload();
+      }
+    }
+
+    setIsWorking(false);
+  }
+
+  return (
+    <Stack gap={3}>
+      <Stack direction="horizontal" gap={2}>
+        <Form.Select
+          aria-label="Show players"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as "" | PlayerStatus)}
+        >
+          <option value="playing">Playing</option>
+          <option value="banned">Banned</option>
+          <option value="">Everyone</option>
+        </Form.Select>
+        <Button variant="link" onClick={reload}>
+          Refresh
+        </Button>
+      </Stack>
+      <Table size="sm" hover responsive>
+        <tbody>
+          {players.map((player) => (
+            <tr key={player.sessionId}>
+              <td>
+                {player.nickname}
+                <div className="text-muted small">
+                  joined{" "}
+                  {new Date(player.joinedAt).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </div>
+              </td>
+              <td>
+                {player.removedAt && <Badge bg="secondary">banned</Badge>}
+              </td>
+              <td className="text-end text-nowrap">
+                <Button
+                  size="sm"
+                  variant="link"
+                  disabled={isWorking}
+                  onClick={() => handlePlaceholder(player)}
+                >
+                  Use a placeholder
+                </Button>
+                <Button
+                  size="sm"
+                  variant="link"
+                  className="text-danger"
+                  disabled={isWorking || !!player.removedAt}
+                  onClick={() => handleBan(player)}
+                >
+                  Ban
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+      <LoadMore
+        hasMore={hasMore}
+        isLoading={isLoading}
+        hasFailed={hasFailed}
+        onLoadMore={loadMore}
+        onRetry={retry}
+      />
+      {!isLoading && !hasFailed && players.length === 0 && (
+        <p className="text-muted">Nobody here.</p>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { API } from "aws-amplify";
+import Button from "react-bootstrap/Button";
+import Card from "react-bootstrap/Card";
+import Form from "react-bootstrap/Form";
+import Stack from "react-bootstrap/Stack";
+import { onError } from "../lib/errorLib";
+import { showNotice } from "../lib/noticeLib";
+import { download, roomFileName } from "../lib/downloadLib";
+import LoaderButton from "./LoaderButton";
+import { RoomType } from "../types/room";
+import { ResultsFormat, ResultsTable } from "../types/results";
+
+const CSV_TABLES: Record<ResultsTable, string> = {
+  games: "Games",
+  words: "Words marked",
+  suggestions: "Suggestions",
+};
+
+/**
+ * Downloads a room's results after the event, and writes up a recap to
+ * paste into a follow-up email.
+ */
+export default function AdminResults({ room }: { room: RoomType }) {
+  const [recap, setRecap] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const path = `/admin/rooms/${room.roomId}/results`;
+
+  function getResults(format: ResultsFormat, table?: ResultsTable) {
+    return API.get("bingo", path, {
+      queryStringParameters: table ? { format, table } : { format },
+    });
+  }
+
+  async function handleDownload(format: ResultsFormat, table?: ResultsTable) {
+    try {
+      const content: unknown = await getResults(format, table);
+
+      download(
+        content,
+        roomFileName(room, format === "csv" ? `${table}.csv` : "results.json"),
+        format === "csv" ? "text/csv" : "application/json"
+      );
+    } catch (e) {
+      onError(e);
+    }
+  }
+
+  async function handleRecap() {
+    setIsLoading(true);
+
+    try {
+      setRecap(await getResults("markdown"));
+    } catch (e) {
+      onError(e);
+    }
+
+    setIsLoading(false);
+  }
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(recap);
+      showNotice("Copied the recap.", "success");
+    } catch (e) {
+      onError(e);
+    }
+  }
+
+  return (
+    <Stack gap={3}>
+      <Card body>
+        <div className="mb-2">
+          Every game with its winner, player count and time to bingo, when
+          each word was first marked and how often, and every suggestion with
+          its votes.
+        </div>
+        <Stack direction="horizontal" gap={2} className="flex-wrap">
+          {(Object.keys(CSV_TABLES) as ResultsTable[]).map((table) => (
+            <Button
+              key={table}
+              variant="outline-primary"
+              onClick={() => handleDownload("csv", table)}
+            >
+              {CSV_TABLES[table]} CSV
+            </Button>
+          ))}
+          <Button variant="outline-primary" onClick={() => handleDownload("json")}>
+            Everything as JSON
+          </Button>
+        </Stack>
+      </Card>
+      <Card body>
+        <Stack gap={2}>
+          <Stack direction="horizontal" gap={2}>
+            <LoaderButton className="mt-0" isLoading={isLoading} onClick={handleRecap}>
+              {recap ? "Write it again" : "Write a recap"}
+            </LoaderButton>
+            {recap && (
+              <>
+                <Button variant="link" onClick={handleCopy}>
+                  Copy
+                </Button>
+                <Button
+                  variant="link"
+                  onClick={() =>
+                    download(recap, roomFileName(room, "recap.md"), "text/markdown")
+                  }
+                >
+                  Download
+                </Button>
+              </>
+            )}
+          </Stack>
+          {recap && (
+            <Form.Control
+              as="textarea"
+              aria-label="Recap"
+              readOnly
+              rows={12}
+              className="font-monospace"
+              value={recap}
+            />
+          )}
+        </Stack>
+      </Card>
+    </Stack>
+  );
+}
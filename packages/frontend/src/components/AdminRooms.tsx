@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from "react";
+import { API } from "aws-amplify";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Form from "react-bootstrap/Form";
+import Stack from "react-bootstrap/Stack";
+import { getConflictCurrent, onError } from "../lib/errorLib";
+import { ifMatch } from "../lib/awsLib";
+import { usePagedList } from "../lib/hooksLib";
+import LoaderButton from "./LoaderButton";
+import { JoinLinkType, RoomType } from "../types/room";
+
+// How long a rotated PIN lasts, in minutes, with "" for no expiry
+const PIN_EXPIRIES: Record<string, string> = {
+  "": "Until rotated",
+  "60": "For an hour",
+  "480": "For the day",
+};
+
+// How long a QR code's join link lasts, in minutes. Links always expire.
+const LINK_EXPIRIES: Record<string, string> = {
+  "60": "for an hour",
+  "240": "for the afternoon",
+  "720": "for the day",
+};
+
+function formatExpiry(at: number) {
+  return new Date(at).toLocaleString([], {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function AdminRooms({
+  room,
+  onSelect,
+}: {
+  room: null | RoomType;
+  onSelect: (room: null | RoomType) => void;
+}) {
+  const [name, setName] = useState("");
+  const [expiry, setExpiry] = useState("");
+  const [linkExpiry, setLinkExpiry] = useState("60");
+  const [isWorking, setIsWorking] = useState(false);
+  // Admins rarely run more than a handful of rooms, so the first page is
+  // all the picker needs
+  const { items: rooms, setItems: setRooms } = usePagedList<RoomType>(
+    "/admin/rooms",
+    { limit: "100" }
+  );
+
+  // Start on the first room
+  useEffect(() => {
+    if (!room && rooms.length > 0) {
+      onSelect(rooms[0]);
+    }
+  }, [room, rooms, onSelect]);
+
+  function replaceRoom(updated: RoomType) {
+    setRooms((rooms) =>
+      rooms.map((r) => (r.roomId === updated.roomId ? updated : r))
+    );
+    onSelect(updated);
+  }
+
+  async function run(action: () => Promise<RoomType>, confirmation?: string) {
+    if (confirmation && !window.confirm(confirmation)) {
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      replaceRoom(await action());
+    } catch (e) {
+      // Show what the other admin changed it to
+      const current = getConflictCurrent<RoomType>(e);
+
+      if (current) {
+        replaceRoom(current);
+      }
+
+      onError(e);
+    }
+
+    setIsWorking(false);
+  }
+
+  async function handleCreate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setIsWorking(true);
+
+    try {
+      const created: RoomType = await API.post("bingo", "/admin/rooms", {
+        body: { name: name.trim() },
+      });
+      setRooms((rooms) => [...rooms, created]);
+      onSelect(created);
+      setName("");
+    } catch (e) {
+      onError(e);
+    }
+
+    setIsWorking(false);
+  }
+
+  function handleRename(room: RoomType) {
+    const name = window.prompt("Rename this room", room.name)?.trim();
+
+    if (name && name !== room.name) {
+      run(() =>
+        API.patch("bingo", `/admin/rooms/${room.roomId}`, {
+          headers: ifMatch(room),
+          body: { name },
+        })
+      );
+    }
+  }
+
+  async function handleShowQrCode(room: RoomType) {
+    // Opened before the request, so it isn't blocked as a popup
+    const screen = window.open("", "_blank");
+
+    setIsWorking(true);
+
+    try {
+      const link: JoinLinkType = await API.post(
+        "bingo",
+        `/admin/rooms/${room.roomId}/links`,
+        { body: { expiresInMinutes: Number(linkExpiry) } }
+      );
+      const url = `/status/${room.roomCode}?link=${encodeURIComponent(link.token)}`;
+
+      if (screen) {
+        screen.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    } catch (e) {
+      screen?.close();
+      onError(e);
+    }
+
+    setIsWorking(false);
+  }
+
+  const isExpired = !!room?.pinExpiresAt && room.pinExpiresAt <= Date.now();
+
+  return (
+    <Stack gap={3} className="mb-3">
+      <Stack direction="horizontal" gap={2}>
+        <Form.Select
+          aria-label="Room"
+          value={room?.roomId || ""}
+          onChange={(e) =>
+            onSelect(rooms.find((r) => r.roomId === e.target.value) || null)
+          }
+        >
+          {rooms.length === 0 && <option value="">No rooms yet</option>}
+          {rooms.map((r) => (
+            <option key={r.roomId} value={r.roomId}>
+              {r.name}
+            </option>
+          ))}
+        </Form.Select>
+        <Form onSubmit={handleCreate} className="flex-grow-1">
+          <Stack direction="horizontal" gap={2}>
+            <Form.Control
+              placeholder="New room"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <LoaderButton
+              type="submit"
+              className="mt-0"
+              isLoading={isWorking}
+              disabled={name.trim().length === 0}
+            >
+              Add
+            </LoaderButton>
+          </Stack>
+        </Form>
+      </Stack>
+      {room && (
+        <Stack direction="horizontal" gap={3} className="flex-wrap">
+          <div>
+            PIN <span className="fw-bold fs-4">{room.pin}</span>{" "}
+            {isExpired ? (
+              <Badge bg="secondary">expired</Badge>
+            ) : (
+              room.pinExpiresAt && (
+                <span className="text-muted small">
+                  until {formatExpiry(room.pinExpiresAt)}
+                </span>
+              )
+            )}
+          </div>
+          <div>
+            Link <a href={`/r/${room.roomCode}`}>/r/{room.roomCode}</a>
+            {" · "}
+            <a href={`/status/${room.roomCode}`} target="_blank" rel="noreferrer">
+              Screen
+            </a>
+            {" · "}
+            <a href={`/status/${room.roomCode}/cloud`} target="_blank" rel="noreferrer">
+              Word cloud
+            </a>
+          </div>
+          <Form.Select
+            size="sm"
+            aria-label="New PIN lasts"
+            className="w-auto"
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+          >
+            {Object.entries(PIN_EXPIRIES).map(([minutes, label]) => (
+              <option key={minutes} value={minutes}>
+                {label}
+              </option>
+            ))}
+          </Form.Select>
+          <Button
+            size="sm"
+            variant="link"
+            disabled={isWorking}
+            onClick={() =>
+              run(
+                () =>
+                  API.post("bingo", `/admin/rooms/${room.roomId}/pin`, {
+                    headers: ifMatch(room),
+                    body: { expiresInMinutes: expiry ? Number(expiry) : undefined },
+                  }),
+                "Rotate the PIN? The current one stops working."
+              )
+            }
+          >
+            Rotate PIN
+          </Button>
+          <Button
+            size="sm"
+            variant="link"
+            className="text-danger"
+            disabled={isWorking || isExpired}
+            onClick={() =>
+              run(
+                () =>
+                  API.del("bingo", `/admin/rooms/${room.roomId}/pin`, {
+                    headers: ifMatch(room),
+                  }),
+                "Expire the PIN? Nobody else can join with it or the room's link, only with a QR code."
+              )
+            }
+          >
+            Expire PIN
+          </Button>
+          <Button
+            size="sm"
+            variant="link"
+            disabled={isWorking}
+            onClick={() => handleRename(room)}
+          >
+            Rename
+          </Button>
+        </Stack>
+      )}
+      {room && (
+        <Stack direction="horizontal" gap={3} className="flex-wrap">
+          <div>QR code to join</div>
+          <Form.Select
+            size="sm"
+            aria-label="QR code lasts"
+            className="w-auto"
+            value={linkExpiry}
+            onChange={(e) => setLinkExpiry(e.target.value)}
+          >
+            {Object.entries(LINK_EXPIRIES).map(([minutes, label]) => (
+              <option key={minutes} value={minutes}>
+                {label}
+              </option>
+            ))}
+          </Form.Select>
+          <Button
+            size="sm"
+            variant="link"
+            disabled={isWorking}
+            onClick={() => handleShowQrCode(room)}
+          >
+            Show on screen
+          </Button>
+          <Button
+            size="sm"
+            variant="link"
+            className="text-danger"
+            disabled={isWorking}
+            onClick={() =>
+              run(
+                () =>
+                  API.del("bingo", `/admin/rooms/${room.roomId}/links`, {
+                    headers: ifMatch(room),
+                  }),
+                "Revoke every QR code shown so far? Anyone who hasn't joined yet needs a new one."
+              )
+            }
+          >
+            Revoke QR codes
+          </Button>
+        </Stack>
+      )}
+    </Stack>
+  );
+}
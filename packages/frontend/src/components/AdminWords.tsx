@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import { API } from "aws-amplify";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Form from "react-bootstrap/Form";
+import Stack from "react-bootstrap/Stack";
+import Table from "react-bootstrap/Table";
+import { getConflictCurrent, onError } from "../lib/errorLib";
+import { ifMatch } from "../lib/awsLib";
+import { usePagedList } from "../lib/hooksLib";
+import AdminPacks from "./AdminPacks";
+import LoadMore from "./LoadMore";
+import LoaderButton from "./LoaderButton";
+import { WordStatus, WordType } from "../types/word";
+import { RoomType } from "../types/room";
+
+const STATUS_VARIANTS: Record<WordStatus, string> = {
+  pending: "warning",
+  approved: "success",
+  rejected: "secondary",
+};
+
+export default function AdminWords({ room }: { room: RoomType }) {
+  const path = `/admin/rooms/${room.roomId}/words`;
+  // Suggestions waiting on review come first
+  const [status, setStatus] = useState<"" | WordStatus>("pending");
+  const [text, setText] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const {
+    items: words,
+    setItems: setWords,
+    hasMore,
+    isLoading,
+    hasFailed,
+    reload,
+    loadMore,
+    retry,
+  } = usePagedList<WordType>(path, { status: status || undefined });
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setIsAdding(true);
+
+    try {
+      await API.post("bingo", path, { body: { text: text.trim() } });
+      setText("");
+      await reload();
+    } catch (e) {
+      onError(e);
+    }
+
+    setIsAdding(false);
+  }
+
+  function replaceWord(updated: WordType) {
+    setWords((words) =>
+      words.map((w) => (w.wordId === updated.wordId ? updated : w))
+    );
+  }
+
+  async function updateWord(
+    word: WordType,
+    changes: Partial<Pick<WordType, "text" | "status">>
+  ) {
+    try {
+      replaceWord(
+        await API.patch("bingo", `/admin/words/${word.wordId}`, {
+          headers: ifMatch(word),
+          body: changes,
+        })
+      );
+    } catch (e) {
+      // Show what the other admin changed it to, rather than retrying over it
+      const current = getConflictCurrent<WordType>(e);
+
+      if (current) {
+        replaceWord(current);
+      }
+
+      onError(e);
+    }
+  }
+
+  function handleRename(word: WordType) {
+    const text = window.prompt("Rename this buzzword", word.text)?.trim();
+
+    if (text && text !== word.text) {
+      updateWord(word, { text });
+    }
+  }
+
+  return (
+    <Stack gap={3}>
+      <AdminPacks room={room} onImported={reload} />
+      <Form onSubmit={handleSubmit}>
+        <Stack direction="horizontal" gap={2}>
+          <Form.Control
+            placeholder="Add a buzzword"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <LoaderButton
+            type="submit"
+            className="mt-0"
+            isLoading={isAdding}
+            disabled={text.trim().length === 0}
+          >
+            Add
+          </LoaderButton>
+        </Stack>
+      </Form>
+      <Form.Select
+        aria-label="Show words"
+        value={status}
+        onChange={(e) => setStatus(e.target.value as "" | WordStatus)}
+      >
+        <option value="pending">Waiting for review</option>
+        <option value="approved">Approved</option>
+        <option value="rejected">Rejected</option>
+        <option value="">All words</option>
+      </Form.Select>
+      <Table size="sm" hover responsive>
+        <tbody>
+          {words.map((word) => (
+            <tr key={word.wordId}>
+              <td>
+                {word.text}
+                {word.suggestedBy && (
+                  <div className="text-muted small">
+                    from {word.suggestedBy.nickname}
+                  </div>
+                )}
+              </td>
+              <td className="text-nowrap">
+                {word.votes || 0} {word.votes === 1 ? "vote" : "votes"}
+              </td>
+              <td>
+                <Badge bg={STATUS_VARIANTS[word.status]}>{word.status}</Badge>
+              </td>
+              <td className="text-end text-nowrap">
+                <Button
+                  size="sm"
+                  variant="link"
+                  onClick={() => handleRename(word)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="link"
+                  disabled={word.status === "approved"}
+                  onClick={() => updateWord(word, { status: "approved" })}
+                >
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="link"
+                  className="text-danger"
+                  disabled={word.status === "rejected"}
+                  onClick={() => updateWord(word, { status: "rejected" })}
+                >
+                  Reject
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+      <LoadMore
+        hasMore={hasMore}
+        isLoading={isLoading}
+        hasFailed={hasFailed}
+        onLoadMore={loadMore}
+        onRetry={retry}
+      />
+      {!isLoading && !hasFailed && words.length === 0 && (
+        <p className="text-muted">No words here.</p>
+      )}
+    </Stack>
+  );
+}
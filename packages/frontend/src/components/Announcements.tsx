@@ -0,0 +1,205 @@
+import { useEffect, useRef, useState } from "react";
+import Button from "react-bootstrap/Button";
+import Stack from "react-bootstrap/Stack";
+import {
+  BsPhoneVibrate,
+  BsVolumeMute,
+  BsVolumeUp,
+  BsXLg,
+} from "react-icons/bs";
+import {
+  Announcement,
+  Effects,
+  loadEffects,
+  saveEffects,
+  subscribeToAnnouncements,
+} from "../lib/announceLib";
+import BingoGrid from "./BingoGrid";
+import Countdown from "./Countdown";
+import { WinningLineType } from "../types/game";
+import "./Announcements.css";
+
+const CARD_SQUARES = 25;
+
+// The countdown takes over for the end of the celebration
+const COUNTDOWN_MS = 10000;
+
+const CONFETTI_PIECES = 80;
+const CONFETTI_COLORS = ["#0d6efd", "#198754", "#ffc107", "#d63384", "#fd7e14", "#20c997"];
+
+const VIBRATION = [200, 100, 200, 100, 400];
+
+// A rising arpeggio, in Hz
+const FANFARE = [523.25, 659.25, 783.99, 1046.5];
+
+function playFanfare() {
+  const context = new AudioContext();
+
+  FANFARE.forEach((frequency, i) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + i * 0.15;
+
+    oscillator.type = "triangle";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.5);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.5);
+  });
+
+  setTimeout(() => context.close(), 2000);
+}
+
+function Confetti() {
+  // Scattered once, so pieces don't jump around when the overlay updates
+  const [pieces] = useState(() =>
+    Array.from({ length: CONFETTI_PIECES }, (_, i) => ({
+      left: `${Math.random() * 100}%`,
+      animationDelay: `${Math.random() * 3}s`,
+      animationDuration: `${3 + Math.random() * 3}s`,
+      background: CONFETTI_COLORS[i % CONFETTI_COLORS.length],
+    }))
+  );
+
+  return (
+    <div className="confetti" aria-hidden>
+      {pieces.map((style, i) => (
+        <span key={i} style={style} />
+      ))}
+    </div>
+  );
+}
+
+// The winning line on an otherwise empty card
+function WinningLine({ line }: { line: WinningLineType }) {
+  const words = Array<string>(CARD_SQUARES).fill("");
+
+  line.positions.forEach((position, i) => {
+    words[position] = line.words[i];
+  });
+
+  return <BingoGrid words={words} marked={[]} highlight={line.positions} />;
+}
+
+function NextGame({ at }: { at: number }) {
+  const [isCounting, setIsCounting] = useState(at - Date.now() <= COUNTDOWN_MS);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setIsCounting(true),
+      Math.max(at - Date.now() - COUNTDOWN_MS, 0)
+    );
+
+    return () => clearTimeout(timer);
+  }, [at]);
+
+  if (!isCounting) {
+    return null;
+  }
+
+  // The stream brings the next game a moment after the countdown runs out
+  return (
+    <div className="next-game">
+      {isStarting ? (
+        "The next game is starting…"
+      ) : (
+        <>
+          Next game in{" "}
+          <Countdown until={at} onComplete={() => setIsStarting(true)} />
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shows the latest announcement over the whole app, with confetti and,
+ * when the player wants them, a fanfare and a buzz.
+ */
+export default function Announcements() {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [effects, setEffects] = useState<Effects>(loadEffects);
+  // Reconnects and updates announce again, but only the first is celebrated
+  const celebrated = useRef(new Set<string>());
+
+  useEffect(() => subscribeToAnnouncements(setAnnouncements), []);
+
+  const announcement = announcements
+    .filter(({ key }) => !dismissed.includes(key))
+    .at(-1);
+  const key = announcement?.key;
+
+  useEffect(() => {
+    if (!key || celebrated.current.has(key)) {
+      return;
+    }
+
+    celebrated.current.add(key);
+
+    if (effects.vibrate && "vibrate" in navigator) {
+      navigator.vibrate(VIBRATION);
+    }
+
+    if (effects.sound) {
+      try {
+        playFanfare();
+      } catch {
+        // Browsers can refuse to play sound before the page is touched
+      }
+    }
+  }, [key, effects]);
+
+  function toggle(effect: keyof Effects) {
+    const changed = { ...effects, [effect]: !effects[effect] };
+
+    saveEffects(changed);
+    setEffects(changed);
+  }
+
+  if (!announcement) {
+    return null;
+  }
+
+  const { winner, nextGameAt } = announcement;
+
+  return (
+    <div className="Announcements" role="dialog" aria-live="assertive">
+      <Confetti key={announcement.key} />
+      <div className="announcement">
+        <div className="headline">BINGO!</div>
+        <div className="nickname">{winner.nickname}</div>
+        {winner.line && <WinningLine line={winner.line} />}
+        {nextGameAt && <NextGame key={nextGameAt} at={nextGameAt} />}
+      </div>
+      <Stack direction="horizontal" gap={2} className="controls">
+        <Button
+          variant="light"
+          aria-label={effects.sound ? "Turn sound off" : "Turn sound on"}
+          onClick={() => toggle("sound")}
+        >
+          {effects.sound ? <BsVolumeUp /> : <BsVolumeMute />}
+        </Button>
+        {"vibrate" in navigator && (
+          <Button
+            variant={effects.vibrate ? "light" : "outline-light"}
+            aria-label={effects.vibrate ? "Turn vibration off" : "Turn vibration on"}
+            onClick={() => toggle("vibrate")}
+          >
+            <BsPhoneVibrate />
+          </Button>
+        )}
+        <Button
+          variant="light"
+          aria-label="Close"
+          onClick={() => setDismissed([...dismissed, announcement.key])}
+        >
+          <BsXLg />
+        </Button>
+      </Stack>
+    </div>
+  );
+}
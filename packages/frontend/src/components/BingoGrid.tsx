@@ -0,0 +1,42 @@
+import "./BingoGrid.css";
+
+const FREE_SPACE = "FREE";
+
+interface Props {
+  words: string[];
+  marked: number[];
+  highlight?: number[];
+  onToggle?: (position: number) => void;
+}
+
+export default function BingoGrid({
+  words,
+  marked,
+  highlight = [],
+  onToggle,
+}: Props) {
+  return (
+    <div className="BingoGrid">
+      {words.map((word, position) => {
+        const isFree = word === FREE_SPACE;
+        const classes = [
+          "square",
+          isFree || marked.includes(position) ? "marked" : "",
+          highlight.includes(position) ? "highlight" : "",
+        ];
+
+        return (
+          <button
+            key={position}
+            type="button"
+            className={classes.join(" ")}
+            disabled={isFree || !onToggle}
+            onClick={() => onToggle && onToggle(position)}
+          >
+            {word}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
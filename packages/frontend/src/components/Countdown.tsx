@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+
+interface Props {
+  // Epoch milliseconds, already corrected for clock skew
+  until: number;
+  onComplete?: () => void;
+}
+
+export default function Countdown({ until, onComplete }: Props) {
+  const [now, setNow] = useState(Date.now());
+  const secondsLeft = Math.max(0, Math.ceil((until - now) / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (secondsLeft === 0 && onComplete) {
+      onComplete();
+    }
+  }, [secondsLeft, onComplete]);
+
+  return <span className="Countdown">{secondsLeft}</span>;
+}
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from "react";
+import { API } from "aws-amplify";
+import Card from "react-bootstrap/Card";
+import Form from "react-bootstrap/Form";
+import Stack from "react-bootstrap/Stack";
+import { onError } from "../lib/errorLib";
+import { showNotice } from "../lib/noticeLib";
+import { evidenceUpload } from "../lib/awsLib";
+import LoaderButton from "./LoaderButton";
+import config from "../config";
+import { EvidenceQuoteType, WinnerType } from "../types/game";
+
+const FREE_SPACE = "FREE";
+
+// Matches the backend limit in lib/schemas.ts
+const MAX_QUOTE_LENGTH = 280;
+
+interface Quote {
+  quote: string;
+  // "HH:MM" from the time input, today
+  time: string;
+}
+
+function currentTime() {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+}
+
+function toTimestamp(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  const at = new Date();
+  at.setHours(hours, minutes, 0, 0);
+  return at.getTime();
+}
+
+export default function EvidenceForm({
+  winner,
+  onSubmitted,
+}: {
+  winner: WinnerType;
+  onSubmitted: (winner: WinnerType) => void;
+}) {
+  const file = useRef<null | File>(null);
+  const words = (winner.line?.words || []).filter((word) => word !== FREE_SPACE);
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [hasPhoto, setHasPhoto] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  function validateForm() {
+    return hasPhoto || Object.values(quotes).some((q) => q.quote.trim());
+  }
+
+  function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    if (event.currentTarget.files === null) return;
+    file.current = event.currentTarget.files[0] || null;
+    setHasPhoto(!!file.current);
+  }
+
+  function updateQuote(word: string, changes: Partial<Quote>) {
+    const quote = quotes[word] || { quote: "", time: currentTime() };
+    setQuotes({ ...quotes, [word]: { ...quote, ...changes } });
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (file.current && file.current.size > config.MAX_ATTACHMENT_SIZE) {
+      showNotice(
+        `Please pick a photo smaller than ${config.MAX_ATTACHMENT_SIZE / 1000000
+        } MB.`
+      );
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const photoKey = file.current
+        ? await evidenceUpload(winner.gameId, file.current)
+        : undefined;
+
+      const submitted: EvidenceQuoteType[] = Object.entries(quotes)
+        .filter(([, { quote }]) => quote.trim())
+        .map(([word, { quote, time }]) => ({
+          word,
+          quote: quote.trim(),
+          at: toTimestamp(time),
+        }));
+
+      onSubmitted(
+        await API.put("bingo", `/games/${winner.gameId}/evidence`, {
+          body: { photoKey, quotes: submitted },
+        })
+      );
+    } catch (e) {
+      onError(e);
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card>
+      <Card.Body>
+        <Card.Title>Back up your bingo</Card.Title>
+        <Card.Text className="text-muted">
+          A photo of the slide or a quote for your winning words helps the
+          admins confirm your win.
+        </Card.Text>
+        <Form onSubmit={handleSubmit}>
+          <Stack gap={3}>
+            <Form.Group controlId="photo">
+              <Form.Label>Photo</Form.Label>
+              <Form.Control
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handleFileChange}
+              />
+            </Form.Group>
+            {words.map((word) => (
+              <Form.Group key={word} controlId={`quote-${word}`}>
+                <Form.Label>{word}</Form.Label>
+                <Stack direction="horizontal" gap={2}>
+                  <Form.Control
+                    placeholder="What was said"
+                    maxLength={MAX_QUOTE_LENGTH}
+                    value={quotes[word]?.quote || ""}
+                    onChange={(e) => updateQuote(word, { quote: e.target.value })}
+                  />
+                  <Form.Control
+                    type="time"
+                    className="w-auto"
+                    aria-label={`When "${word}" was said`}
+                    value={quotes[word]?.time || currentTime()}
+                    onChange={(e) => updateQuote(word, { time: e.target.value })}
+                  />
+                </Stack>
+              </Form.Group>
+            ))}
+            <LoaderButton
+              type="submit"
+              isLoading={isLoading}
+              disabled={!validateForm()}
+            >
+              Submit evidence
+            </LoaderButton>
+          </Stack>
+        </Form>
+      </Card.Body>
+    </Card>
+  );
+}
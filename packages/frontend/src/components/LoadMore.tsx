@@ -0,0 +1,54 @@
+import { useEffect, useRef } from "react";
+import Button from "react-bootstrap/Button";
+import { BsArrowRepeat } from "react-icons/bs";
+import "./LoadMore.css";
+
+/**
+ * Goes at the end of a paginated list, and asks for the next page as it
+ * scrolls into view. Once a page fails it waits for the retry button.
+ */
+export default function LoadMore({
+  hasMore,
+  isLoading,
+  hasFailed,
+  onLoadMore,
+  onRetry,
+}: {
+  hasMore: boolean;
+  isLoading: boolean;
+  hasFailed: boolean;
+  onLoadMore: () => void;
+  onRetry: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const end = ref.current;
+
+    if (!end || !hasMore || isLoading || hasFailed) {
+      return;
+    }
+
+    // Starts a little before the end, and keeps going while the end is
+    // still in view after a page
+    const observer = new IntersectionObserver(
+      ([entry]) => entry.isIntersecting && onLoadMore(),
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(end);
+
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, hasFailed, onLoadMore]);
+
+  return (
+    <div ref={ref} className="LoadMore">
+      {isLoading && <BsArrowRepeat className="spinning" />}
+      {hasFailed && !isLoading && (
+        <Button size="sm" variant="link" onClick={onRetry}>
+          <BsArrowRepeat /> Retry
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import Toast from "react-bootstrap/Toast";
+import ToastContainer from "react-bootstrap/ToastContainer";
+import { Notice, subscribeToNotices } from "../lib/noticeLib";
+
+const NOTICE_DELAY = 4000;
+
+export default function Notices() {
+  const [notices, setNotices] = useState<Notice[]>([]);
+
+  useEffect(
+    () =>
+      subscribeToNotices((notice) =>
+        setNotices((notices) => [...notices, notice])
+      ),
+    []
+  );
+
+  function dismiss(id: number) {
+    setNotices((notices) => notices.filter((notice) => notice.id !== id));
+  }
+
+  return (
+    <ToastContainer position="bottom-center" className="p-3 position-fixed">
+      {notices.map((notice) => (
+        <Toast
+          key={notice.id}
+          bg={notice.variant}
+          autohide
+          delay={NOTICE_DELAY}
+          onClose={() => dismiss(notice.id)}
+        >
+          <Toast.Body>{notice.message}</Toast.Body>
+        </Toast>
+      ))}
+    </ToastContainer>
+  );
+}
@@ -0,0 +1,17 @@
+import { ReactElement } from "react";
+import { Navigate } from "react-router-dom";
+import { useAppContext } from "../lib/contextLib";
+
+export default function PlayerRoute({
+  children,
+}: {
+  children: ReactElement;
+}): ReactElement {
+  const { session } = useAppContext();
+
+  if (!session) {
+    return <Navigate to="/join" />;
+  }
+
+  return children;
+}
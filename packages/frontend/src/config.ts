@@ -1,6 +1,12 @@
+// Points the app at the offline server (`npm run local` in packages/backend),
+// which needs no AWS account
+const LOCAL_API_URL = import.meta.env.VITE_LOCAL_API_URL;
+
 const config = {
   // Frontend config
   MAX_ATTACHMENT_SIZE: 5000000,
+  // Offline there is no Cognito, everyone is signed in as the local admin
+  isLocal: Boolean(LOCAL_API_URL),
   // Backend config
   s3: {
     REGION: import.meta.env.VITE_REGION,
@@ -8,7 +14,10 @@ const config = {
   },
   apiGateway: {
     REGION: import.meta.env.VITE_REGION,
-    URL: import.meta.env.VITE_API_URL,
+    URL: LOCAL_API_URL || import.meta.env.VITE_API_URL,
+  },
+  stream: {
+    URL: LOCAL_API_URL || import.meta.env.VITE_STREAM_URL,
   },
   cognito: {
     REGION: import.meta.env.VITE_REGION,
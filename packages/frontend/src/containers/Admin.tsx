@@ -0,0 +1,42 @@
+import { useState } from "react";
+import Tab from "react-bootstrap/Tab";
+import Tabs from "react-bootstrap/Tabs";
+import AdminEvidence from "../components/AdminEvidence";
+import AdminGame from "../components/AdminGame";
+import AdminPlayers from "../components/AdminPlayers";
+import AdminResults from "../components/AdminResults";
+import AdminRooms from "../components/AdminRooms";
+import AdminWords from "../components/AdminWords";
+import { RoomType } from "../types/room";
+import "./Admin.css";
+
+export default function Admin() {
+  const [room, setRoom] = useState<null | RoomType>(null);
+
+  return (
+    <div className="Admin">
+      <h2 className="pb-3 mb-3 border-bottom">Admin</h2>
+      <AdminRooms room={room} onSelect={setRoom} />
+      {room && (
+        // Every tab starts over in another room
+        <Tabs key={room.roomId} defaultActiveKey="game" className="mb-3" mountOnEnter>
+          <Tab eventKey="game" title="Game">
+            <AdminGame room={room} />
+          </Tab>
+          <Tab eventKey="review" title="Review">
+            <AdminEvidence room={room} />
+          </Tab>
+          <Tab eventKey="words" title="Words">
+            <AdminWords room={room} />
+          </Tab>
+          <Tab eventKey="players" title="Players">
+            <AdminPlayers room={room} />
+          </Tab>
+          <Tab eventKey="results" title="Results">
+            <AdminResults room={room} />
+          </Tab>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { API } from "aws-amplify";
+import Button from "react-bootstrap/Button";
+import ButtonGroup from "react-bootstrap/ButtonGroup";
+import { useParams } from "react-router-dom";
+import { onError } from "../lib/errorLib";
+import { WordCloudScope, WordCloudType } from "../types/game";
+import "./Cloud.css";
+
+// Counts are cheap to read, so the screen just asks again
+const REFRESH_MS = 5000;
+
+// More words than this are too small to read from the back of the room
+const MAX_WORDS = 60;
+
+// Font sizes in rem for the least and most marked words
+const MIN_SIZE = 1.25;
+const MAX_SIZE = 6;
+
+// Neighbouring words take different colors, so they stand apart
+const COLORS = ["#0d6efd", "#198754", "#6f42c1", "#d63384", "#fd7e14", "#20c997"];
+
+function scopeLabel(scope: WordCloudScope, windowMinutes: number) {
+  if (scope === "recent") {
+    return `Last ${windowMinutes} minutes`;
+  }
+
+  return scope === "game" ? "This game" : "All games";
+}
+
+export default function Cloud() {
+  const { roomCode } = useParams();
+  const [cloud, setCloud] = useState<null | WordCloudType>(null);
+  const [scope, setScope] = useState<WordCloudScope>("recent");
+
+  useEffect(() => {
+    async function onLoad() {
+      try {
+        setCloud(await API.get("bingo", `/rooms/${roomCode}/cloud`, {}));
+      } catch (e) {
+        onError(e);
+      }
+    }
+
+    onLoad();
+    const timer = setInterval(onLoad, REFRESH_MS);
+
+    return () => clearInterval(timer);
+  }, [roomCode]);
+
+  if (!cloud) {
+    return null;
+  }
+
+  const counts = cloud.counts[scope].slice(0, MAX_WORDS);
+  const most = counts[0]?.count || 1;
+  // Alphabetical, so words don't jump around as their counts change
+  const words = [...counts].sort((a, b) => a.word.localeCompare(b.word));
+
+  return (
+    <div className="Cloud">
+      <header>
+        <h1>{cloud.room.name}</h1>
+        <ButtonGroup aria-label="Counting">
+          {(["recent", "game", "room"] as const).map((s) => (
+            <Button
+              key={s}
+              variant={s === scope ? "primary" : "outline-primary"}
+              onClick={() => setScope(s)}
+            >
+              {scopeLabel(s, cloud.windowMinutes)}
+            </Button>
+          ))}
+        </ButtonGroup>
+      </header>
+      {words.length === 0 ? (
+        <div className="empty">Nothing marked yet</div>
+      ) : (
+        <div className="words">
+          {words.map(({ word, count }, i) => (
+            <span
+              key={word}
+              className="word"
+              title={`${count} ${count === 1 ? "mark" : "marks"}`}
+              style={{
+                fontSize: `${MIN_SIZE + ((MAX_SIZE - MIN_SIZE) * count) / most}rem`,
+                color: COLORS[i % COLORS.length],
+              }}
+            >
+              {word}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
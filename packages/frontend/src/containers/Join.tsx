@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from "react";
+import { API } from "aws-amplify";
+import Button from "react-bootstrap/Button";
+import Form from "react-bootstrap/Form";
+import Stack from "react-bootstrap/Stack";
+import { Navigate, useParams } from "react-router-dom";
+import {
+  ErrorCode,
+  getErrorCode,
+  getNicknameSuggestions,
+  onError,
+} from "../lib/errorLib";
+import { saveSession } from "../lib/sessionLib";
+import { useAppContext } from "../lib/contextLib";
+import { SessionType } from "../types/session";
+import { JoinLinkInfoType, PublicRoomType } from "../types/room";
+import LoaderButton from "../components/LoaderButton";
+import LinkUnavailable from "./LinkUnavailable";
+import "./Join.css";
+
+// Matches the backend limits in lib/schemas.ts
+const MAX_NICKNAME_LENGTH = 24;
+const PIN_LENGTH = 6;
+
+const LINK_ERRORS: ErrorCode[] = ["link-invalid", "link-expired", "link-revoked"];
+
+// Why a join link can't be used, if that's what went wrong
+function getLinkError(error: unknown) {
+  const code = getErrorCode(error);
+
+  return code && LINK_ERRORS.includes(code) ? code : undefined;
+}
+
+export default function Join() {
+  // Set when the player followed a room's link or scanned its QR code, which
+  // stand in for the PIN
+  const { roomCode, link } = useParams();
+  const { session, setSession } = useAppContext();
+  const [room, setRoom] = useState<null | PublicRoomType>(null);
+  const [pin, setPin] = useState("");
+  const [nickname, setNickname] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [linkError, setLinkError] = useState<ErrorCode>();
+  // Free nicknames offered when the one they picked is taken
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    async function loadRoom() {
+      try {
+        if (link) {
+          const info: JoinLinkInfoType = await API.get("bingo", `/links/${link}`, {});
+          setRoom(info.room);
+        } else {
+          setRoom(await API.get("bingo", `/rooms/${roomCode}`, {}));
+        }
+      } catch (e) {
+        const linkError = getLinkError(e);
+
+        if (linkError) {
+          setLinkError(linkError);
+        } else {
+          onError(e);
+        }
+      }
+    }
+
+    setRoom(null);
+    setLinkError(undefined);
+
+    if (roomCode || link) {
+      loadRoom();
+    }
+  }, [roomCode, link]);
+
+  function validateForm() {
+    return (
+      nickname.trim().length > 0 && (!!room || pin.trim().length === PIN_LENGTH)
+    );
+  }
+
+  function join(nickname: string): Promise<SessionType> {
+    return API.post("bingo", "/join", {
+      body: link
+        ? { nickname, link }
+        : room
+          ? { nickname, roomCode: room.roomCode }
+          : { nickname, pin: pin.trim() },
+    });
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setIsLoading(true);
+    setSuggestions([]);
+
+    try {
+      const session = await join(nickname.trim());
+      saveSession(session);
+      setSession(session);
+    } catch (e) {
+      // The link can run out while they pick a nickname
+      const linkError = getLinkError(e);
+
+      if (linkError) {
+        setLinkError(linkError);
+      } else {
+        // A room's own link closes with its PIN, so ask for the new one
+        if (!link && room && getErrorCode(e) === "forbidden") {
+          setRoom(null);
+        }
+
+        setSuggestions(getNicknameSuggestions(e));
+        onError(e);
+      }
+
+      setIsLoading(false);
+    }
+  }
+
+  if (linkError) {
+    return <LinkUnavailable code={linkError} />;
+  }
+
+  // A join link only says which room it's for once it's checked
+  if (link && !room) {
+    return null;
+  }
+
+  // A link to another room joins that one instead
+  const linkedRoomCode = roomCode?.toUpperCase() || room?.roomCode;
+
+  if (session && (!linkedRoomCode || session.room.roomCode === linkedRoomCode)) {
+    return <Navigate to="/play" />;
+  }
+
+  return (
+    <div className="Join">
+      <Form onSubmit={handleSubmit}>
+        <Stack gap={3}>
+          {room ? (
+            <h3 className="text-center">{room.name}</h3>
+          ) : (
+            <Form.Group controlId="pin">
+              <Form.Label>Room PIN</Form.Label>
+              <Form.Control
+                autoFocus
+                size="lg"
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={PIN_LENGTH}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              />
+              <Form.Text muted>It's on the screen at the front of the room.</Form.Text>
+            </Form.Group>
+          )}
+          <Form.Group controlId="nickname">
+            <Form.Label>Pick a nickname</Form.Label>
+            <Form.Control
+              autoFocus={!!room}
+              size="lg"
+              type="text"
+              autoComplete="nickname"
+              maxLength={MAX_NICKNAME_LENGTH}
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+            />
+            <Form.Text muted>This is what the room will see if you win.</Form.Text>
+          </Form.Group>
+          {suggestions.length > 0 && (
+            <div>
+              <div className="mb-1">How about one of these?</div>
+              <Stack direction="horizontal" gap={2} className="flex-wrap">
+                {suggestions.map((suggestion) => (
+                  <Button
+                    key={suggestion}
+                    size="sm"
+                    variant="outline-secondary"
+                    onClick={() => {
+                      setNickname(suggestion);
+                      setSuggestions([]);
+                    }}
+                  >
+                    {suggestion}
+                  </Button>
+                ))}
+              </Stack>
+            </div>
+          )}
+          {session && (
+            <Form.Text className="text-warning">
+              Joining will take you out of {session.room.name}.
+            </Form.Text>
+          )}
+          <LoaderButton
+            size="lg"
+            type="submit"
+            variant="success"
+            isLoading={isLoading}
+            disabled={!validateForm()}
+          >
+            Join the game
+          </LoaderButton>
+        </Stack>
+      </Form>
+    </div>
+  );
+}
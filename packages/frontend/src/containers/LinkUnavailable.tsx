@@ -0,0 +1,35 @@
+import Button from "react-bootstrap/Button";
+import { LinkContainer } from "react-router-bootstrap";
+import { ErrorCode } from "../lib/errorLib";
+import "./LinkUnavailable.css";
+
+const EXPLANATIONS: Partial<Record<ErrorCode, [string, string]>> = {
+  "link-expired": [
+    "This join link has expired",
+    "Links on the room's screen only last a while. Scan the code on the screen again to get a fresh one.",
+  ],
+  "link-revoked": [
+    "This join link has been switched off",
+    "The organisers turned off old links for this room. Scan the code on the screen again, or ask for the PIN.",
+  ],
+};
+
+const FALLBACK: [string, string] = [
+  "This join link doesn't work",
+  "It may not have been copied in full. Scan the code on the room's screen again, or ask for the PIN.",
+];
+
+// Where a join link that can't be used lands, in place of the join form
+export default function LinkUnavailable({ code }: { code?: ErrorCode }) {
+  const [title, explanation] = (code && EXPLANATIONS[code]) || FALLBACK;
+
+  return (
+    <div className="LinkUnavailable text-center">
+      <h3>{title}</h3>
+      <p className="text-muted">{explanation}</p>
+      <LinkContainer to="/join">
+        <Button variant="success">Join with a PIN</Button>
+      </LinkContainer>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { Auth } from "aws-amplify";
+import config from "../config";
 import Form from "react-bootstrap/Form";
 import Stack from "react-bootstrap/Stack";
 import { onError } from "../lib/errorLib";
@@ -27,7 +28,10 @@ export default function Login() {
     setIsLoading(true);
 
     try {
-      await Auth.signIn(fields.email, fields.password);
+      // Any email and password will do offline
+      if (!config.isLocal) {
+        await Auth.signIn(fields.email, fields.password);
+      }
       userHasAuthenticated(true);
     } catch (error) {
       onError(error);
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from "react";
+import { API } from "aws-amplify";
+import Alert from "react-bootstrap/Alert";
+import Stack from "react-bootstrap/Stack";
+import { Link } from "react-router-dom";
+import { isNetworkError, onError } from "../lib/errorLib";
+import { useAppContext } from "../lib/contextLib";
+import { useGameStream, useWinnerAnnouncement } from "../lib/streamLib";
+import {
+  loadSavedCard,
+  loadSavedGame,
+  saveCard,
+  saveGame,
+  useMarkQueue,
+  withPendingMarks,
+} from "../lib/offlineLib";
+import BingoGrid from "../components/BingoGrid";
+import Countdown from "../components/Countdown";
+import EvidenceForm from "../components/EvidenceForm";
+import LoaderButton from "../components/LoaderButton";
+import {
+  BingoClaimResponseType,
+  CardType,
+  CurrentGameType,
+  GameType,
+} from "../types/game";
+import "./Play.css";
+
+export default function Play() {
+  const { session } = useAppContext();
+  const roomCode = session?.room.roomCode;
+  const roomId = session?.roomId;
+  const [current, setCurrent] = useState<null | GameType>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [card, setCard] = useState<null | CardType>(null);
+  const [claim, setClaim] = useState<null | BingoClaimResponseType>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const { pending, isOffline, queue } = useMarkQueue();
+
+  const loadGame = useCallback(async () => {
+    try {
+      const { game, serverTime }: CurrentGameType = await API.get(
+        "bingo",
+        `/rooms/${roomCode}/games/current`,
+        {}
+      );
+
+      setClockOffset(serverTime - Date.now());
+      setCurrent(game);
+    } catch (e) {
+      // Without a connection, carry on with the game as it was last seen
+      const saved = isNetworkError(e) && roomId ? loadSavedGame(roomId) : null;
+
+      if (saved) {
+        setCurrent(saved);
+      } else {
+        onError(e);
+      }
+    }
+  }, [roomCode, roomId]);
+
+  useEffect(() => {
+    loadGame();
+  }, [loadGame]);
+
+  // Once connected, the stream is the source of truth for the game
+  const { snapshot } = useGameStream(current?.gameId);
+  useWinnerAnnouncement(snapshot, clockOffset);
+  const game = snapshot?.game || current;
+  const gameId = game?.gameId;
+
+  useEffect(() => {
+    if (game) {
+      saveGame(game);
+    }
+  }, [game]);
+
+  useEffect(() => {
+    if (card) {
+      saveCard(card);
+    }
+  }, [card]);
+
+  useEffect(() => {
+    async function loadCard(gameId: string) {
+      try {
+        const card: CardType = await API.get("bingo", `/games/${gameId}/card`, {});
+        setCard(withPendingMarks(card));
+      } catch (e) {
+        const saved = isNetworkError(e) ? loadSavedCard(gameId) : null;
+
+        if (saved) {
+          setCard(withPendingMarks(saved));
+        } else {
+          onError(e);
+        }
+      }
+    }
+
+    // A new game means a fresh card
+    setCard(null);
+    setClaim(null);
+
+    if (gameId) {
+      loadCard(gameId);
+    }
+  }, [gameId]);
+
+  async function handleToggle(position: number) {
+    if (!card || game?.state !== "active") {
+      return;
+    }
+
+    const isMarked = card.marked.includes(position);
+    const path = `/games/${card.gameId}/marks/${position}`;
+    const mark = {
+      gameId: card.gameId,
+      position,
+      marked: !isMarked,
+      at: Date.now() + clockOffset,
+    };
+
+    setCard({
+      ...card,
+      marked: isMarked
+        ? card.marked.filter((p) => p !== position)
+        : [...card.marked, position],
+    });
+
+    // Marks wait their turn behind any still to be sent
+    if (isOffline || pending.length > 0) {
+      queue(mark);
+      return;
+    }
+
+    try {
+      await (isMarked
+        ? API.del("bingo", path, {})
+        : API.put("bingo", path, {}));
+    } catch (e) {
+      if (isNetworkError(e)) {
+        queue(mark);
+      } else {
+        setCard(card);
+        onError(e);
+      }
+    }
+  }
+
+  async function handleClaim() {
+    if (!card) {
+      return;
+    }
+
+    setIsClaiming(true);
+
+    try {
+      setClaim(await API.post("bingo", `/games/${card.gameId}/bingo`, {}));
+    } catch (e) {
+      onError(e);
+    }
+
+    setIsClaiming(false);
+  }
+
+  function renderClaim(claim: BingoClaimResponseType) {
+    if (claim.status !== "accepted") {
+      return <Alert variant="warning">{claim.message}</Alert>;
+    }
+
+    const { winner } = claim;
+
+    return (
+      <>
+        <Alert variant="success">
+          BINGO! You won this game. You can add evidence below, or later from{" "}
+          <Link to="/wins">My wins</Link>.
+        </Alert>
+        {winner.evidence ? (
+          <Alert variant="light">
+            Thanks, your evidence is with the admins for review.
+          </Alert>
+        ) : (
+          <EvidenceForm
+            winner={winner}
+            onSubmitted={(winner) => setClaim({ ...claim, winner })}
+          />
+        )}
+      </>
+    );
+  }
+
+  function renderPending() {
+    const count = `${pending.length} ${pending.length === 1 ? "mark" : "marks"}`;
+
+    if (isOffline) {
+      return (
+        <Alert variant="warning" className="pending">
+          Offline — {count} pending
+        </Alert>
+      );
+    }
+
+    return (
+      pending.length > 0 && (
+        <Alert variant="info" className="pending">
+          Back online, sending {count}…
+        </Alert>
+      )
+    );
+  }
+
+  function renderStatus(game: GameType) {
+    if (game.state === "celebrating" && game.celebrationEndsAt) {
+      return (
+        <Alert variant="info">
+          {snapshot?.winner
+            ? `${snapshot.winner.nickname} called BINGO!`
+            : "We have a winner!"}{" "}
+          The next game starts in{" "}
+          <Countdown until={game.celebrationEndsAt - clockOffset} />{" "}
+          seconds.
+        </Alert>
+      );
+    }
+
+    return null;
+  }
+
+  return (
+    <div className="Play">
+      {game && (
+        <Stack gap={3}>
+          <h2 className="text-center">Game {game.gameNumber}</h2>
+          {renderPending()}
+          {renderStatus(game)}
+          {claim && renderClaim(claim)}
+          {card && (
+            <BingoGrid
+              words={card.words}
+              marked={card.marked}
+              highlight={
+                claim?.status === "accepted" && claim.winner.line
+                  ? claim.winner.line.positions
+                  : []
+              }
+              onToggle={game.state === "active" ? handleToggle : undefined}
+            />
+          )}
+          <LoaderButton
+            size="lg"
+            variant="danger"
+            className="bingo"
+            isLoading={isClaiming}
+            // A claim is checked against the marks the server has
+            disabled={
+              !card ||
+              game.state !== "active" ||
+              isOffline ||
+              pending.length > 0
+            }
+            onClick={handleClaim}
+          >
+            BINGO!
+          </LoaderButton>
+        </Stack>
+      )}
+    </div>
+  );
+}
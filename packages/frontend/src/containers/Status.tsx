@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { API } from "aws-amplify";
+import Col from "react-bootstrap/Col";
+import Button from "react-bootstrap/Button";
+import Row from "react-bootstrap/Row";
+import Table from "react-bootstrap/Table";
+import { useParams, useSearchParams } from "react-router-dom";
+import { QRCodeSVG } from "qrcode.react";
+import { onError } from "../lib/errorLib";
+import { useGameStream, useWinnerAnnouncement } from "../lib/streamLib";
+import {
+  LeaderboardEntryType,
+  LeaderboardType,
+  PublicWinnerType,
+} from "../types/game";
+import { JoinLinkInfoType } from "../types/room";
+import "./Status.css";
+
+const TOP_PLAYERS = 10;
+const CLOSEST_PLAYERS = 5;
+
+function closestToBingo(entries: LeaderboardEntryType[]) {
+  return [...entries]
+    .sort((a, b) => a.toBingo - b.toBingo || b.marked - a.marked)
+    .slice(0, CLOSEST_PLAYERS);
+}
+
+export default function Status() {
+  const { roomCode } = useParams();
+  // A signed join link from the admin panel, shown full screen until it's
+  // dismissed, then beside the leaderboard until it expires. The QR code
+  // only ever holds one, never the room's own link, which never changes.
+  const [searchParams] = useSearchParams();
+  const link = searchParams.get("link");
+  const [linkInfo, setLinkInfo] = useState<null | JoinLinkInfoType>(null);
+  const [isFullScreen, setIsFullScreen] = useState(true);
+  const [leaderboard, setLeaderboard] = useState<null | LeaderboardType>(null);
+  const [latestWinner, setLatestWinner] = useState<null | PublicWinnerType>(
+    null
+  );
+  const { snapshot } = useGameStream(leaderboard?.game.gameId);
+  useWinnerAnnouncement(snapshot);
+  const joinUrl = linkInfo && `${window.location.origin}/j/${link}`;
+
+  useEffect(() => {
+    async function onLoad() {
+      try {
+        const leaderboard: LeaderboardType = await API.get(
+          "bingo",
+          `/rooms/${roomCode}/leaderboard`,
+          {}
+        );
+        setLeaderboard(leaderboard);
+        setLatestWinner(leaderboard.latestWinner);
+      } catch (e) {
+        onError(e);
+      }
+    }
+
+    onLoad();
+  }, [roomCode]);
+
+  useEffect(() => {
+    async function onLoad() {
+      try {
+        setLinkInfo(await API.get("bingo", `/links/${link}`, {}));
+      } catch (e) {
+        onError(e);
+      }
+    }
+
+    setLinkInfo(null);
+
+    if (link) {
+      onLoad();
+    }
+  }, [link]);
+
+  // Take the QR code down once the join link runs out
+  useEffect(() => {
+    if (!linkInfo) {
+      return;
+    }
+
+    const timeout = setTimeout(
+      () => setLinkInfo(null),
+      Math.max(linkInfo.expiresAt - Date.now(), 0)
+    );
+
+    return () => clearTimeout(timeout);
+  }, [linkInfo]);
+
+  // Keep the last winner on screen after the game rolls over
+  const winner = snapshot?.winner;
+
+  useEffect(() => {
+    if (winner) {
+      setLatestWinner(winner);
+    }
+  }, [winner]);
+
+  if (!leaderboard) {
+    return null;
+  }
+
+  // Live data from the stream takes over from the initial load
+  const game = snapshot?.game || leaderboard.game;
+  const topPlayers = snapshot
+    ? snapshot.leaderboard.slice(0, TOP_PLAYERS)
+    : leaderboard.topPlayers;
+  const closest = snapshot
+    ? closestToBingo(snapshot.leaderboard)
+    : leaderboard.closestToBingo;
+  const playerCount = snapshot
+    ? snapshot.leaderboard.length
+    : leaderboard.playerCount;
+
+  function renderPlayers(entries: LeaderboardEntryType[], showToBingo: boolean) {
+    return (
+      <Table borderless className="players">
+        <tbody>
+          {entries.map((entry, i) => (
+            <tr key={`${i}-${entry.nickname}`}>
+              <td className="rank">{i + 1}</td>
+              <td className="nickname">{entry.nickname}</td>
+              <td className="count">
+                {showToBingo ? `${entry.toBingo} to go` : entry.marked}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    );
+  }
+
+  function renderVerdict({ verdict }: PublicWinnerType) {
+    if (verdict === "confirmed") {
+      return <div className="verdict confirmed">Confirmed</div>;
+    }
+
+    if (verdict === "overturned") {
+      return <div className="verdict overturned">Overturned</div>;
+    }
+
+    return <div className="verdict pending">Awaiting review</div>;
+  }
+
+  if (linkInfo && joinUrl && isFullScreen) {
+    return (
+      <div className="Status full-screen">
+        <h1>{leaderboard.room.name}</h1>
+        <h2>Scan to join</h2>
+        <QRCodeSVG value={joinUrl} size={512} marginSize={2} />
+        <div className="expiry">
+          Until{" "}
+          {new Date(linkInfo.expiresAt).toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </div>
+        <Button variant="link" onClick={() => setIsFullScreen(false)}>
+          Show the leaderboard
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="Status">
+      <header>
+        <h1>Buzzword Bingo</h1>
+        <div className="game">
+          {leaderboard.room.name} &middot; Game {game.gameNumber} &middot; {playerCount} playing
+        </div>
+      </header>
+      <Row>
+        <Col lg={4}>
+          <h2>Most squares marked</h2>
+          {renderPlayers(topPlayers, false)}
+        </Col>
+        <Col lg={4}>
+          <h2>Closest to bingo</h2>
+          {renderPlayers(closest, true)}
+          <h2>Latest winner</h2>
+          <div className="winner">
+            {latestWinner ? latestWinner.nickname : "Nobody yet"}
+          </div>
+          {latestWinner && renderVerdict(latestWinner)}
+        </Col>
+        <Col lg={4} className="join">
+          <h2>Join the game</h2>
+          {joinUrl ? (
+            <>
+              <QRCodeSVG value={joinUrl} size={256} marginSize={2} />
+              <div className="url">{joinUrl}</div>
+            </>
+          ) : (
+            <div className="url">
+              Go to {window.location.host} and enter the room's PIN
+            </div>
+          )}
+        </Col>
+      </Row>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import { API } from "aws-amplify";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Form from "react-bootstrap/Form";
+import ListGroup from "react-bootstrap/ListGroup";
+import Stack from "react-bootstrap/Stack";
+import { BsHandThumbsUp, BsHandThumbsUpFill } from "react-icons/bs";
+import { getErrorCode, getErrorMessage, onError } from "../lib/errorLib";
+import { usePagedList } from "../lib/hooksLib";
+import LoadMore from "../components/LoadMore";
+import LoaderButton from "../components/LoaderButton";
+import { SuggestionType, WordType } from "../types/word";
+import "./Suggest.css";
+
+// Matches the backend limit in lib/schemas.ts
+const MAX_WORD_LENGTH = 40;
+
+export default function Suggest() {
+  const [text, setText] = useState("");
+  const [approved, setApproved] = useState<null | string>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  // Problems with the word itself are shown next to the form
+  const [textError, setTextError] = useState<null | string>(null);
+
+  const {
+    items: suggestions,
+    setItems: setSuggestions,
+    hasMore,
+    isLoading,
+    hasFailed,
+    reload,
+    loadMore,
+    retry,
+  } = usePagedList<SuggestionType>("/suggestions");
+
+  function validateForm() {
+    const length = text.trim().length;
+    return length > 0 && length <= MAX_WORD_LENGTH;
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setIsSuggesting(true);
+
+    try {
+      await API.post("bingo", "/suggestions", { body: { text: text.trim() } });
+      setText("");
+      await reload();
+    } catch (e) {
+      const code = getErrorCode(e);
+
+      if (code === "bad-request" || code === "conflict") {
+        setTextError(getErrorMessage(e));
+      } else {
+        onError(e);
+      }
+    }
+
+    setIsSuggesting(false);
+  }
+
+  async function handleVote(suggestion: SuggestionType) {
+    try {
+      const word: WordType = await API.put(
+        "bingo",
+        `/suggestions/${suggestion.wordId}/vote`,
+        {}
+      );
+
+      if (word.status === "approved") {
+        setApproved(word.text);
+      }
+
+      // Updated in place, so the pages already loaded stay where they are
+      setSuggestions((suggestions) =>
+        suggestions
+          .map((s) =>
+            s.wordId === word.wordId ? { ...s, votes: word.votes, voted: true } : s
+          )
+          .filter((s) => s.wordId !== word.wordId || word.status === "pending")
+      );
+    } catch (e) {
+      onError(e);
+    }
+  }
+
+  return (
+    <div className="Suggest">
+      <Stack gap={3}>
+        <Form onSubmit={handleSubmit}>
+          <Form.Group controlId="text">
+            <Form.Label>Heard a buzzword that isn't on the cards?</Form.Label>
+            <Stack direction="horizontal" gap={2}>
+              <Form.Control
+                type="text"
+                maxLength={MAX_WORD_LENGTH}
+                value={text}
+                isInvalid={!!textError}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setTextError(null);
+                }}
+              />
+              <LoaderButton
+                type="submit"
+                isLoading={isSuggesting}
+                disabled={!validateForm()}
+              >
+                Suggest
+              </LoaderButton>
+            </Stack>
+            {textError ? (
+              <Form.Text className="text-danger">{textError}</Form.Text>
+            ) : (
+              <Form.Text muted>
+                Words with enough votes go into the next game's cards.
+              </Form.Text>
+            )}
+          </Form.Group>
+        </Form>
+        {approved && (
+          <p className="text-success">
+            Your vote got <span className="fw-bold">{approved}</span> onto
+            the cards!
+          </p>
+        )}
+        <ListGroup>
+          {suggestions.map((suggestion) => (
+            <ListGroup.Item
+              key={suggestion.wordId}
+              className="d-flex align-items-center justify-content-between"
+            >
+              <div>
+                <span className="fw-bold">{suggestion.text}</span>
+                {suggestion.suggestedBy && (
+                  <div className="text-muted small">
+                    from {suggestion.mine ? "you" : suggestion.suggestedBy}
+                  </div>
+                )}
+              </div>
+              <Button
+                variant="link"
+                className="vote"
+                disabled={suggestion.voted || suggestion.mine}
+                onClick={() => handleVote(suggestion)}
+              >
+                {suggestion.voted ? <BsHandThumbsUpFill /> : <BsHandThumbsUp />}
+                <Badge bg="secondary" className="ms-2">
+                  {suggestion.votes}
+                </Badge>
+              </Button>
+            </ListGroup.Item>
+          ))}
+        </ListGroup>
+        <LoadMore
+          hasMore={hasMore}
+          isLoading={isLoading}
+          hasFailed={hasFailed}
+          onLoadMore={loadMore}
+          onRetry={retry}
+        />
+        {!isLoading && !hasFailed && suggestions.length === 0 && (
+          <p className="text-muted text-center">No suggestions waiting for votes.</p>
+        )}
+      </Stack>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { API } from "aws-amplify";
+import Alert from "react-bootstrap/Alert";
+import Card from "react-bootstrap/Card";
+import Stack from "react-bootstrap/Stack";
+import { onError } from "../lib/errorLib";
+import EvidenceForm from "../components/EvidenceForm";
+import { WinnerType } from "../types/game";
+import "./Wins.css";
+
+/**
+ * Every game the player has won, where they can add evidence to a win
+ * until it's reviewed, long after the celebration is over.
+ */
+export default function Wins() {
+  const [wins, setWins] = useState<null | WinnerType[]>(null);
+
+  useEffect(() => {
+    async function onLoad() {
+      try {
+        setWins(await API.get("bingo", "/wins", {}));
+      } catch (e) {
+        onError(e);
+      }
+    }
+
+    onLoad();
+  }, []);
+
+  function handleSubmitted(winner: WinnerType) {
+    setWins((wins) =>
+      wins && wins.map((win) => (win.gameId === winner.gameId ? winner : win))
+    );
+  }
+
+  function renderReview(win: WinnerType) {
+    if (win.verdict === "confirmed") {
+      return <Alert variant="success">The admins confirmed this win.</Alert>;
+    }
+
+    if (win.verdict === "overturned") {
+      return <Alert variant="danger">The admins overturned this win.</Alert>;
+    }
+
+    if (win.evidence) {
+      return (
+        <Alert variant="light">
+          Thanks, your evidence is with the admins for review.
+        </Alert>
+      );
+    }
+
+    return <EvidenceForm winner={win} onSubmitted={handleSubmitted} />;
+  }
+
+  if (!wins) {
+    return null;
+  }
+
+  return (
+    <div className="Wins">
+      <h2 className="mb-3">My wins</h2>
+      {wins.length === 0 ? (
+        <p className="text-muted">No wins yet, keep listening!</p>
+      ) : (
+        <Stack gap={3}>
+          {wins.map((win) => (
+            <Card key={win.gameId}>
+              <Card.Body>
+                <Card.Title>
+                  Won at{" "}
+                  {new Date(win.wonAt).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </Card.Title>
+                {win.line && (
+                  <Card.Subtitle className="mb-3 text-muted">
+                    {win.line.words.join(" · ")}
+                  </Card.Subtitle>
+                )}
+                {renderReview(win)}
+              </Card.Body>
+            </Card>
+          ))}
+        </Stack>
+      )}
+    </div>
+  );
+}
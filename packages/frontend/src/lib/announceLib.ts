@@ -0,0 +1,68 @@
+import { PublicWinnerType } from "../types/game";
+
+/**
+ * Something everyone on a screen should see, shown over the whole app by the
+ * <Announcements /> rendered by App until it's withdrawn. Announced again
+ * under the same key, it's updated in place.
+ */
+export type Announcement = { key: string } & {
+  type: "winner";
+  winner: PublicWinnerType;
+  // When the next game starts, in this device's time
+  nextGameAt?: number;
+};
+
+export interface Effects {
+  sound: boolean;
+  vibrate: boolean;
+}
+
+type Listener = (announcements: Announcement[]) => void;
+
+const EFFECTS_KEY = "buzzword-bingo:effects";
+
+// Sound is off until asked for, a room full of phones going off is a lot
+const DEFAULT_EFFECTS: Effects = { sound: false, vibrate: true };
+
+const listeners = new Set<Listener>();
+let announcements: Announcement[] = [];
+
+function publish() {
+  listeners.forEach((listener) => listener(announcements));
+}
+
+export function announce(announcement: Announcement) {
+  const index = announcements.findIndex(({ key }) => key === announcement.key);
+
+  announcements =
+    index === -1
+      ? [...announcements, announcement]
+      : announcements.map((a, i) => (i === index ? announcement : a));
+  publish();
+}
+
+export function withdraw(key: string) {
+  announcements = announcements.filter((announcement) => announcement.key !== key);
+  publish();
+}
+
+export function subscribeToAnnouncements(listener: Listener) {
+  listeners.add(listener);
+  listener(announcements);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function loadEffects(): Effects {
+  try {
+    return { ...DEFAULT_EFFECTS, ...JSON.parse(localStorage.getItem(EFFECTS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_EFFECTS;
+  }
+}
+
+export function saveEffects(effects: Effects) {
+  localStorage.setItem(EFFECTS_KEY, JSON.stringify(effects));
+}
@@ -1,4 +1,5 @@
-import { Storage } from "aws-amplify";
+import { API, Storage } from "aws-amplify";
+import { PackFormat } from "../types/pack";
 
 export async function s3Upload(file: File) {
   const filename = `${Date.now()}-${file.name}`;
@@ -9,3 +10,59 @@ export async function s3Upload(file: File) {
 
   return stored.key;
 }
+
+/**
+ * Players have no Cognito identity to upload with, so evidence photos go
+ * straight to S3 through a presigned URL from the API.
+ */
+export async function evidenceUpload(gameId: string, file: File) {
+  const { photoKey, uploadUrl } = await API.post(
+    "bingo",
+    `/games/${gameId}/evidence/upload`,
+    { body: { contentType: file.type } }
+  );
+
+  const response = await fetch(uploadUrl, {
+    method: "PUT",
+    headers: { "Content-Type": file.type },
+    body: file,
+  });
+
+  if (!response.ok) {
+    throw new Error("Your photo could not be uploaded");
+  }
+
+  return photoKey as string;
+}
+
+/**
+ * Word packs go to S3 through a presigned URL from the API, which reads
+ * them back to preview and import. Returns the key to do that with.
+ */
+export async function packUpload(roomId: string, file: File, format: PackFormat) {
+  const { packKey, uploadUrl } = await API.post(
+    "bingo",
+    `/admin/rooms/${roomId}/packs/upload`,
+    { body: { format } }
+  );
+
+  const response = await fetch(uploadUrl, {
+    method: "PUT",
+    headers: { "Content-Type": format === "csv" ? "text/csv" : "application/json" },
+    body: file,
+  });
+
+  if (!response.ok) {
+    throw new Error("Your pack could not be uploaded");
+  }
+
+  return packKey as string;
+}
+
+/**
+ * Sent with admin changes, so the API refuses them if the item has changed
+ * since it was loaded instead of overwriting someone else's change.
+ */
+export function ifMatch({ version }: { version: number }) {
+  return { "If-Match": `"${version}"` };
+}
@@ -1,13 +1,18 @@
 import { createContext, useContext } from "react";
+import { SessionType } from "../types/session";
 
 export interface AppContextType {
   isAuthenticated: boolean;
   userHasAuthenticated: React.Dispatch<React.SetStateAction<boolean>>;
+  session: SessionType | null;
+  setSession: (session: SessionType | null) => void;
 }
 
 export const AppContext = createContext<AppContextType>({
   isAuthenticated: false,
   userHasAuthenticated: useAppContext,
+  session: null,
+  setSession: useAppContext,
 });
 
 export function useAppContext() {
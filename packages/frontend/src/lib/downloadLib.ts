@@ -0,0 +1,23 @@
+import { RoomType } from "../types/room";
+
+// Named after the room, like the backend names it in lib/rooms.ts
+export function roomFileName(room: RoomType, suffix: string) {
+  const slug = room.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+  return `${slug || "room"}-${suffix}`;
+}
+
+/**
+ * Saves content fetched through the API as a file. Amplify hands back JSON
+ * already parsed, so it's written back out.
+ */
+export function download(content: unknown, fileName: string, type: string) {
+  const text = typeof content === "string" ? content : JSON.stringify(content, null, 2);
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,9 +1,123 @@
+import { Notice, showNotice } from "./noticeLib";
+
+/**
+ * The codes the API responds with, see lib/errors.ts in the backend.
+ */
+export type ErrorCode =
+  | "bad-request"
+  | "unauthorized"
+  | "forbidden"
+  | "not-found"
+  | "conflict"
+  | "rate-limited"
+  | "game-closed"
+  | "version-conflict"
+  | "nickname-taken"
+  | "link-invalid"
+  | "link-expired"
+  | "link-revoked"
+  | "internal";
+
+interface ResponseError {
+  response?: {
+    status?: number;
+    headers?: Record<string, string>;
+    data?: {
+      error?: string;
+      code?: ErrorCode;
+      retryAfter?: number;
+      current?: unknown;
+      suggestions?: string[];
+    };
+  };
+}
+
+const VARIANTS: Partial<Record<ErrorCode, Notice["variant"]>> = {
+  "game-closed": "info",
+  internal: "danger",
+};
+
+function getResponse(error: unknown) {
+  return error && typeof error === "object"
+    ? (error as ResponseError).response
+    : undefined;
+}
+
+export function getErrorCode(error: unknown): ErrorCode | undefined {
+  return getResponse(error)?.data?.code;
+}
+
+/**
+ * Whether a request never got a response, e.g. because the device is
+ * offline, rather than the API turning it down.
+ */
+export function isNetworkError(error: unknown) {
+  return !!error && typeof error === "object" && !getResponse(error);
+}
+
+/**
+ * How long a rate-limited request should wait before trying again.
+ */
+export function getRetryAfter(error: unknown) {
+  const response = getResponse(error);
+
+  return Number(
+    response?.headers?.["retry-after"] ?? response?.data?.retryAfter ?? 1
+  );
+}
+
+/**
+ * The server's copy of something another admin changed first, from a
+ * version-conflict error.
+ */
+export function getConflictCurrent<T>(error: unknown): T | undefined {
+  const data = getResponse(error)?.data;
+
+  return data?.code === "version-conflict" ? (data.current as T) : undefined;
+}
+
+/**
+ * Free nicknames to pick from instead, from a nickname-taken error.
+ */
+export function getNicknameSuggestions(error: unknown) {
+  const data = getResponse(error)?.data;
+
+  return data?.code === "nickname-taken" ? data.suggestions || [] : [];
+}
+
+/**
+ * The most useful message for an error, preferring what the API said.
+ */
+export function getErrorMessage(error: unknown) {
+  const response = getResponse(error);
+
+  if (response?.data?.error) {
+    return response.data.error;
+  }
+
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+
+  return String(error);
+}
+
 export function onError(error: Error | string | unknown) {
-  let message = String(error);
+  const code = getErrorCode(error);
+
+  if (code === "rate-limited") {
+    const retryAfter = getRetryAfter(error);
+
+    showNotice(
+      `Slow down! Try again in ${retryAfter} ${retryAfter === 1 ? "second" : "seconds"}.`
+    );
+    return;
+  }
 
-  if (!(error instanceof Error) && error && typeof error === 'object' && 'message' in error) {
-    message = String((error as { message: unknown }).message);
+  if (code === "unauthorized") {
+    showNotice(`${getErrorMessage(error)}. Join again to keep playing.`, "danger");
+    return;
   }
 
-  alert(message);
+  showNotice(getErrorMessage(error), code ? VARIANTS[code] ?? "warning" : "danger");
 }
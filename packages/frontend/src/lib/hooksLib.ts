@@ -1,4 +1,14 @@
-import { useState, ChangeEvent, ChangeEventHandler } from "react";
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  ChangeEvent,
+  ChangeEventHandler,
+} from "react";
+import { API } from "aws-amplify";
+import { onError } from "./errorLib";
+import { PageType } from "../types/page";
 
 interface FieldsType {
   [key: string | symbol]: string;
@@ -20,3 +30,90 @@ export function useFormFields(
     },
   ];
 }
+
+/**
+ * Loads a paginated list from the API a page at a time, starting over
+ * whenever the path or the filters change. Nothing loads without a path.
+ * After a page fails to load, nothing more loads until `retry`.
+ */
+export function usePagedList<T>(
+  path: string | undefined,
+  filters: Record<string, string | undefined> = {}
+) {
+  const [items, setItems] = useState<T[]>([]);
+  const [cursor, setCursor] = useState<string>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+  // Pages for a list that has since been started over are dropped
+  const latest = useRef(0);
+  const query = JSON.stringify(filters);
+
+  const loadPage = useCallback(
+    async (after?: string) => {
+      if (!path) {
+        return;
+      }
+
+      const request = after ? latest.current : ++latest.current;
+      const queryStringParameters = JSON.parse(query);
+
+      if (after) {
+        queryStringParameters.cursor = after;
+      }
+
+      setIsLoading(true);
+      setHasFailed(false);
+
+      try {
+        const page: PageType<T> = await API.get("bingo", path, {
+          queryStringParameters,
+        });
+
+        if (request === latest.current) {
+          setItems((items) => (after ? [...items, ...page.items] : page.items));
+          setCursor(page.cursor);
+        }
+      } catch (e) {
+        // Otherwise the end of the list, still in view, asks again straight
+        // away and an error that lasts never stops
+        if (request === latest.current) {
+          setHasFailed(true);
+        }
+        onError(e);
+      }
+
+      if (request === latest.current) {
+        setIsLoading(false);
+      }
+    },
+    [path, query]
+  );
+
+  useEffect(() => {
+    setItems([]);
+    setCursor(undefined);
+    loadPage();
+  }, [loadPage]);
+
+  const reload = useCallback(() => loadPage(), [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (cursor && !isLoading && !hasFailed) {
+      loadPage(cursor);
+    }
+  }, [cursor, isLoading, hasFailed, loadPage]);
+
+  // Tries the page that failed again, the first one if that was it
+  const retry = useCallback(() => loadPage(cursor), [cursor, loadPage]);
+
+  return {
+    items,
+    setItems,
+    hasMore: !!cursor,
+    isLoading,
+    hasFailed,
+    reload,
+    loadMore,
+    retry,
+  };
+}
@@ -0,0 +1,27 @@
+export interface Notice {
+  id: number;
+  message: string;
+  variant: "warning" | "danger" | "info" | "success";
+}
+
+type Listener = (notice: Notice) => void;
+
+const listeners = new Set<Listener>();
+let nextId = 1;
+
+/**
+ * Shows a short-lived message through the <Notices /> rendered by App, for
+ * code outside of React like onError.
+ */
+export function showNotice(message: string, variant: Notice["variant"] = "warning") {
+  const notice = { id: nextId++, message, variant };
+  listeners.forEach((listener) => listener(notice));
+}
+
+export function subscribeToNotices(listener: Listener) {
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
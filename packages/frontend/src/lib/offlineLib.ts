@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { API } from "aws-amplify";
+import {
+  getErrorCode,
+  getRetryAfter,
+  isNetworkError,
+  onError,
+} from "./errorLib";
+import { showNotice } from "./noticeLib";
+import { CardType, GameType, PendingMarkType } from "../types/game";
+
+const PENDING_KEY = "buzzword-bingo:pending-marks";
+const GAME_KEY = "buzzword-bingo:game";
+const CARD_KEY = "buzzword-bingo:card";
+
+// Being online doesn't always mean the API can be reached, e.g. behind a
+// conference Wi-Fi sign-in page, so pending marks are tried again this often
+const RETRY_MS = 10000;
+
+function load<T>(key: string): T | null {
+  const stored = localStorage.getItem(key);
+
+  try {
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    localStorage.removeItem(key);
+    return null;
+  }
+}
+
+function save(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+/*
+ * The game and card last shown, so the card still loads without a
+ * connection
+ */
+
+export function saveGame(game: GameType) {
+  save(GAME_KEY, game);
+}
+
+export function loadSavedGame(roomId: string) {
+  const game = load<GameType>(GAME_KEY);
+
+  return game?.roomId === roomId ? game : null;
+}
+
+export function saveCard(card: CardType) {
+  save(CARD_KEY, card);
+}
+
+export function loadSavedCard(gameId: string) {
+  const card = load<CardType>(CARD_KEY);
+
+  return card?.gameId === gameId ? card : null;
+}
+
+function loadPendingMarks() {
+  return load<PendingMarkType[]>(PENDING_KEY) || [];
+}
+
+function savePendingMarks(marks: PendingMarkType[]) {
+  if (marks.length > 0) {
+    save(PENDING_KEY, marks);
+  } else {
+    localStorage.removeItem(PENDING_KEY);
+  }
+}
+
+/**
+ * Forgets everything kept for playing offline, when the player leaves or
+ * joins as someone else.
+ */
+export function clearOfflinePlay() {
+  [PENDING_KEY, GAME_KEY, CARD_KEY].forEach((key) =>
+    localStorage.removeItem(key)
+  );
+}
+
+/**
+ * A card as the player sees it, with their pending marks on top of what the
+ * server has.
+ */
+export function withPendingMarks(card: CardType) {
+  return loadPendingMarks()
+    .filter((mark) => mark.gameId === card.gameId)
+    .reduce(
+      (card, { position, marked }) => ({
+        ...card,
+        marked: [
+          ...card.marked.filter((p) => p !== position),
+          ...(marked ? [position] : []),
+        ],
+      }),
+      card
+    );
+}
+
+// Marking and unmarking are safe to repeat, so a mark that did land before
+// the connection dropped can be sent again
+function sendMark({ gameId, position, marked, at }: PendingMarkType) {
+  const path = `/games/${gameId}/marks/${position}`;
+
+  return marked
+    ? API.put("bingo", path, { body: { markedAt: at } })
+    : API.del("bingo", path, {});
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function useOnline() {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+}
+
+/**
+ * Marks made without a connection, kept across reloads and sent in the
+ * order they were made once the API can be reached again.
+ */
+export function useMarkQueue() {
+  const isOnline = useOnline();
+  const [pending, setPending] = useState(loadPendingMarks);
+  const [isReachable, setIsReachable] = useState(true);
+  const isSending = useRef(false);
+
+  const queue = useCallback((mark: PendingMarkType) => {
+    const marks = [...loadPendingMarks(), mark];
+
+    savePendingMarks(marks);
+    setPending(marks);
+  }, []);
+
+  const send = useCallback(async () => {
+    if (isSending.current) {
+      return;
+    }
+
+    isSending.current = true;
+
+    let marks = loadPendingMarks();
+
+    while (marks.length > 0) {
+      const [mark] = marks;
+      let dropped: (pending: PendingMarkType) => boolean = () => false;
+
+      try {
+        await sendMark(mark);
+        setIsReachable(true);
+      } catch (e) {
+        const code = getErrorCode(e);
+
+        if (isNetworkError(e)) {
+          setIsReachable(false);
+          break;
+        }
+
+        if (code === "rate-limited") {
+          await wait(getRetryAfter(e) * 1000);
+          continue;
+        }
+
+        setIsReachable(true);
+
+        if (code === "game-closed") {
+          // Nothing more can be marked in a game that's over
+          dropped = (pending) => pending.gameId === mark.gameId;
+          showNotice("The game ended before your offline marks were sent.", "info");
+        } else if (code === "unauthorized") {
+          // Nothing more can be sent without joining again
+          dropped = () => true;
+          onError(e);
+        } else {
+          onError(e);
+        }
+      }
+
+      // Marks queued while this one was sent go after it
+      marks = loadPendingMarks()
+        .slice(1)
+        .filter((pending) => !dropped(pending));
+      savePendingMarks(marks);
+      setPending(marks);
+    }
+
+    isSending.current = false;
+  }, []);
+
+  useEffect(() => {
+    if (!isOnline || pending.length === 0) {
+      return;
+    }
+
+    send();
+    const timer = setInterval(send, RETRY_MS);
+
+    return () => clearInterval(timer);
+  }, [isOnline, pending.length, send]);
+
+  return { pending, isOffline: !isOnline || !isReachable, queue };
+}
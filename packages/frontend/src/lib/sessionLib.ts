@@ -0,0 +1,45 @@
+import { clearOfflinePlay } from "./offlineLib";
+import { SessionType } from "../types/session";
+
+const SESSION_KEY = "buzzword-bingo:session";
+
+export function loadSession(): SessionType | null {
+  const stored = localStorage.getItem(SESSION_KEY);
+
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const session: SessionType = JSON.parse(stored);
+
+    // Sessions from before rooms have to join again
+    if (!session.room) {
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+
+    return session;
+  } catch {
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+}
+
+export function saveSession(session: SessionType) {
+  // Nothing queued as someone else is sent as this player
+  clearOfflinePlay();
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  clearOfflinePlay();
+  localStorage.removeItem(SESSION_KEY);
+}
+
+// Attached to every API call so the backend can identify the player
+export async function sessionHeaders(): Promise<Record<string, string>> {
+  const session = loadSession();
+
+  return session ? { "X-Session-Token": session.token } : {};
+}
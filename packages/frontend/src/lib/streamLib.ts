@@ -0,0 +1,166 @@
+import { useEffect, useReducer } from "react";
+import config from "../config";
+import { announce, withdraw } from "./announceLib";
+import { GameEventType, GameSnapshotType } from "../types/game";
+
+const EVENT_TYPES: GameEventType["type"][] = [
+  "snapshot",
+  "marks",
+  "words",
+  "winner",
+  "rollover",
+];
+
+const MAX_RETRY_DELAY = 30000;
+
+export interface GameStreamState {
+  snapshot: GameSnapshotType | null;
+  isConnected: boolean;
+}
+
+type Action = GameEventType | { type: "connection"; data: boolean };
+
+function reducer(state: GameStreamState, action: Action): GameStreamState {
+  const { snapshot } = state;
+
+  switch (action.type) {
+    case "connection":
+      return { ...state, isConnected: action.data };
+    case "snapshot":
+      return { ...state, snapshot: action.data };
+    case "rollover":
+      return {
+        ...state,
+        snapshot: {
+          game: action.data.game,
+          winner: null,
+          leaderboard: [],
+          words: snapshot?.words || [],
+        },
+      };
+  }
+
+  // The remaining events patch a snapshot, which always arrives first
+  if (!snapshot) {
+    return state;
+  }
+
+  switch (action.type) {
+    case "marks":
+      return {
+        ...state,
+        snapshot: { ...snapshot, leaderboard: action.data.leaderboard },
+      };
+    case "words":
+      return {
+        ...state,
+        snapshot: {
+          ...snapshot,
+          words: [...snapshot.words, ...action.data.added],
+        },
+      };
+    case "winner":
+      return {
+        ...state,
+        snapshot: {
+          ...snapshot,
+          game: action.data.game,
+          winner: action.data.winner,
+        },
+      };
+  }
+}
+
+/**
+ * Follows a game's event stream, moving on to the next game when it rolls
+ * over. Every (re)connection starts with a full snapshot from the server, so
+ * a dropped connection only needs to be reopened.
+ */
+export function useGameStream(gameId?: string) {
+  const [state, dispatch] = useReducer(reducer, {
+    snapshot: null,
+    isConnected: false,
+  });
+
+  const streamId = state.snapshot?.game.gameId || gameId;
+
+  useEffect(() => {
+    if (!streamId) {
+      return;
+    }
+
+    const url = `${config.stream.URL.replace(/\/$/, "")}/games/${streamId}/stream`;
+    let source: EventSource;
+    let retryTimer: ReturnType<typeof setTimeout>;
+    let attempts = 0;
+
+    function connect() {
+      source = new EventSource(url);
+
+      source.onopen = () => {
+        attempts = 0;
+        dispatch({ type: "connection", data: true });
+      };
+
+      source.onerror = () => {
+        dispatch({ type: "connection", data: false });
+
+        // The browser retries on its own unless the connection failed outright
+        if (source.readyState === EventSource.CLOSED) {
+          const delay = Math.min(MAX_RETRY_DELAY, 1000 * 2 ** attempts++);
+          retryTimer = setTimeout(connect, delay);
+        }
+      };
+
+      for (const type of EVENT_TYPES) {
+        source.addEventListener(type, (event) => {
+          dispatch({
+            type,
+            data: JSON.parse((event as MessageEvent).data),
+          } as GameEventType);
+        });
+      }
+    }
+
+    connect();
+
+    return () => {
+      clearTimeout(retryTimer);
+      source.close();
+    };
+  }, [streamId]);
+
+  return state;
+}
+
+/**
+ * Celebrates a game's winner over the whole app for as long as the game is
+ * celebrating, counting down to the next game. The stream rolling over to
+ * that game ends it.
+ */
+export function useWinnerAnnouncement(
+  snapshot: GameSnapshotType | null,
+  // Server time minus this device's, when it's known
+  clockOffset = 0
+) {
+  const game = snapshot?.game;
+  const winner = snapshot?.winner;
+  const key =
+    game?.state === "celebrating" && winner ? `winner-${game.gameId}` : null;
+  const celebrationEndsAt = game?.celebrationEndsAt;
+
+  useEffect(() => {
+    if (!key || !winner) {
+      return;
+    }
+
+    announce({
+      key,
+      type: "winner",
+      winner,
+      nextGameAt: celebrationEndsAt && celebrationEndsAt - clockOffset,
+    });
+
+    return () => withdraw(key);
+  }, [key, winner, celebrationEndsAt, clockOffset]);
+}
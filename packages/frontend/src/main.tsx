@@ -3,11 +3,12 @@ import { Amplify } from "aws-amplify";
 import ReactDOM from "react-dom/client";
 import { BrowserRouter as Router } from "react-router-dom";
 import config from "./config.ts";
+import { sessionHeaders } from "./lib/sessionLib.ts";
 import App from "./App.tsx";
 import "bootstrap/dist/css/bootstrap.min.css";
 import "./index.css";
 
-Amplify.configure({
+const aws = {
   Auth: {
     mandatorySignIn: true,
     region: config.cognito.REGION,
@@ -20,12 +21,18 @@ Amplify.configure({
     bucket: config.s3.BUCKET,
     identityPoolId: config.cognito.IDENTITY_POOL_ID,
   },
+};
+
+// Without Cognito, API calls go out unsigned
+Amplify.configure({
+  ...(config.isLocal ? {} : aws),
   API: {
     endpoints: [
       {
-        name: "notes",
+        name: "bingo",
         endpoint: config.apiGateway.URL,
         region: config.apiGateway.REGION,
+        custom_header: sessionHeaders,
       },
     ],
   },
@@ -38,3 +45,10 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
     </Router>
   </React.StrictMode>
 );
+
+// Only a built app is cached, so the dev server always serves fresh code
+if ("serviceWorker" in navigator && import.meta.env.PROD) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(console.error);
+  });
+}
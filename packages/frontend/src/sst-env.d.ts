@@ -5,6 +5,7 @@
 interface ImportMetaEnv {
   readonly VITE_REGION: string
   readonly VITE_API_URL: string
+  readonly VITE_STREAM_URL: string
   readonly VITE_BUCKET: string
   readonly VITE_USER_POOL_ID: string
   readonly VITE_IDENTITY_POOL_ID: string
@@ -0,0 +1,47 @@
+import { GameState, WinnerVerdict, WinningLineType } from "./game";
+
+export type EventActorType =
+  | { type: "player"; sessionId: string; nickname: string }
+  | { type: "admin"; username: string }
+  | { type: "system" };
+
+// The events logged against a game, the rest of the room's log isn't listed
+export type GameLogEventType = {
+  seq: number;
+  gameId: string;
+  actor: EventActorType;
+  at: number;
+} & (
+  | { type: "game-created"; data: { gameNumber: number } }
+  | { type: "game-state"; data: { from: GameState; to: GameState } }
+  | { type: "card-dealt"; data: { words: string[] } }
+  | { type: "mark"; data: { position: number; word: string } }
+  | { type: "unmark"; data: { position: number; word: string } }
+  | {
+      type: "claim";
+      data:
+        | { status: "accepted"; line: WinningLineType }
+        | { status: "rejected"; reason: string };
+    }
+  | { type: "evidence-submitted"; data: { quotes: number; photo: boolean } }
+  | { type: "winner-declared"; data: { sessionId: string; nickname: string } }
+  | { type: "winner-reviewed"; data: { verdict: WinnerVerdict } }
+  | { type: "winner-revoked"; data: Record<string, never> }
+);
+
+export interface GameReplayType {
+  gameNumber: number | null;
+  state: GameState | null;
+  winner: {
+    sessionId: string;
+    nickname: string;
+    verdict: WinnerVerdict | null;
+  } | null;
+  seq: number;
+}
+
+export interface GameReplayResponseType {
+  replay: GameReplayType;
+  // Empty when the stored game matches its log
+  differences: string[];
+}
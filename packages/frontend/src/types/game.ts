@@ -0,0 +1,142 @@
+import { PublicRoomType } from "./room";
+
+export type GameState =
+  | "queued"
+  | "active"
+  | "bingo-called"
+  | "celebrating"
+  | "complete";
+
+export interface GameType {
+  gameId: string;
+  roomId: string;
+  gameNumber: number;
+  state: GameState;
+  createdAt: number;
+  updatedAt: number;
+  celebrationEndsAt?: number;
+  version: number;
+}
+
+export interface CurrentGameType {
+  room: PublicRoomType;
+  game: GameType;
+  serverTime: number;
+}
+
+export interface CardType {
+  gameId: string;
+  words: string[];
+  marked: number[];
+}
+
+// A square marked or unmarked while offline, waiting to be sent
+export interface PendingMarkType {
+  gameId: string;
+  position: number;
+  marked: boolean;
+  // In server time
+  at: number;
+}
+
+export interface WinningLineType {
+  kind: "row" | "column" | "diagonal";
+  index: number;
+  positions: number[];
+  words: string[];
+}
+
+export interface EvidenceQuoteType {
+  word: string;
+  quote: string;
+  at: number;
+}
+
+export interface EvidenceType {
+  photoKey?: string;
+  quotes: EvidenceQuoteType[];
+  submittedAt: number;
+}
+
+export type WinnerVerdict = "confirmed" | "overturned";
+
+export interface WinnerType {
+  gameId: string;
+  sessionId: string;
+  roomId: string;
+  nickname: string;
+  // Null when an admin declared the winner
+  line: WinningLineType | null;
+  wonAt: number;
+  declaredBy?: string;
+  evidence?: EvidenceType;
+  // Unset while the win is waiting on review
+  verdict?: WinnerVerdict;
+  reviewedBy?: string;
+  reviewedAt?: number;
+}
+
+export type BingoClaimResponseType =
+  | { status: "accepted"; winner: WinnerType }
+  | {
+      status: "rejected";
+      reason: "no-card" | "no-line" | "already-won" | "game-closed";
+      message: string;
+      winner?: WinnerType;
+    };
+
+export type PublicWinnerType = Omit<WinnerType, "sessionId" | "evidence">;
+
+export interface LeaderboardEntryType {
+  nickname: string;
+  marked: number;
+  toBingo: number;
+}
+
+export interface PlayerStandingType extends LeaderboardEntryType {
+  sessionId: string;
+  version: number;
+}
+
+export interface GameSnapshotType {
+  game: GameType;
+  winner: PublicWinnerType | null;
+  leaderboard: LeaderboardEntryType[];
+  words: string[];
+}
+
+export type GameEventType =
+  | { type: "snapshot"; data: GameSnapshotType }
+  | { type: "marks"; data: { leaderboard: LeaderboardEntryType[] } }
+  | { type: "words"; data: { added: string[] } }
+  | { type: "winner"; data: { game: GameType; winner: PublicWinnerType } }
+  | { type: "rollover"; data: { game: GameType } };
+
+export interface LeaderboardType {
+  room: PublicRoomType;
+  game: GameType;
+  playerCount: number;
+  topPlayers: LeaderboardEntryType[];
+  closestToBingo: LeaderboardEntryType[];
+  latestWinner: PublicWinnerType | null;
+}
+
+export interface WordCountType {
+  word: string;
+  count: number;
+}
+
+export type WordCloudScope = "recent" | "game" | "room";
+
+export interface WordCloudType {
+  room: PublicRoomType;
+  gameId: string;
+  windowMinutes: number;
+  counts: Record<WordCloudScope, WordCountType[]>;
+}
+
+export interface EvidenceReviewType {
+  game: GameType;
+  winner: WinnerType;
+  photoUrl?: string;
+}
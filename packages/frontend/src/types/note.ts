@@ -1,7 +0,0 @@
-export interface NoteType {
-  noteId?: string;
-  content: string;
-  createdAt?: string;
-  attachment?: string;
-  attachmentURL?: string;
-}
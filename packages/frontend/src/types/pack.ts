@@ -0,0 +1,27 @@
+import { WordStatus, WordType } from "./word";
+
+export type PackFormat = "csv" | "json";
+
+// A word from a pack that would be added to the room
+export interface PackWordType {
+  text: string;
+  status: Extract<WordStatus, "approved" | "pending">;
+}
+
+// A word from a pack that would be left out, and why
+export interface SkippedPackWordType {
+  row: number;
+  text: string;
+  reason: string;
+}
+
+export interface PackPreviewType {
+  packKey: string;
+  words: PackWordType[];
+  skipped: SkippedPackWordType[];
+}
+
+export interface PackImportResultType {
+  added: WordType[];
+  skipped: SkippedPackWordType[];
+}
@@ -0,0 +1,5 @@
+// One page of a list, with the cursor for the next until the last page
+export interface PageType<T> {
+  items: T[];
+  cursor?: string;
+}
@@ -0,0 +1,9 @@
+export interface PlayerType {
+  sessionId: string;
+  roomId: string;
+  nickname: string;
+  joinedAt: number;
+  // Set once an admin bans the player
+  removedAt?: number;
+  version: number;
+}
@@ -0,0 +1,4 @@
+export type ResultsFormat = "csv" | "json" | "markdown";
+
+// CSV exports hold one of these at a time
+export type ResultsTable = "games" | "words" | "suggestions";
@@ -0,0 +1,29 @@
+export interface RoomType {
+  roomId: string;
+  roomCode: string;
+  name: string;
+  pin: string;
+  // Null when the PIN lasts until it's rotated
+  pinExpiresAt: number | null;
+  // Join links made before this no longer work
+  linksRevokedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+}
+
+// What players see of a room, without its PIN
+export type PublicRoomType = Pick<RoomType, "roomId" | "roomCode" | "name">;
+
+// A signed link into one room, shown as a QR code on its screen
+export interface JoinLinkType {
+  token: string;
+  roomId: string;
+  expiresAt: number;
+}
+
+// What a join link opens on
+export interface JoinLinkInfoType {
+  room: PublicRoomType;
+  expiresAt: number;
+}
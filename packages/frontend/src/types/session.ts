@@ -0,0 +1,9 @@
+import { PublicRoomType } from "./room";
+
+export interface SessionType {
+  sessionId: string;
+  roomId: string;
+  nickname: string;
+  token: string;
+  room: PublicRoomType;
+}
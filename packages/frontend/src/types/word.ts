@@ -0,0 +1,26 @@
+export type WordStatus = "pending" | "approved" | "rejected";
+
+export interface WordType {
+  wordId: string;
+  roomId: string;
+  text: string;
+  status: WordStatus;
+  votes: number;
+  suggestedBy?: {
+    sessionId: string;
+    nickname: string;
+  };
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+}
+
+export interface SuggestionType {
+  wordId: string;
+  text: string;
+  votes: number;
+  suggestedBy?: string;
+  createdAt: number;
+  voted: boolean;
+  mine: boolean;
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Not set by SST, only when running against the offline server
+  readonly VITE_LOCAL_API_URL?: string
+}
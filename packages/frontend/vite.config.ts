@@ -1,9 +1,41 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const SERVICE_WORKER = 'sw.js'
+const BUILD_PLACEHOLDER = 'const BUILD = { version: "dev", assets: [] };'
+
+// Writes the built scripts, styles and images into the service worker, so it
+// caches all of them when it installs, not just the ones a page has loaded.
+// Their names are hashed, so the list changes, and the worker with it, on
+// every build that changes the app.
+function precacheAssets(): Plugin {
+  return {
+    name: 'precache-assets',
+    apply: 'build',
+    async writeBundle({ dir }, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith('assets/') && !fileName.endsWith('.map'))
+        .sort()
+        .map((fileName) => `/${fileName}`)
+      const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12)
+      const path = join(dir!, SERVICE_WORKER)
+      const worker = await readFile(path, 'utf8')
+
+      if (!worker.includes(BUILD_PLACEHOLDER)) {
+        throw new Error(`${SERVICE_WORKER} has nowhere to list the build's assets`)
+      }
+
+      await writeFile(path, worker.replace(BUILD_PLACEHOLDER, `const BUILD = ${JSON.stringify({ version, assets })};`))
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheAssets()],
   build: {
     // NOTE: Needed when deploying
     chunkSizeWarningLimit: 800,
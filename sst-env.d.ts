@@ -9,15 +9,56 @@ declare module "sst" {
       "type": "sst.aws.ApiGatewayV2"
       "url": string
     }
+    "Cards": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "Events": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
     "Frontend": {
       "type": "sst.aws.StaticSite"
       "url": string
     }
+    "GameStream": {
+      "name": string
+      "type": "sst.aws.Function"
+      "url": string
+    }
+    "Games": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
     "IdentityPool": {
       "id": string
       "type": "sst.aws.CognitoIdentityPool"
     }
-    "Notes": {
+    "Marks": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "Nicknames": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "Players": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "RateLimits": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "Rooms": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "SessionSecret": {
+      "type": "sst.sst.Secret"
+      "value": string
+    }
+    "Snapshots": {
       "name": string
       "type": "sst.aws.Dynamo"
     }
@@ -34,6 +75,22 @@ declare module "sst" {
       "secret": string
       "type": "sst.aws.CognitoUserPoolClient"
     }
+    "Votes": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "Winners": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "WordCounts": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
+    "Words": {
+      "name": string
+      "type": "sst.aws.Dynamo"
+    }
   }
 }
 /// <reference path="sst-env.d.ts" />
@@ -13,6 +13,7 @@ export default $config({
     await import("./infra/web");
     await import("./infra/storage");
     const auth = await import("./infra/auth");
+    await import("./infra/admin");
 
     return {
       UserPool: auth.userPool.id,